@@ -1,100 +1,310 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import Sidebar from './components/Sidebar';
 import ImageUploader from './components/ImageUploader';
 import BeforeAfter from './components/BeforeAfter';
-import { ViewMode, FilterSettings, PhotoItem, EditMode } from './types';
-import { analyzeImageAndGetSettings, fileToGenerativePart, generativeEditImage } from './services/geminiService';
-
-const defaultSettings: FilterSettings = {
-  brightness: 100,
-  contrast: 100,
-  saturation: 100,
-  sepia: 0,
-  grayscale: 0,
-  hueRotate: 0,
-  blur: 0,
-  warmth: 0
-};
+import AdjustmentPanel from './components/AdjustmentPanel';
+import FilteredImage from './components/FilteredImage';
+import VirtualPhotoGrid from './components/VirtualPhotoGrid';
+import HistoryPanel from './components/HistoryPanel';
+import AiErrorNotice from './components/AiErrorNotice';
+import BatchSpellPanel from './components/BatchSpellPanel';
+import AutoTagPanel from './components/AutoTagPanel';
+import ExportDialog from './components/ExportDialog';
+import PhotoInfoDialog from './components/PhotoInfoDialog';
+import PresetPanel from './components/PresetPanel';
+import LutPanel from './components/LutPanel';
+import ToneEditor from './components/ToneEditor';
+import MaskOverlay from './components/MaskOverlay';
+import MaskPanel from './components/MaskPanel';
+import EditStackPanel from './components/EditStackPanel';
+import CropEditor from './components/CropEditor';
+import GeometryPanel from './components/GeometryPanel';
+import VariationPicker from './components/VariationPicker';
+import CreatePanel from './components/CreatePanel';
+import CollectionToolbar from './components/CollectionToolbar';
+import OrganizeDialog from './components/OrganizeDialog';
+import StarRating from './components/StarRating';
+import { ViewMode, FilterSettings, PhotoItem, EditMode, EditHistory, ProviderId, AnalysisResult, PhotoMetadata, Preset, LutStage, MaskSettings, EditStack, OperationType, Geometry, GenerativeOperation, AspectRatio, CollectionQuery, CollectionEdit, CollectionGroup, CollectionGroupResult, TaggingResult, HistoryEntry, PayloadSize } from './types';
+import { fileToGenerativePart, urlToDataUrl, hasGeminiApiKey } from './services/geminiService';
+import { providers, getProvider, getInitialProviderId, saveProviderId, generateVariations } from './services/providerService';
+import { analyzeLocally } from './services/localAnalyzer';
+import { AiCancelledError, toAiError } from './services/aiErrors';
+import { loadCollection, savePhoto, savePhotos, updatePhotoFields, deletePhotos, releasePhotoUrl, addMissingThumbnails } from './services/storageService';
+import { createThumbnail, prepareImportFile } from './services/thumbnailService';
+import { describePayload } from './services/imagePayloadService';
+import { readMetadata } from './services/metadataService';
+import { builtInPresets, loadUserPresets, saveUserPresets, createPreset, presetsToJson, parsePresetFile } from './services/presetService';
+import { downloadBlob } from './services/exportService';
+import { parseCube, serializeCube } from './services/lutService';
+import { bakeLut, isIdentitySettings, loadImage } from './services/filterService';
+import { defaultGeometry, isIdentityGeometry } from './services/geometryService';
+import { defaultMaskSettings } from './services/maskService';
+import { createStack, pushOperation, toggleOperation, moveOperation, removeOperation, renderStack, newOperationId, isOperationLocked, canMoveOperation } from './services/stackService';
+import { defaultCollectionQuery, queryCollection, groupCollection, getAlbums, getTags, applyCollectionEdit } from './services/collectionService';
+import { defaultSettings } from './constants';
+import { createHistory, pushHistory, getCurrentEntry, jumpTo, undo, redo, canUndo } from './services/historyService';
 
 const App: React.FC = () => {
-  // --- API KEY CHECK ---
-  const apiKey = process.env.API_KEY;
-  if (!apiKey || apiKey === 'undefined' || apiKey === '') {
-      return (
-          <div className="min-h-screen bg-[#121212] flex flex-col items-center justify-center p-6 text-center">
-              <div className="bg-red-500/10 border border-red-500 rounded-2xl p-8 max-w-lg">
-                  <h1 className="text-3xl font-bold text-red-500 mb-4">Missing API Key</h1>
-                  <p className="text-gray-300 mb-6">
-                      The application cannot start because the <code className="bg-black/30 px-2 py-1 rounded text-white">API_KEY</code> environment variable is missing.
-                  </p>
-                  <ul className="text-left text-sm text-gray-400 space-y-2 list-disc pl-5 mb-6">
-                      <li>Go to your <strong>Vercel Project Settings</strong>.</li>
-                      <li>Click <strong>Environment Variables</strong>.</li>
-                      <li>Add Key: <code className="text-white">API_KEY</code></li>
-                      <li>Add Value: Your <code className="text-white">AIza...</code> key.</li>
-                      <li>Redeploy the project.</li>
-                  </ul>
-                  <a href="https://vercel.com/dashboard" target="_blank" rel="noreferrer" className="bg-red-500 hover:bg-red-600 text-white px-6 py-3 rounded-xl font-bold transition-colors">
-                      Go to Vercel Dashboard
-                  </a>
-              </div>
-          </div>
-      );
-  }
-
   const [view, setView] = useState<ViewMode>(ViewMode.HOME);
   const [isSidebarOpen, setSidebarOpen] = useState(false); // Mobile
   const [isSidebarCollapsed, setSidebarCollapsed] = useState(false); // Desktop
   
   // Editor State
   const [currentImage, setCurrentImage] = useState<string | null>(null);
-  const [originalImageForUndo, setOriginalImageForUndo] = useState<string | null>(null); // To support Undo
   const [currentSettings, setCurrentSettings] = useState<FilterSettings>(defaultSettings);
   const [isProcessing, setIsProcessing] = useState(false);
   const [aiReasoning, setAiReasoning] = useState<string>("");
+  const [aiError, setAiError] = useState<Error | null>(null);
+  const [aiCorrections, setAiCorrections] = useState<string[]>([]); // Fixes the validator made to the last AI result
+  const [aiPayload, setAiPayload] = useState<PayloadSize | null>(null); // What the last AI request uploaded
+  const abortControllerRef = useRef<AbortController | null>(null); // In-flight AI request
   const [showCompare, setShowCompare] = useState(false);
+  const [history, setHistory] = useState<EditHistory | null>(null); // Undo/redo for the open image
+  const [currentStack, setCurrentStack] = useState<EditStack | null>(null); // Original + pixel edits behind currentImage
+  const [isRenderingStack, setIsRenderingStack] = useState(false);
+  // Collection item open in the editor (null for a new upload or creation), and the
+  // history step (image, settings, stack and LUT) it was opened or last saved at. Anything else is unsaved.
+  const [openItemId, setOpenItemId] = useState<string | null>(null);
+  const [savedState, setSavedState] = useState<{ entry: HistoryEntry } | null>(null);
+  // Crop tool in progress: the image it applies to and the geometry being edited.
+  // replaceId is set when re-editing the crop step at the top of the stack.
+  const [geometryDraft, setGeometryDraft] = useState<{ base: string; size: { width: number; height: number }; geometry: Geometry; replaceId?: string } | null>(null);
+  const [currentMetadata, setCurrentMetadata] = useState<PhotoMetadata | undefined>(undefined); // EXIF of the open image
+  const [currentPrompt, setCurrentPrompt] = useState<string | undefined>(undefined); // Last AI prompt applied to it
+  const [currentLut, setCurrentLut] = useState<LutStage | null>(null); // Optional .cube grade on top of the sliders
+  const [magicMask, setMagicMask] = useState<string | null>(null); // Painted Magic Edit area (PNG data URL)
+  const [maskSettings, setMaskSettings] = useState<MaskSettings>(defaultMaskSettings);
+  const [variationCount, setVariationCount] = useState(1); // Magic Edit results to request at once
+  // Magic Edit variations waiting to be picked: one candidate step per variation on top of `base`
+  const [variationSet, setVariationSet] = useState<{ label: string; base: EditStack; operations: GenerativeOperation[]; rendered: string[] } | null>(null);
   
   // Edit Mode (Color vs Magic)
   const [editMode, setEditMode] = useState<EditMode>(EditMode.COLOR);
 
+  // AI backend (Gemini or the offline mock)
+  const [providerId, setProviderId] = useState<ProviderId>(getInitialProviderId);
+  const provider = getProvider(providerId);
+
   // Inputs
   const [promptText, setPromptText] = useState("");
   const [refImage, setRefImage] = useState<string | null>(null);
+  const [createAspectRatio, setCreateAspectRatio] = useState<AspectRatio>('1:1');
+  const [createReferences, setCreateReferences] = useState<string[]>([]); // Data URLs
 
   // Collection & Export State
   const [collection, setCollection] = useState<PhotoItem[]>([]);
   const [exportSelection, setExportSelection] = useState<Set<string>>(new Set());
+  const [isCollectionLoading, setIsCollectionLoading] = useState(true);
+  const [collectionSelection, setCollectionSelection] = useState<Set<string>>(new Set());
+  const [showBatchSpell, setShowBatchSpell] = useState(false);
+  const [showAutoTag, setShowAutoTag] = useState(false);
+  const [exportItems, setExportItems] = useState<PhotoItem[] | null>(null);
+  const [infoItem, setInfoItem] = useState<PhotoItem | null>(null);
+  const [organizeIds, setOrganizeIds] = useState<string[] | null>(null); // Photos in the organize dialog
+  const [collectionQuery, setCollectionQuery] = useState<CollectionQuery>(defaultCollectionQuery); // Shared by the collection and export grids
 
-  const handleImageSelect = async (file: File) => {
-    try {
-      const base64 = await fileToGenerativePart(file);
-      const fullBase64 = `data:${file.type};base64,${base64}`;
-      setCurrentImage(fullBase64);
-      setOriginalImageForUndo(fullBase64); // Initial state
-      setCurrentSettings(defaultSettings);
+  const albums = useMemo(() => getAlbums(collection), [collection]);
+  const tags = useMemo(() => getTags(collection), [collection]);
+  const visibleCollection = useMemo(() => queryCollection(collection, collectionQuery), [collection, collectionQuery]);
+  const collectionGroups = useMemo(() => groupCollection(visibleCollection, collectionQuery.group), [visibleCollection, collectionQuery.group]);
+
+  // Selection actions (Delete, Organize, Cast a Spell, Download...) only ever see
+  // photos the current search / filter shows: hidden ones drop out of the selections
+  useEffect(() => {
+      const visible = new Set(visibleCollection.map(item => item.id));
+      const prune = (prev: Set<string>) => [...prev].every(id => visible.has(id)) ? prev : new Set([...prev].filter(id => visible.has(id)));
+      setCollectionSelection(prune);
+      setExportSelection(prune);
+  }, [visibleCollection]);
+
+  // Presets: built-ins first, then the user's own (persisted in localStorage)
+  const [presets, setPresets] = useState<Preset[]>(() => [...builtInPresets, ...loadUserPresets()]);
+
+  const openItem = collection.find(item => item.id === openItemId);
+  const isDirty = !!history && (!savedState || getCurrentEntry(history) !== savedState.entry);
+
+  // Latest collection for async callbacks (batch jobs finish long after they were queued)
+  const collectionRef = useRef(collection);
+  collectionRef.current = collection;
+
+  // Restore the persisted collection on startup
+  useEffect(() => {
+    loadCollection()
+      .then((items) => {
+          setCollection(items);
+          // Older photos get their grid thumbnails in the background
+          addMissingThumbnails(items, (id, thumbnailUrl) =>
+              setCollection(prev => prev.map(item => item.id === id ? { ...item, thumbnailUrl } : item)));
+      })
+      .catch((error) => console.error("Failed to load collection", error))
+      .finally(() => setIsCollectionLoading(false));
+  }, []);
+
+  // --- HISTORY ---
+  // Every change to currentImage / currentSettings / currentLut goes through recordStep so it can be undone.
+  const showHistory = (next: EditHistory) => {
+      const entry = getCurrentEntry(next);
+      setHistory(next);
+      setCurrentImage(entry.image);
+      setCurrentSettings(entry.settings);
+      setCurrentStack(entry.stack || null);
+      setCurrentLut(entry.lut || null);
+  };
+
+  // `stack` is the edit stack that rendered `image`; it only changes with pixel edits
+  const recordStep = (label: string, image: string, settings: FilterSettings, coalesce = false, stack = currentStack, lut = currentLut) => {
+      setCurrentImage(image);
+      setCurrentSettings(settings);
+      setCurrentStack(stack);
+      setCurrentLut(lut);
+      setHistory(prev => prev
+          ? pushHistory(prev, label, image, settings, coalesce, stack || undefined, lut || undefined)
+          : createHistory(label, image, settings, stack || undefined, lut || undefined));
+  };
+
+  // Full-size PNGs rendered from edit stacks (see renderOwned). One is freed as soon
+  // as nothing can show it again: no history step, collection item, variation
+  // or crop in progress refers to it. Discarding the photo frees them all.
+  const renderUrlsRef = useRef(new Set<string>());
+
+  const renderOwned = async (stack: EditStack) => {
+      const url = await renderStack(stack);
+      if (url !== stack.source) renderUrlsRef.current.add(url);
+      return url;
+  };
+
+  useEffect(() => {
+      const inUse = new Set<string>([
+          ...(history?.entries.map(entry => entry.image) || []),
+          ...collection.flatMap(item => [item.originalUrl, ...(item.history?.entries.map(entry => entry.image) || [])]),
+          ...(variationSet?.rendered || []),
+          ...(geometryDraft ? [geometryDraft.base] : []),
+      ]);
+      renderUrlsRef.current.forEach(url => {
+          if (inUse.has(url)) return;
+          URL.revokeObjectURL(url);
+          renderUrlsRef.current.delete(url);
+      });
+  }, [history, collection, variationSet, geometryDraft]);
+
+  // Small copy of the open image for the preset tiles, so each tile decodes a
+  // thumbnail instead of the full-size photo. Tiles show the preset's own
+  // thumbnail until it is ready.
+  const [presetPreview, setPresetPreview] = useState<string | null>(null);
+  useEffect(() => {
+      if (!currentImage) return;
+      let url: string | null = null;
+      let cancelled = false;
+      fetch(currentImage)
+          .then(response => response.blob())
+          .then(createThumbnail)
+          .then(thumbnail => {
+              if (cancelled) return;
+              url = URL.createObjectURL(thumbnail);
+              setPresetPreview(url);
+          })
+          .catch(error => console.warn("Failed to create the preset preview", error));
+      return () => {
+          cancelled = true;
+          setPresetPreview(null);
+          if (url) URL.revokeObjectURL(url);
+      };
+  }, [currentImage]);
+
+  // A mask is painted for one specific image; drop it when the image changes
+  useEffect(() => {
+      setMagicMask(null);
+      setVariationSet(null);
+  }, [currentImage]);
+
+  // Same for a crop in progress (e.g. after an undo)
+  useEffect(() => {
+      setGeometryDraft(null);
+      setEditMode(mode => mode === EditMode.CROP ? EditMode.COLOR : mode);
+  }, [currentImage]);
+
+  const confirmDiscard = () => !isDirty || confirm("This photo has unsaved changes. Discard them?");
+
+  // Closing or reloading the tab would lose them too
+  useEffect(() => {
+      if (!isDirty) return;
+      const onBeforeUnload = (e: BeforeUnloadEvent) => {
+          e.preventDefault();
+          e.returnValue = '';
+      };
+      window.addEventListener('beforeunload', onBeforeUnload);
+      return () => window.removeEventListener('beforeunload', onBeforeUnload);
+  }, [isDirty]);
+
+  const handleUndo = () => history && showHistory(undo(history));
+  const handleRedo = () => history && showHistory(redo(history));
+
+  useEffect(() => {
+      const onKeyDown = (e: KeyboardEvent) => {
+          if (!history || isProcessing || view !== ViewMode.HOME) return;
+          if (!(e.ctrlKey || e.metaKey)) return;
+          // Leave text fields to the browser's own undo
+          const target = e.target as HTMLElement;
+          if (target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && (target as HTMLInputElement).type === 'text')) return;
+
+          const key = e.key.toLowerCase();
+          if (key === 'z' && !e.shiftKey) {
+              e.preventDefault();
+              showHistory(undo(history));
+          } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+              e.preventDefault();
+              showHistory(redo(history));
+          }
+      };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+  }, [history, isProcessing, view]);
+
+  // Starts a fresh editing session on `image` (uploaded or created)
+  const openNewImage = (image: string, label: string, metadata?: PhotoMetadata, prompt?: string) => {
+      const next = createHistory(label, image, defaultSettings);
+      showHistory(next);
+      setOpenItemId(null);
+      setSavedState({ entry: getCurrentEntry(next) });
+      setCurrentMetadata(metadata);
+      setCurrentPrompt(prompt);
       setAiReasoning("");
+      setAiError(null);
+      setAiCorrections([]);
+      setAiPayload(null);
       setShowCompare(false);
       setEditMode(EditMode.COLOR);
+  };
+
+  const handleImageSelect = async (file: File) => {
+    try {
+      const metadata = await readMetadata(file);
+      const base64 = await fileToGenerativePart(file);
+      openNewImage(`data:${file.type};base64,${base64}`, "Original", metadata);
     } catch (error) {
       console.error("Error loading image", error);
     }
   };
 
   const handleResetImage = () => {
+      if (!confirmDiscard()) return;
       setCurrentImage(null);
-      setOriginalImageForUndo(null);
+      setOpenItemId(null);
+      setSavedState(null);
+      setHistory(null);
+      setCurrentStack(null);
       setCurrentSettings(defaultSettings);
+      setCurrentMetadata(undefined);
+      setCurrentPrompt(undefined);
+      setCurrentLut(null);
       setAiReasoning("");
+      setAiError(null);
+      setAiCorrections([]);
+      setAiPayload(null);
       setShowCompare(false);
       setPromptText("");
       setRefImage(null);
-  };
-
-  const handleUndo = () => {
-      if (originalImageForUndo) {
-          setCurrentImage(originalImageForUndo);
-          setAiReasoning("Reverted to original image.");
-      }
+      setCreateReferences([]);
   };
 
   const handleRefImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -104,141 +314,575 @@ const App: React.FC = () => {
      }
   }
 
-  const handleCastSpell = async () => {
-    if (!currentImage) return;
+  const handleAddCreateReferences = async (files: File[]) => {
+      const urls = await Promise.all(files.map(async file => `data:${file.type};base64,${await fileToGenerativePart(file)}`));
+      setCreateReferences(prev => [...prev, ...urls]);
+  };
 
+  // Progress, cancellation and error display shared by every AI action
+  const runAiTask = async (task: (signal: AbortSignal) => Promise<void>) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsProcessing(true);
+    setAiError(null);
+    setAiCorrections([]);
+    setAiPayload(null);
     setAiReasoning("Nano Banana is working its magic...");
 
     try {
-      const cleanBase64 = currentImage.split(',')[1];
-      // Extract mime type for correct API usage (e.g. "image/png")
-      const mimeType = currentImage.split(';')[0].split(':')[1];
+      await task(controller.signal);
+    } catch (error) {
+      const typedError = toAiError(error);
+      if (typedError instanceof AiCancelledError) {
+          setAiReasoning("Cancelled.");
+      } else {
+          console.error("AI Error", error);
+          setAiReasoning("");
+          setAiError(typedError);
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsProcessing(false);
+    }
+  };
+
+  // --- CREATE MODE ---
+  const handleCreate = () => confirmDiscard() && runAiTask(async (signal) => {
+      const prompt = promptText.trim();
+      const references = createReferences.map(url => ({ data: url.split(',')[1], mimeType: url.split(';')[0].split(':')[1] }));
+      const result = await provider.generateImage(prompt, createAspectRatio, references, { signal });
+      setAiPayload(result.payload || null);
+      openNewImage(`data:${result.mimeType || "image/png"};base64,${result.images[0]}`, `Create: '${prompt}'`, undefined, prompt);
+      setSavedState(null); // Nothing to go back to: the generated image itself is unsaved
+      setAiReasoning(`Image created with ${result.model}. Color or Magic Edit it, then save it to your collection.`);
+  });
+
+  const handleCastSpell = () => {
+    if (editMode === EditMode.CREATE) return handleCreate();
+    if (!currentImage) return;
+
+    return runAiTask(async (signal) => {
+      // History steps restored from the collection may hold Blob URLs
+      const imageDataUrl = await urlToDataUrl(currentImage);
+      const cleanBase64 = imageDataUrl.split(',')[1];
+      // The provider downscales and re-encodes for upload; this is a hint for formats it can't sniff
+      const mimeType = imageDataUrl.split(';')[0].split(':')[1];
+      const promptLabel = promptText.trim() ? `'${promptText.trim()}'` : 'Auto';
 
       if (editMode === EditMode.COLOR) {
           // --- COLOR GRADE MODE ---
           const cleanRefBase64 = refImage ? refImage.split(',')[1] : undefined;
-          const result = await analyzeImageAndGetSettings(cleanBase64, promptText, cleanRefBase64);
-          setCurrentSettings(prev => ({...prev, ...result.suggestedSettings}));
-          setAiReasoning(result.reasoning);
+          const result = await provider.analyze(cleanBase64, promptText, cleanRefBase64, { signal });
+          recordStep(`Cast a Spell: ${promptLabel}`, currentImage, {...currentSettings, ...result.suggestedSettings});
+          setAiReasoning(result.reasoning || "Settings applied.");
+          setAiCorrections(result.corrections || []);
+          setAiPayload(result.payload || null);
 
       } else {
           // --- MAGIC EDIT MODE ---
-          setOriginalImageForUndo(currentImage);
-          
-          const newImageBase64 = await generativeEditImage(cleanBase64, promptText, mimeType);
-          setCurrentImage(`data:${mimeType};base64,${newImageBase64}`);
-          setAiReasoning("Magic edit applied successfully!");
+          const mask = magicMask ? magicMask.split(',')[1] : undefined;
+          const { variations, payload } = await generateVariations(provider, cleanBase64, promptText, mimeType, variationCount, { signal, mask });
+          setAiPayload(payload || null);
+          const label = `Magic Edit${magicMask ? ' (masked)' : ''}: ${promptLabel}`;
+          // Recorded as a step on the edit stack, so the original is never overwritten.
+          // With a mask, rendering keeps everything outside the painted area.
+          const base = currentStack || createStack(currentImage);
+          const operations: GenerativeOperation[] = variations.map(result => ({
+              id: newOperationId(),
+              type: OperationType.GENERATIVE,
+              label,
+              enabled: true,
+              timestamp: Date.now(),
+              prompt: promptText.trim(),
+              provider: provider.id,
+              model: result.model,
+              result: `data:${result.mimeType || mimeType};base64,${result.image}`,
+              mask: magicMask || undefined,
+              feather: magicMask ? maskSettings.feather : undefined,
+          }));
+          if (operations.length === 1) {
+              const stack = pushOperation(base, operations[0]);
+              recordStep(label, await renderOwned(stack), currentSettings, false, stack);
+              setMagicMask(null);
+              setAiReasoning("Magic edit applied successfully!");
+          } else {
+              const rendered = await Promise.all(operations.map(op => renderOwned(pushOperation(base, op))));
+              setVariationSet({ label, base, operations, rendered });
+              setAiReasoning(`${operations.length} variations ready. Pick one to use, or save several.`);
+          }
       }
 
+      setCurrentPrompt(promptText.trim() || undefined);
       setShowCompare(false); 
+    });
+  };
+
+  const handleCancelAi = () => abortControllerRef.current?.abort();
+
+  // --- EDIT STACK ---
+
+  const applyStack = async (stack: EditStack, label: string, settings = currentSettings) => {
+    setIsRenderingStack(true);
+    try {
+        recordStep(label, await renderOwned(stack), settings, false, stack);
     } catch (error: any) {
-      console.error("AI Error", error);
-      
-      let errorMessage = error.message || "An unknown error occurred.";
-      let friendlyError = errorMessage;
-
-      if (errorMessage.includes("429") || errorMessage.includes("Quota") || errorMessage.includes("quota")) {
-          friendlyError = "QUOTA_ERROR"; // Special flag for UI
-      } else if (errorMessage.includes("403")) {
-          friendlyError = "ACCESS_ERROR"; // Special flag for UI
-      } else if (errorMessage.includes("503")) {
-          friendlyError = "🤖 System Overloaded. The AI service is temporarily busy. Please try again.";
-      }
-      
-      setAiReasoning(`ERROR: ${friendlyError}`);
+        console.error("Failed to render edit stack", error);
+        alert(error.message || "Failed to render the edit stack.");
     } finally {
-      setIsProcessing(false);
+        setIsRenderingStack(false);
+    }
+  };
+
+  const findOperation = (id: string) => currentStack?.operations.find(op => op.id === id);
+
+  const handleToggleOperation = (id: string) => {
+    const op = findOperation(id);
+    if (!currentStack || !op || isOperationLocked(currentStack, id)) return;
+    applyStack(toggleOperation(currentStack, id), `${op.enabled ? 'Hide' : 'Show'} Step: ${op.label}`);
+  };
+
+  const handleMoveOperation = (id: string, offset: number) => {
+    const op = findOperation(id);
+    if (!currentStack || !op || !canMoveOperation(currentStack, id, offset)) return;
+    applyStack(moveOperation(currentStack, id, offset), `Move Step: ${op.label}`);
+  };
+
+  const handleRemoveOperation = (id: string) => {
+    const op = findOperation(id);
+    if (!currentStack || !op || isOperationLocked(currentStack, id)) return;
+    applyStack(removeOperation(currentStack, id), `Remove Step: ${op.label}`);
+  };
+
+  // --- VARIATIONS ---
+
+  const handleUseVariation = (index: number) => {
+    if (!variationSet) return;
+    const stack = pushOperation(variationSet.base, variationSet.operations[index]);
+    recordStep(variationSet.label, variationSet.rendered[index], currentSettings, false, stack);
+  };
+
+  // Each chosen variation becomes its own collection item, with its own edit stack
+  const handleSaveVariations = async (indices: number[]) => {
+    if (!variationSet) return;
+    const items: PhotoItem[] = indices.map((index, n) => ({
+        id: Date.now().toString() + Math.random().toString().slice(2,6) + n,
+        originalUrl: variationSet.rendered[index],
+        name: `Photo ${collectionRef.current.length + n + 1}`,
+        timestamp: Date.now(),
+        settings: currentSettings,
+        stack: pushOperation(variationSet.base, variationSet.operations[index]),
+        metadata: currentMetadata,
+        prompt: variationSet.operations[index].prompt || currentPrompt,
+        lut: currentLut || undefined
+    }));
+    let saved: PhotoItem[];
+    try {
+        saved = await savePhotos(items.map(item => ({ item })));
+    } catch (error: any) {
+        console.error("Failed to save variations", error);
+        alert(error.message || "Failed to save variations.");
+        return;
     }
+    setCollection(prev => [...saved, ...prev]);
+    alert(items.length === 1 ? "Saved to collection!" : `Saved ${items.length} variations to collection!`);
   };
 
-  const handleSaveToCollection = () => {
+  // --- CROP & ROTATE ---
+  // The crop tool edits one geometry step. If the top of the stack already is
+  // one, it is re-opened on the image underneath it instead of stacking another.
+
+  const handleStartCrop = async () => {
     if (!currentImage) return;
-    const newItem: PhotoItem = {
-        id: Date.now().toString() + Math.random().toString().slice(2,6),
-        originalUrl: currentImage, 
-        name: `Photo ${collection.length + 1}`,
+    const stack = currentStack || createStack(currentImage);
+    const top = stack.operations[stack.operations.length - 1];
+    const editing = top?.type === OperationType.GEOMETRY && top.enabled ? top : undefined;
+    const below = editing ? removeOperation(stack, editing.id) : null;
+    let base = currentImage;
+    try {
+        if (below) base = await renderStack(below);
+        const img = await loadImage(base);
+        setGeometryDraft({
+            base,
+            size: { width: img.naturalWidth, height: img.naturalHeight },
+            geometry: editing ? editing.geometry : defaultGeometry,
+            replaceId: editing?.id,
+        });
+        setShowCompare(false);
+        setEditMode(EditMode.CROP);
+    } catch (error: any) {
+        console.error("Failed to start crop", error);
+        alert(error.message || "Failed to open the crop tool.");
+    } finally {
+        // Not owned until now, so it can't be freed while it is still loading;
+        // if the crop tool didn't open, the next clean-up frees it
+        if (below && base !== below.source) renderUrlsRef.current.add(base);
+    }
+  };
+
+  const handleCancelCrop = () => {
+    setGeometryDraft(null);
+    setEditMode(EditMode.COLOR);
+  };
+
+  const handleApplyCrop = async () => {
+    if (!currentImage || !geometryDraft) return;
+    const { geometry, replaceId } = geometryDraft;
+    if (!replaceId && isIdentityGeometry(geometry)) {
+        handleCancelCrop();
+        return;
+    }
+    const base = currentStack || createStack(currentImage);
+    let stack = replaceId ? removeOperation(base, replaceId) : base;
+    if (!isIdentityGeometry(geometry)) {
+        stack = pushOperation(stack, {
+            id: newOperationId(),
+            type: OperationType.GEOMETRY,
+            label: 'Crop & Rotate',
+            enabled: true,
+            timestamp: Date.now(),
+            geometry,
+        });
+    }
+    await applyStack(stack, replaceId ? 'Edit Crop & Rotate' : 'Crop & Rotate');
+    handleCancelCrop();
+  };
+
+  // Turns the current sliders into a step of their own, so later pixel edits
+  // stack on top of them and they can be toggled or reordered like any other step
+  const handleBakeAdjustments = () => {
+    if (!currentImage) return;
+    const stack = pushOperation(currentStack || createStack(currentImage), {
+        id: newOperationId(),
+        type: OperationType.ADJUST,
+        label: 'Adjustments',
+        enabled: true,
         timestamp: Date.now(),
-        settings: currentSettings 
+        settings: currentSettings,
+    });
+    applyStack(stack, 'Add Adjustments as Step', defaultSettings);
+  };
+
+  // Instant local auto-enhance, no API round trip
+  const handleAutoEnhance = async () => {
+    if (!currentImage) return;
+    try {
+      const imageDataUrl = await urlToDataUrl(currentImage);
+      const result = await analyzeLocally(imageDataUrl.split(',')[1], promptText);
+      recordStep("Auto Enhance", currentImage, {...currentSettings, ...result.suggestedSettings});
+      setAiReasoning(result.reasoning);
+      setAiError(null);
+      setAiCorrections([]);
+      setAiPayload(null);
+      setShowCompare(false);
+    } catch (error: any) {
+      console.error("Auto enhance failed", error);
+      setAiReasoning("");
+      setAiError(error);
+    }
+  };
+
+  // Overwrites the open collection item, or adds a new one (always new with asCopy)
+  const handleSaveToCollection = async (asCopy = false) => {
+    if (!currentImage) return;
+    const id = Date.now().toString() + Math.random().toString().slice(2,6);
+    const base: Pick<PhotoItem, 'id' | 'name' | 'timestamp'> & Partial<PhotoItem> = openItem
+        ? (asCopy ? { ...openItem, id, name: `${openItem.name} (copy)`, timestamp: Date.now() } : openItem)
+        : { id, name: `Photo ${collection.length + 1}`, timestamp: Date.now() };
+    const item: PhotoItem = {
+        ...base,
+        originalUrl: currentImage, 
+        thumbnailUrl: undefined, // Made again from the new image
+        settings: currentSettings,
+        history: history || undefined,
+        stack: currentStack || undefined,
+        metadata: openItem ? openItem.metadata : currentMetadata, // May have been edited in the info dialog
+        prompt: currentPrompt,
+        lut: currentLut || undefined
     };
-    setCollection([newItem, ...collection]);
-    alert("Saved to collection!");
-  };
-
-  const processAndDownloadImage = (item: PhotoItem) => {
-      return new Promise<void>((resolve) => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        const img = new Image();
-        img.src = item.originalUrl;
-        img.onload = () => {
-            canvas.width = img.width;
-            canvas.height = img.height;
-            if (ctx) {
-                const s = item.settings;
-                ctx.filter = `brightness(${s.brightness}%) contrast(${s.contrast}%) saturate(${s.saturation}%) sepia(${s.sepia}%) grayscale(${s.grayscale}%) hue-rotate(${s.hueRotate}deg) blur(${s.blur}px)`;
-                ctx.drawImage(img, 0, 0);
-                
-                const link = document.createElement('a');
-                link.download = `bananalens-${item.name.replace(/\s+/g, '-').toLowerCase()}.png`;
-                link.href = canvas.toDataURL();
-                document.body.appendChild(link);
-                link.click();
-                document.body.removeChild(link);
-            }
-            resolve();
+    let saved: PhotoItem;
+    try {
+        saved = await savePhoto(item);
+    } catch (error: any) {
+        console.error("Failed to save photo", error);
+        alert(error.message || "Failed to save photo.");
+        return;
+    }
+    // The collection may have changed while saving (auto-tags, thumbnails...)
+    const previous = collectionRef.current.find(existing => existing.id === item.id);
+    const isUpdate = !!previous;
+    // Only the old thumbnail is safe to free; history may still show the other images
+    if (previous?.thumbnailUrl) URL.revokeObjectURL(previous.thumbnailUrl);
+    setCollection(prev => prev.some(existing => existing.id === item.id)
+        ? prev.map(existing => existing.id === item.id ? saved : existing)
+        : [saved, ...prev]);
+    setOpenItemId(item.id);
+    if (history) setSavedState({ entry: getCurrentEntry(history) });
+    alert(isUpdate ? `Saved changes to "${item.name}".` : `Saved to collection as "${item.name}".`);
+  };
+
+  // Back to the last saved (or opened) state. Done as a history jump, so it can be undone.
+  const handleRevert = () => {
+    if (!history || !savedState || !confirm("Discard unsaved changes?")) return;
+    const index = history.entries.indexOf(savedState.entry);
+    if (index !== -1) {
+        showHistory(jumpTo(history, index));
+    } else if (openItem) {
+        // The saved step has dropped out of the history; reload the item
+        handleOpenInEditor(openItem, true);
+    }
+  };
+
+  const handleDeleteFromCollection = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    if (!confirm(ids.length === 1 ? "Delete this photo from your collection?" : `Delete ${ids.length} photos from your collection?`)) return;
+    try {
+        await deletePhotos(ids);
+    } catch (error: any) {
+        console.error("Failed to delete photos", error);
+        alert(error.message || "Failed to delete photos.");
+        return;
+    }
+    const removed = new Set(ids);
+    // The open item's images are still on screen; it just becomes unsaved
+    collection.filter(item => removed.has(item.id) && item.id !== openItemId).forEach(releasePhotoUrl);
+    if (openItemId && removed.has(openItemId)) {
+        setOpenItemId(null);
+        setSavedState(null);
+    }
+    setCollection(prev => prev.filter(item => !removed.has(item.id)));
+    setExportSelection(prev => new Set([...prev].filter(id => !removed.has(id))));
+    setCollectionSelection(prev => new Set([...prev].filter(id => !removed.has(id))));
+  };
+
+  // Replaces one collection item and persists it. Changes that leave the images
+  // alone (ratings, tags, albums...) skip rewriting the image blobs.
+  // Resolves to false when the item is gone or could not be saved
+  const updateCollectionItem = async (id: string, update: (item: PhotoItem) => PhotoItem) => {
+    const existing = collectionRef.current.find(item => item.id === id);
+    if (!existing) return false;
+    const updated = update(existing);
+    setCollection(prev => prev.map(item => item.id === id ? updated : item));
+    const imagesChanged = updated.originalUrl !== existing.originalUrl || updated.history !== existing.history || updated.stack !== existing.stack;
+    try {
+        await (imagesChanged ? savePhoto(updated) : updatePhotoFields(updated));
+        return true;
+    } catch (error) {
+        console.error("Failed to save photo", updated.name, error);
+        return false;
+    }
+  };
+
+  const handleOrganize = (ids: string[], edit: CollectionEdit) => {
+    ids.forEach(id => updateCollectionItem(id, item => applyCollectionEdit(item, edit)));
+  };
+
+  const handleAutoTagResult = (id: string, { caption, tags, scene, model }: TaggingResult) => {
+    updateCollectionItem(id, item => ({ ...item, autoTags: { caption, tags, scene, model, indexedAt: Date.now() } }));
+  };
+
+  const handleBatchSpellResult = (id: string, result: AnalysisResult, prompt: string) => {
+    const label = `Batch Cast a Spell: ${prompt.trim() ? `'${prompt.trim()}'` : 'Auto'}`;
+    updateCollectionItem(id, item => {
+        const settings = { ...item.settings, ...result.suggestedSettings };
+        return {
+            ...item,
+            settings,
+            prompt: prompt.trim() || item.prompt,
+            history: item.history ? pushHistory(item.history, label, item.originalUrl, settings, false, item.stack, item.lut) : undefined,
         };
-        img.onerror = () => resolve(); 
-      });
+    });
+  };
+
+  // --- PRESETS ---
+
+  const updatePresets = (next: Preset[]) => {
+    try {
+        saveUserPresets(next);
+    } catch (error) {
+        console.error("Failed to save presets", error);
+        alert("Could not save presets: browser storage is full.");
+        return false;
+    }
+    setPresets(next);
+    return true;
+  };
+
+  const handleApplyPreset = (preset: Preset) => {
+    if (!currentImage) return;
+    recordStep(`Preset: ${preset.name}`, currentImage, { ...preset.settings });
+    setShowCompare(false);
+  };
+
+  const handleApplyPresetToSelection = async (preset: Preset) => {
+    const results = await Promise.all([...collectionSelection].map(id => updateCollectionItem(id, item => ({
+        ...item,
+        settings: { ...preset.settings },
+        history: item.history ? pushHistory(item.history, `Preset: ${preset.name}`, item.originalUrl, preset.settings, false, item.stack, item.lut) : undefined,
+    }))));
+    const failed = results.filter(saved => !saved).length;
+    if (failed > 0) alert(`Applied "${preset.name}", but ${failed} of ${results.length} photos could not be saved.`);
+  };
+
+  const handleSavePreset = async (name: string) => {
+    if (!currentImage) return;
+    const preset = await createPreset(name, currentSettings, currentImage, currentPrompt);
+    updatePresets([...presets, preset]);
+  };
+
+  const handleDeletePreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset || preset.builtIn || !confirm(`Delete preset "${preset.name}"?`)) return;
+    updatePresets(presets.filter(p => p.id !== id));
+  };
+
+  const handleImportPresets = async (file: File) => {
+    try {
+        const { presets: imported, corrections } = parsePresetFile(await file.text());
+        if (corrections.length > 0) console.warn("Preset import corrections", corrections);
+        if (updatePresets([...presets, ...imported])) {
+            alert(`Imported ${imported.length} presets.${corrections.length > 0 ? ` ${corrections.length} values were out of range and adjusted.` : ''}`);
+        }
+    } catch (error: any) {
+        console.error("Failed to import presets", error);
+        alert(error.message || "Failed to import presets.");
+    }
+  };
+
+  const handleExportPresets = () => {
+    const userPresets = presets.filter(p => !p.builtIn);
+    downloadBlob(new Blob([presetsToJson(userPresets)], { type: 'application/json' }), 'bananalens-presets.json');
+  };
+
+  // --- LUTS ---
+
+  // LUT changes are history steps like any other edit, so they can be undone
+  const handleLoadLut = async (file: File) => {
+    if (!currentImage) return;
+    try {
+        const lut = parseCube(await file.text(), file.name.replace(/\.cube$/i, ''));
+        recordStep(`Load LUT: ${lut.title}`, currentImage, currentSettings, false, currentStack, { lut, intensity: currentLut?.intensity ?? 100 });
+    } catch (error: any) {
+        console.error("Failed to load LUT", error);
+        alert(`Could not load ${file.name}: ${error.message}`);
+    }
+  };
+
+  const handleLutIntensity = (intensity: number) => {
+    if (!currentImage || !currentLut) return;
+    recordStep('LUT Intensity', currentImage, currentSettings, true, currentStack, { ...currentLut, intensity });
+  };
+
+  const handleRemoveLut = () => {
+    if (!currentImage || !currentLut) return;
+    recordStep(`Remove LUT: ${currentLut.lut.title}`, currentImage, currentSettings, false, currentStack, null);
+  };
+
+  const handleExportCube = () => {
+    const title = currentLut ? `BananaLens + ${currentLut.lut.title}` : 'BananaLens';
+    const cube = serializeCube(bakeLut(currentSettings, currentLut, 33, title));
+    downloadBlob(new Blob([cube], { type: 'text/plain' }), 'bananalens-look.cube');
+  };
+
+  const toggleCollectionSelection = (id: string) => {
+      const newSet = new Set(collectionSelection);
+      if (newSet.has(id)) {
+          newSet.delete(id);
+      } else {
+          newSet.add(id);
+      }
+      setCollectionSelection(newSet);
+  };
+
+  const handleOpenInEditor = async (item: PhotoItem, skipConfirm = false) => {
+    if (!skipConfirm && !confirmDiscard()) return;
+    try {
+        // Resume exactly where this photo's edit history left off
+        const next = item.history || createHistory("Original", await urlToDataUrl(item.originalUrl), item.settings, item.stack, item.lut);
+        showHistory(next);
+        setOpenItemId(item.id);
+        setSavedState({ entry: getCurrentEntry(next) });
+        setCurrentMetadata(item.metadata);
+        setCurrentPrompt(item.prompt);
+        setAiReasoning("");
+        setAiError(null);
+        setAiCorrections([]);
+        setAiPayload(null);
+        setShowCompare(false);
+        setView(ViewMode.HOME);
+    } catch (error) {
+        console.error("Error opening photo", error);
+    }
   };
 
   const handleSingleExport = () => {
       if (!currentImage) return;
-      const tempItem: PhotoItem = {
+      setExportItems([{
           id: 'temp',
           originalUrl: currentImage,
           name: 'edit',
           timestamp: Date.now(),
-          settings: currentSettings
-      };
-      processAndDownloadImage(tempItem);
+          settings: currentSettings,
+          metadata: currentMetadata,
+          prompt: currentPrompt,
+          lut: currentLut || undefined
+      }]);
   };
 
-  const handleBatchExport = async () => {
+  const handleBatchExport = () => {
       if (exportSelection.size === 0) return;
-      const itemsToExport = collection.filter(item => exportSelection.has(item.id));
-      let processed = 0;
-      for (const item of itemsToExport) {
-          await processAndDownloadImage(item);
-          processed++;
-          await new Promise(r => setTimeout(r, 500));
-      }
-      setExportSelection(new Set()); 
-      alert(`Exported ${processed} photos.`);
+      setExportItems(collection.filter(item => exportSelection.has(item.id)));
   };
 
   const handleBatchImport = useCallback(async (files: FileList) => {
-      const newItems: PhotoItem[] = [];
+      const newItems: { item: PhotoItem; blob: Blob; thumbnail: Blob }[] = [];
       for (let i = 0; i < files.length; i++) {
           const file = files[i];
+          if (!file.type.startsWith('image/')) {
+              console.warn("Skipping non-image file", file.name);
+              continue;
+          }
+          // Keep the File itself as the stored Blob; every decode applies its orientation.
+          // Decoding happens in the thumbnail worker; only the small thumbnail is ever drawn.
+          let prepared;
           try {
-              const base64 = await fileToGenerativePart(file);
-              newItems.push({
+              prepared = await prepareImportFile(file);
+          } catch (error) {
+              console.warn("Skipping unreadable image", file.name, error);
+              continue;
+          }
+          const { metadata, thumbnail } = prepared;
+          newItems.push({
+              item: {
                   id: Date.now().toString() + Math.random().toString().slice(2,8) + i,
-                  originalUrl: `data:${file.type};base64,${base64}`,
+                  originalUrl: URL.createObjectURL(file),
                   name: file.name.split('.')[0] || `Photo ${collection.length + i + 1}`,
                   timestamp: Date.now(),
-                  settings: defaultSettings
-              });
-          } catch (e) {
-              console.error("Failed to import file", file.name, e);
-          }
+                  settings: defaultSettings,
+                  metadata
+              },
+              blob: file,
+              thumbnail
+          });
       }
-      setCollection(prev => [...newItems, ...prev]);
+      let saved: PhotoItem[];
+      try {
+          saved = await savePhotos(newItems);
+      } catch (error: any) {
+          console.error("Failed to import photos", error);
+          newItems.forEach(({ item }) => releasePhotoUrl(item));
+          alert(error.message || "Failed to import photos.");
+          return;
+      }
+      setCollection(prev => [...saved, ...prev]);
       alert(`Imported ${newItems.length} photos to your collection.`);
       setView(ViewMode.COLLECTION);
   }, [collection.length]);
 
+  const handleProviderChange = (id: ProviderId) => {
+      setProviderId(id);
+      saveProviderId(id);
+  };
+
   const toggleExportSelection = (id: string) => {
       const newSet = new Set(exportSelection);
       if (newSet.has(id)) {
@@ -249,19 +893,37 @@ const App: React.FC = () => {
       setExportSelection(newSet);
   };
 
+  const renderProcessingOverlay = () => (
+    <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center z-50 backdrop-blur-sm rounded-lg">
+        <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-b-4 border-banana-500 mb-4"></div>
+        <p className="text-banana-400 font-medium animate-pulse">Nano Banana is casting a spell...</p>
+        <button
+            onClick={handleCancelAi}
+            className="mt-4 bg-black/50 hover:bg-white/20 text-white px-4 py-2 rounded-lg text-sm border border-white/10 transition-colors"
+        >
+            Cancel
+        </button>
+    </div>
+  );
+
   const renderHome = () => (
     <div className="flex flex-col h-full w-full max-w-6xl mx-auto p-4 md:p-6 space-y-4">
       <div className="flex-1 flex flex-col items-center justify-center min-h-0 relative bg-dark-surface/50 rounded-3xl border border-dark-border overflow-hidden p-8">
         {!currentImage ? (
-          <ImageUploader onImageSelected={handleImageSelect} />
+          <>
+            <ImageUploader onImageSelected={handleImageSelect} />
+            {/* Create mode can run before there is an image */}
+            {isProcessing && renderProcessingOverlay()}
+          </>
         ) : (
           <>
             <div className="absolute top-6 right-6 z-40 flex gap-2">
-                {editMode === EditMode.MAGIC && currentImage !== originalImageForUndo && (
+                {history && canUndo(history) && (
                     <button
                         onClick={handleUndo}
-                        className="bg-black/50 hover:bg-white/20 text-white px-4 py-2 rounded-lg backdrop-blur-md flex items-center gap-2 transition-colors border border-white/10 shadow-lg"
-                        title="Undo Magic Edit"
+                        disabled={isProcessing}
+                        className="bg-black/50 hover:bg-white/20 text-white px-4 py-2 rounded-lg backdrop-blur-md flex items-center gap-2 transition-colors border border-white/10 shadow-lg disabled:opacity-50"
+                        title={`Undo ${getCurrentEntry(history).label} (Ctrl+Z)`}
                     >
                         <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 7v6h6"/><path d="M21 17a9 9 0 0 0-9-9 9 9 0 0 0-6 2.3L3 13"/></svg>
                         Undo
@@ -278,18 +940,43 @@ const App: React.FC = () => {
             </div>
 
             <div className="relative flex items-center justify-center max-w-full max-h-full shadow-2xl">
-                <BeforeAfter 
-                    originalUrl={currentImage} 
-                    settings={currentSettings} 
-                    isCompareActive={showCompare}
-                />
-                
-                {isProcessing && (
-                    <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center z-50 backdrop-blur-sm rounded-lg">
-                        <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-b-4 border-banana-500 mb-4"></div>
-                        <p className="text-banana-400 font-medium animate-pulse">Nano Banana is casting a spell...</p>
-                    </div>
+                {variationSet && editMode !== EditMode.CROP ? (
+                    <VariationPicker
+                        originalUrl={currentImage}
+                        variations={variationSet.rendered}
+                        settings={currentSettings}
+                        lut={currentLut}
+                        onUse={handleUseVariation}
+                        onSave={handleSaveVariations}
+                        onDiscard={() => setVariationSet(null)}
+                        disabled={isProcessing}
+                    />
+                ) : editMode === EditMode.CROP && geometryDraft ? (
+                    <CropEditor
+                        src={geometryDraft.base}
+                        geometry={geometryDraft.geometry}
+                        onChange={(geometry) => setGeometryDraft({ ...geometryDraft, geometry })}
+                        disabled={isRenderingStack}
+                    />
+                ) : (
+                    <BeforeAfter 
+                        originalUrl={currentImage} 
+                        settings={currentSettings} 
+                        lut={currentLut}
+                        isCompareActive={showCompare}
+                        overlay={editMode === EditMode.MAGIC && (
+                            <MaskOverlay
+                                src={currentImage}
+                                mask={magicMask}
+                                settings={maskSettings}
+                                onChange={setMagicMask}
+                                disabled={isProcessing}
+                            />
+                        )}
+                    />
                 )}
+                
+                {isProcessing && renderProcessingOverlay()}
             </div>
           </>
         )}
@@ -318,10 +1005,52 @@ const App: React.FC = () => {
                               >
                                   ✨ Magic Edit
                               </button>
+                              <button
+                                  onClick={handleStartCrop}
+                                  disabled={!currentImage || isProcessing}
+                                  className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all flex items-center gap-1 disabled:opacity-50 ${editMode === EditMode.CROP ? 'bg-banana-500 text-white shadow' : 'text-gray-400 hover:text-white'}`}
+                              >
+                                  ✂️ Crop
+                              </button>
+                              <button
+                                  onClick={() => setEditMode(EditMode.CREATE)}
+                                  disabled={isProcessing}
+                                  className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all flex items-center gap-1 disabled:opacity-50 ${editMode === EditMode.CREATE ? 'bg-banana-500 text-white shadow' : 'text-gray-400 hover:text-white'}`}
+                              >
+                                  🖼️ Create
+                              </button>
                           </div>
+                          {provider.id === ProviderId.MOCK && (
+                              <span className="text-xs text-gray-400 bg-white/5 px-2 py-1 rounded-full border border-white/10" title="Using the offline provider (change in Settings)">Offline</span>
+                          )}
                       </div>
 
-                       {aiReasoning && !isProcessing && !aiReasoning.startsWith('ERROR:') && (
+                       {currentImage && (
+                           <div className="flex items-center gap-3 text-xs">
+                               <span className="text-gray-400 truncate max-w-[12rem]" title={openItem ? openItem.name : undefined}>
+                                   {openItem ? openItem.name : 'Not in collection'}
+                                   {isDirty && <span className="text-banana-400"> · Unsaved changes</span>}
+                               </span>
+                               <button
+                                   onClick={handleRevert}
+                                   disabled={!isDirty || !savedState || isProcessing}
+                                   title="Go back to the last saved version"
+                                   className="text-gray-400 hover:text-banana-400 disabled:opacity-40 disabled:hover:text-gray-400 transition-colors"
+                               >
+                                   Revert
+                               </button>
+                               <button
+                                   onClick={() => handleSaveToCollection(true)}
+                                   disabled={!openItem || isProcessing}
+                                   title="Save as a new collection item, leaving the original untouched"
+                                   className="text-gray-400 hover:text-banana-400 disabled:opacity-40 disabled:hover:text-gray-400 transition-colors"
+                               >
+                                   Save as Copy
+                               </button>
+                           </div>
+                       )}
+
+                       {aiReasoning && !isProcessing && !aiError && (
                            <span className="text-xs text-banana-400 bg-banana-500/10 px-2 py-1 rounded-full border border-banana-500/20 hidden md:inline-block">Applied</span>
                        )}
                   </div>
@@ -330,7 +1059,7 @@ const App: React.FC = () => {
                       <div className="flex-1 relative">
                           <input 
                               type="text" 
-                              placeholder={editMode === EditMode.COLOR ? "Describe a style (e.g. 'Cyberpunk city', 'Warm vintage film')" : "Describe what to edit (e.g. 'Remove pimples', 'Add sunglasses')"}
+                              placeholder={editMode === EditMode.COLOR ? "Describe a style (e.g. 'Cyberpunk city', 'Warm vintage film')" : editMode === EditMode.CREATE ? "Describe the image to create (e.g. 'A banana astronaut on the moon, watercolor')" : "Describe what to edit (e.g. 'Remove pimples', 'Add sunglasses')"}
                               className="w-full bg-black/30 border border-dark-border rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-banana-500 transition-colors text-white pr-10"
                               value={promptText}
                               onChange={(e) => setPromptText(e.target.value)}
@@ -353,20 +1082,45 @@ const App: React.FC = () => {
                               </button>
                           </div>
                       )}
+                      {editMode === EditMode.MAGIC && (
+                          <select
+                              value={variationCount}
+                              onChange={(e) => setVariationCount(parseInt(e.target.value, 10))}
+                              disabled={isProcessing}
+                              title="How many variations to generate"
+                              className="shrink-0 bg-black/30 border border-dark-border rounded-xl px-3 py-3 text-sm text-white focus:outline-none focus:border-banana-500"
+                          >
+                              {[1, 2, 3, 4].map(n => (
+                                  <option key={n} value={n}>{n === 1 ? '1 result' : `${n} variations`}</option>
+                              ))}
+                          </select>
+                      )}
                   </div>
               </div>
 
               <div className="flex flex-col md:flex-row gap-4">
                   <button 
                       onClick={handleCastSpell}
-                      disabled={isProcessing || !currentImage}
+                      disabled={isProcessing || editMode === EditMode.CROP || (editMode === EditMode.CREATE ? !promptText.trim() : !currentImage)}
                       className="flex-1 py-4 bg-gradient-to-r from-banana-500 to-banana-600 hover:from-banana-400 hover:to-banana-500 text-white font-bold rounded-xl shadow-lg shadow-banana-500/20 transform hover:-translate-y-0.5 transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none disabled:shadow-none"
                   >
                        <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m12 3-1.912 5.813a2 2 0 0 1-1.275 1.275L3 12l5.813 1.912a2 2 0 0 1 1.275 1.275L12 21l1.912-5.813a2 2 0 0 1 1.275-1.275L21 12l-5.813-1.912a2 2 0 0 1-1.275-1.275L12 3Z"/></svg>
-                      {isProcessing ? "Analyzing..." : (editMode === EditMode.MAGIC ? "Magic Edit" : "Cast a Spell")}
+                      {isProcessing ? "Analyzing..." : (editMode === EditMode.MAGIC ? "Magic Edit" : editMode === EditMode.CREATE ? "Create" : "Cast a Spell")}
                   </button>
 
                   <div className="flex gap-3 justify-center">
+                      {editMode === EditMode.COLOR && (
+                          <button 
+                              onClick={handleAutoEnhance}
+                              disabled={isProcessing || !currentImage}
+                              title="Auto Enhance (instant, runs locally)"
+                              className="px-4 h-[56px] bg-black/30 hover:bg-dark-border text-gray-300 hover:text-white rounded-xl border border-dark-border transition-all flex items-center justify-center gap-2 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                              <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="13 2 3 14 12 14 11 22 21 10 12 10 13 2"/></svg>
+                              Auto
+                          </button>
+                      )}
+
                       <button 
                           onClick={() => setShowCompare(!showCompare)}
                           disabled={!currentImage}
@@ -381,11 +1135,12 @@ const App: React.FC = () => {
                       </button>
 
                       <button 
-                          onClick={handleSaveToCollection}
+                          onClick={() => handleSaveToCollection()}
                           disabled={!currentImage}
-                          title="Save to Collection"
-                          className="p-0 w-[56px] h-[56px] bg-black/30 hover:bg-dark-border text-gray-300 hover:text-white rounded-xl border border-dark-border transition-all flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                          title={openItem ? `Save changes to "${openItem.name}"` : "Save to Collection"}
+                          className="relative p-0 w-[56px] h-[56px] bg-black/30 hover:bg-dark-border text-gray-300 hover:text-white rounded-xl border border-dark-border transition-all flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
                       >
+                          {isDirty && <span className="absolute top-2 right-2 w-2 h-2 rounded-full bg-banana-500" />}
                           <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z"/><polyline points="17 21 17 13 7 13 7 21"/><polyline points="7 3 7 8 15 8"/></svg>
                       </button>
 
@@ -400,82 +1155,344 @@ const App: React.FC = () => {
                   </div>
               </div>
 
+              {editMode === EditMode.CROP && geometryDraft && (
+                  <div className="pt-4 border-t border-dark-border">
+                      <GeometryPanel
+                          geometry={geometryDraft.geometry}
+                          imageSize={geometryDraft.size}
+                          onChange={(geometry) => setGeometryDraft({ ...geometryDraft, geometry })}
+                          onApply={handleApplyCrop}
+                          onCancel={handleCancelCrop}
+                          disabled={isRenderingStack}
+                      />
+                  </div>
+              )}
+
+              {editMode === EditMode.CREATE && (
+                  <div className="pt-4 border-t border-dark-border">
+                      <CreatePanel
+                          aspectRatio={createAspectRatio}
+                          references={createReferences}
+                          onAspectRatioChange={setCreateAspectRatio}
+                          onAddReferences={handleAddCreateReferences}
+                          onRemoveReference={(index) => setCreateReferences(prev => prev.filter((_, i) => i !== index))}
+                          disabled={isProcessing}
+                      />
+                  </div>
+              )}
+
+              {editMode === EditMode.MAGIC && currentImage && (
+                  <div className="pt-4 border-t border-dark-border">
+                      <MaskPanel
+                          settings={maskSettings}
+                          hasMask={!!magicMask}
+                          onChange={setMaskSettings}
+                          onClear={() => setMagicMask(null)}
+                          disabled={isProcessing}
+                      />
+                  </div>
+              )}
+
+              {editMode === EditMode.COLOR && currentImage && (
+                  <div className="pt-4 border-t border-dark-border">
+                      <AdjustmentPanel
+                          settings={currentSettings}
+                          onChange={(settings, label) => currentImage && recordStep(label, currentImage, settings, true)}
+                          disabled={isProcessing}
+                      />
+                  </div>
+              )}
+
+              {editMode === EditMode.COLOR && currentImage && (
+                  <div className="pt-4 border-t border-dark-border">
+                      <ToneEditor
+                          src={currentImage}
+                          settings={currentSettings}
+                          lut={currentLut}
+                          onChange={(tone, label) => currentImage && recordStep(label, currentImage, { ...currentSettings, tone }, true)}
+                          disabled={isProcessing}
+                      />
+                  </div>
+              )}
+
+              {editMode === EditMode.COLOR && currentImage && (
+                  <div className="pt-4 border-t border-dark-border">
+                      <LutPanel
+                          lut={currentLut}
+                          onLoad={handleLoadLut}
+                          onIntensityChange={handleLutIntensity}
+                          onRemove={handleRemoveLut}
+                          onExportCube={handleExportCube}
+                          disabled={isProcessing}
+                      />
+                  </div>
+              )}
+
+              {editMode === EditMode.COLOR && currentImage && (
+                  <div className="pt-4 border-t border-dark-border">
+                      <PresetPanel
+                          presets={presets}
+                          hasImage={!!currentImage}
+                          previewSrc={presetPreview}
+                          onApply={handleApplyPreset}
+                          onSave={handleSavePreset}
+                          onDelete={handleDeletePreset}
+                          onImport={handleImportPresets}
+                          onExport={handleExportPresets}
+                          disabled={isProcessing}
+                      />
+                  </div>
+              )}
+
+              {currentImage && (
+                  <div className="pt-4 border-t border-dark-border">
+                      <EditStackPanel
+                          stack={currentStack}
+                          onToggle={handleToggleOperation}
+                          onMove={handleMoveOperation}
+                          onRemove={handleRemoveOperation}
+                          onBakeAdjustments={handleBakeAdjustments}
+                          canBake={!isIdentitySettings(currentSettings)}
+                          disabled={isProcessing || isRenderingStack}
+                      />
+                  </div>
+              )}
+
+              {history && history.entries.length > 1 && (
+                  <div className="pt-4 border-t border-dark-border">
+                      <HistoryPanel
+                          history={history}
+                          onJump={(index) => showHistory(jumpTo(history, index))}
+                          onUndo={handleUndo}
+                          onRedo={handleRedo}
+                          disabled={isProcessing}
+                      />
+                  </div>
+              )}
+
               {aiReasoning && (
-                  <div className={`p-3 rounded-lg text-sm border-l-2 flex flex-col gap-2 ${aiReasoning.startsWith('ERROR:') ? 'bg-red-500/20 text-red-200 border-red-500' : 'bg-black/20 text-gray-300 border-banana-500'}`}>
-                      <span>
-                        {aiReasoning.replace('ERROR:', '')}
-                      </span>
-                      {aiReasoning.includes('QUOTA_ERROR') && (
-                         <div className="flex flex-col gap-1 mt-1">
-                             <p className="font-bold">⚠️ Quota Exceeded for Free Tier</p>
-                             <p>You need to enable a Billing Account in Google Cloud.</p>
-                             <a 
-                                href="https://console.cloud.google.com/billing" 
-                                target="_blank" 
-                                className="bg-red-600 hover:bg-red-700 text-white px-3 py-1.5 rounded text-xs font-bold w-fit transition-colors"
-                             >
-                                 → Fix Billing Account
-                             </a>
-                         </div>
-                      )}
-                      {aiReasoning.includes('ACCESS_ERROR') && (
-                         <div className="flex flex-col gap-1 mt-1">
-                             <p className="font-bold">🔒 Domain Blocked</p>
-                             <p>Add this Vercel domain to your API Key restrictions.</p>
-                             <a 
-                                href="https://console.cloud.google.com/apis/credentials" 
-                                target="_blank" 
-                                className="bg-red-600 hover:bg-red-700 text-white px-3 py-1.5 rounded text-xs font-bold w-fit transition-colors"
-                             >
-                                 → Fix API Key Restrictions
-                             </a>
-                         </div>
+                  <div className="p-3 rounded-lg text-sm border-l-2 bg-black/20 text-gray-300 border-banana-500">
+                      {aiReasoning}
+                      {aiPayload && <p className="mt-1 text-xs text-gray-500">{describePayload(aiPayload)}</p>}
+                      {aiCorrections.length > 0 && (
+                          <details className="mt-2 text-xs text-gray-500">
+                              <summary className="cursor-pointer hover:text-gray-300">Adjusted {aiCorrections.length} invalid value{aiCorrections.length > 1 ? 's' : ''} from the AI</summary>
+                              <ul className="list-disc pl-5 mt-1 space-y-0.5">
+                                  {aiCorrections.map((c, i) => <li key={i}>{c}</li>)}
+                              </ul>
+                          </details>
                       )}
                   </div>
               )}
+              {aiError && <AiErrorNotice error={aiError} />}
           </div>
       </div>
     </div>
   );
 
-  const renderCollection = () => (
+  const renderCollectionCard = (item: PhotoItem) => (
+    <div key={item.id} className={`h-full bg-dark-surface rounded-xl overflow-hidden border group relative flex flex-col ${collectionSelection.has(item.id) ? 'border-banana-500 ring-2 ring-banana-500/50' : 'border-dark-border'}`}>
+        <div className="aspect-square relative overflow-hidden bg-black/20">
+             <FilteredImage 
+                src={item.thumbnailUrl || item.originalUrl} 
+                settings={item.settings}
+                lut={item.lut}
+                alt={item.name} 
+                className="w-full h-full object-cover"
+             />
+             <button
+                onClick={() => toggleCollectionSelection(item.id)}
+                className={`absolute top-2 left-2 z-10 w-6 h-6 rounded-full border-2 flex items-center justify-center ${collectionSelection.has(item.id) ? 'bg-banana-500 border-banana-500' : 'bg-black/40 border-white opacity-0 group-hover:opacity-100'}`}
+                title="Select"
+             >
+                 {collectionSelection.has(item.id) && <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><polyline points="20 6 9 17 4 12"/></svg>}
+             </button>
+             <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
+                 <button 
+                    className="p-3 bg-white text-black rounded-full hover:bg-banana-400 font-medium flex items-center gap-2"
+                    onClick={() => handleOpenInEditor(item)}
+                 >
+                    <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 20h9"/><path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"/></svg> Edit
+                 </button>
+                 <button 
+                    className="p-3 bg-black/60 text-white rounded-full hover:bg-white/30 transition-colors"
+                    onClick={() => setOrganizeIds([item.id])}
+                    title="Rename, album & tags"
+                 >
+                    <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M20.59 13.41l-7.17 7.17a2 2 0 0 1-2.83 0L2 12V2h10l8.59 8.59a2 2 0 0 1 0 2.82z"/><line x1="7" y1="7" x2="7.01" y2="7"/></svg>
+                 </button>
+                 <button 
+                    className="p-3 bg-black/60 text-white rounded-full hover:bg-white/30 transition-colors"
+                    onClick={() => setInfoItem(item)}
+                    title="Info"
+                 >
+                    <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"/><line x1="12" y1="16" x2="12" y2="12"/><line x1="12" y1="8" x2="12.01" y2="8"/></svg>
+                 </button>
+                 <button 
+                    className="p-3 bg-black/60 text-white rounded-full hover:bg-red-500 transition-colors"
+                    onClick={() => handleDeleteFromCollection([item.id])}
+                    title="Delete"
+                 >
+                    <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="3 6 5 6 21 6"/><path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6"/><path d="M10 11v6"/><path d="M14 11v6"/><path d="M9 6V4a1 1 0 0 1 1-1h4a1 1 0 0 1 1 1v2"/></svg>
+                 </button>
+             </div>
+        </div>
+        <div className="p-3 space-y-1.5 flex-1 min-h-0 overflow-hidden">
+            <div className="flex items-center justify-between gap-2">
+                <p className="text-white font-medium truncate" title={item.name}>{item.name}</p>
+                <StarRating value={item.rating || 0} onChange={(rating) => handleOrganize([item.id], { rating })} />
+            </div>
+            {item.autoTags?.caption && (
+                <p className="text-xs text-gray-400 italic truncate" title={item.autoTags.tags.join(', ')}>{item.autoTags.caption}</p>
+            )}
+            <p className="text-xs text-gray-500">
+                {new Date(item.timestamp).toLocaleDateString()}
+                {item.album && <> · <button onClick={() => setCollectionQuery({ ...collectionQuery, album: item.album! })} className="hover:text-banana-400">{item.album}</button></>}
+            </p>
+            {item.tags && item.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {item.tags.map(tag => (
+                        <button
+                            key={tag}
+                            onClick={() => setCollectionQuery({ ...collectionQuery, tag })}
+                            className="px-2 py-0.5 rounded-full bg-white/5 text-[11px] text-gray-400 hover:text-banana-400"
+                        >
+                            #{tag}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    </div>
+  );
+
+  // Section header above each group; none when the grid isn't grouped
+  const groupHeaderRenderer = (selection: Set<string>, setSelection: (ids: Set<string>) => void) => {
+    if (collectionQuery.group === CollectionGroup.NONE) return undefined;
+    return (group: CollectionGroupResult) => {
+        const allSelected = group.items.every(item => selection.has(item.id));
+        return (
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-lg font-semibold text-white">{group.label} <span className="text-sm font-normal text-gray-500">({group.items.length})</span></h3>
+                <button
+                    onClick={() => {
+                        const next = new Set(selection);
+                        group.items.forEach(item => allSelected ? next.delete(item.id) : next.add(item.id));
+                        setSelection(next);
+                    }}
+                    className="text-sm text-gray-400 hover:text-white transition-colors"
+                >
+                    {allSelected ? 'Deselect Group' : 'Select Group'}
+                </button>
+            </div>
+        );
+    };
+  };
+
+  const renderCollection = () => {
+    const visibleIds = visibleCollection.map(item => item.id);
+    const allVisibleSelected = visibleIds.length > 0 && visibleIds.every(id => collectionSelection.has(id));
+    return (
     <div className="p-8 w-full max-w-6xl mx-auto">
-        <h2 className="text-3xl font-bold text-white mb-6">My Collection</h2>
-        {collection.length === 0 ? (
+        <div className="flex items-center justify-between mb-6 flex-wrap gap-3">
+            <h2 className="text-3xl font-bold text-white">My Collection</h2>
+            {collection.length > 0 && (
+                <div className="flex items-center gap-3 flex-wrap">
+                    <button
+                        onClick={() => setCollectionSelection(allVisibleSelected ? new Set() : new Set(visibleIds))}
+                        className="text-sm text-gray-400 hover:text-white transition-colors"
+                    >
+                        {allVisibleSelected ? 'Select None' : 'Select All'}
+                    </button>
+                    <button
+                        onClick={() => setOrganizeIds([...collectionSelection])}
+                        disabled={collectionSelection.size === 0}
+                        className="bg-black/30 border border-dark-border text-gray-300 hover:text-white px-3 py-2 rounded-xl text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Organize…
+                    </button>
+                    <button
+                        onClick={() => handleDeleteFromCollection([...collectionSelection])}
+                        disabled={collectionSelection.size === 0}
+                        className="bg-black/30 border border-dark-border text-gray-300 hover:text-white hover:bg-red-500 px-3 py-2 rounded-xl text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-black/30"
+                    >
+                        Delete{collectionSelection.size > 0 ? ` (${collectionSelection.size})` : ''}
+                    </button>
+                    <select
+                        value=""
+                        onChange={(e) => {
+                            const preset = presets.find(p => p.id === e.target.value);
+                            if (preset) handleApplyPresetToSelection(preset);
+                        }}
+                        disabled={collectionSelection.size === 0}
+                        className="bg-black/30 border border-dark-border text-gray-300 px-3 py-2 rounded-xl text-sm focus:outline-none focus:border-banana-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <option value="" disabled>Apply Preset…</option>
+                        {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                    <button
+                        onClick={() => setShowAutoTag(true)}
+                        title={collectionSelection.size > 0 ? 'Auto-tag the selected photos' : 'Auto-tag the whole collection'}
+                        className="bg-black/30 border border-dark-border text-gray-300 hover:text-white px-3 py-2 rounded-xl text-sm transition-colors"
+                    >
+                        Auto-tag{collectionSelection.size > 0 ? ` (${collectionSelection.size})` : ''}
+                    </button>
+                    <button
+                        onClick={() => setShowBatchSpell(true)}
+                        disabled={collectionSelection.size === 0}
+                        className="bg-banana-500 hover:bg-banana-600 text-white px-4 py-2 rounded-xl font-bold flex items-center gap-2 shadow-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m12 3-1.912 5.813a2 2 0 0 1-1.275 1.275L3 12l5.813 1.912a2 2 0 0 1 1.275 1.275L12 21l1.912-5.813a2 2 0 0 1 1.275-1.275L21 12l-5.813-1.912a2 2 0 0 1-1.275-1.275L12 3Z"/></svg>
+                        Cast a Spell ({collectionSelection.size})
+                    </button>
+                </div>
+            )}
+        </div>
+        {collection.length > 0 && (
+            <CollectionToolbar query={collectionQuery} albums={albums} tags={tags} onChange={setCollectionQuery} />
+        )}
+        {showBatchSpell && (
+            <BatchSpellPanel
+                items={collection.filter(item => collectionSelection.has(item.id))}
+                provider={provider}
+                onResult={handleBatchSpellResult}
+                onClose={() => setShowBatchSpell(false)}
+            />
+        )}
+        {showAutoTag && (
+            <AutoTagPanel
+                items={collectionSelection.size > 0 ? collection.filter(item => collectionSelection.has(item.id)) : collection}
+                provider={provider}
+                onResult={handleAutoTagResult}
+                onClose={() => setShowAutoTag(false)}
+            />
+        )}
+        {isCollectionLoading ? (
+            <div className="flex justify-center py-20">
+                <div className="animate-spin rounded-full h-10 w-10 border-t-4 border-b-4 border-banana-500"></div>
+            </div>
+        ) : collection.length === 0 ? (
             <div className="text-center py-20 text-gray-500">
                 <p>No photos saved yet.</p>
                 <button onClick={() => setView(ViewMode.HOME)} className="mt-4 text-banana-500 hover:underline">Start Editing</button>
             </div>
-        ) : (
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                {collection.map(item => (
-                    <div key={item.id} className="bg-dark-surface rounded-xl overflow-hidden border border-dark-border group relative flex flex-col">
-                        <div className="aspect-square relative overflow-hidden bg-black/20">
-                             <img 
-                                src={item.originalUrl} 
-                                alt={item.name} 
-                                className="w-full h-full object-cover"
-                                style={{filter: `brightness(${item.settings.brightness}%) contrast(${item.settings.contrast}%) saturate(${item.settings.saturation}%) sepia(${item.settings.sepia}%) grayscale(${item.settings.grayscale}%) hue-rotate(${item.settings.hueRotate}deg) blur(${item.settings.blur}px)`}}
-                             />
-                             <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
-                                 <button 
-                                    className="p-3 bg-white text-black rounded-full hover:bg-banana-400 font-medium flex items-center gap-2"
-                                    onClick={() => { setCurrentImage(item.originalUrl); setCurrentSettings(item.settings); setView(ViewMode.HOME); }}
-                                 >
-                                    <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 20h9"/><path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"/></svg> Edit
-                                 </button>
-                             </div>
-                        </div>
-                        <div className="p-3">
-                            <p className="text-white font-medium truncate">{item.name}</p>
-                            <p className="text-xs text-gray-500">{new Date(item.timestamp).toLocaleDateString()}</p>
-                        </div>
-                    </div>
-                ))}
+        ) : visibleCollection.length === 0 ? (
+            <div className="text-center py-20 text-gray-500">
+                <p>No photos match these filters.</p>
             </div>
+        ) : (
+            <VirtualPhotoGrid
+                groups={collectionGroups}
+                renderItem={renderCollectionCard}
+                renderHeader={groupHeaderRenderer(collectionSelection, setCollectionSelection)}
+                minColumnWidth={260}
+                gap={24}
+                infoHeight={132}
+            />
         )}
     </div>
-  );
+    );
+  };
 
   const renderImport = () => (
       <div className="flex flex-col items-center justify-center h-full p-8 max-w-4xl mx-auto w-full">
@@ -501,26 +1518,86 @@ const App: React.FC = () => {
         <div className="flex items-center justify-between mb-6">
             <div><h2 className="text-3xl font-bold text-white">Batch Export</h2><p className="text-gray-400">Select photos to download them.</p></div>
             {exportSelection.size > 0 && (
-                <button onClick={handleBatchExport} className="bg-banana-500 hover:bg-banana-600 text-white px-6 py-3 rounded-xl font-bold flex items-center gap-2 shadow-lg transition-colors">
-                    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" y1="15" x2="12" y2="3"/></svg> Download ({exportSelection.size})
-                </button>
+                <div className="flex gap-3">
+                    <button onClick={() => handleDeleteFromCollection([...exportSelection])} className="bg-black/30 hover:bg-red-500 text-gray-300 hover:text-white px-4 py-3 rounded-xl font-bold flex items-center gap-2 border border-dark-border transition-colors" title="Delete selected">
+                        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="3 6 5 6 21 6"/><path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6"/><path d="M10 11v6"/><path d="M14 11v6"/><path d="M9 6V4a1 1 0 0 1 1-1h4a1 1 0 0 1 1 1v2"/></svg>
+                    </button>
+                    <button onClick={handleBatchExport} className="bg-banana-500 hover:bg-banana-600 text-white px-6 py-3 rounded-xl font-bold flex items-center gap-2 shadow-lg transition-colors">
+                        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" y1="15" x2="12" y2="3"/></svg> Download ({exportSelection.size})
+                    </button>
+                </div>
             )}
         </div>
+        {collection.length > 0 && (
+            <CollectionToolbar query={collectionQuery} albums={albums} tags={tags} onChange={setCollectionQuery} />
+        )}
         {collection.length === 0 ? (
             <div className="flex-1 flex items-center justify-center text-gray-500"><p>No photos in collection.</p></div>
+        ) : visibleCollection.length === 0 ? (
+            <div className="flex-1 flex items-center justify-center text-gray-500"><p>No photos match these filters.</p></div>
         ) : (
-            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4">
-                {collection.map(item => {
+            <VirtualPhotoGrid
+                groups={collectionGroups}
+                renderItem={(item) => {
                     const isSelected = exportSelection.has(item.id);
                     return (
-                        <div key={item.id} onClick={() => toggleExportSelection(item.id)} className={`relative aspect-square rounded-lg overflow-hidden cursor-pointer border-2 transition-all ${isSelected ? 'border-banana-500 ring-2 ring-banana-500/50' : 'border-transparent hover:border-gray-600'}`}>
-                             <img src={item.originalUrl} alt={item.name} className="w-full h-full object-cover" style={{filter: `brightness(${item.settings.brightness}%) contrast(${item.settings.contrast}%) saturate(${item.settings.saturation}%) sepia(${item.settings.sepia}%) grayscale(${item.settings.grayscale}%) hue-rotate(${item.settings.hueRotate}deg) blur(${item.settings.blur}px)`}}/>
+                        <div key={item.id} onClick={() => toggleExportSelection(item.id)} title={item.name} className={`relative aspect-square rounded-lg overflow-hidden cursor-pointer border-2 transition-all ${isSelected ? 'border-banana-500 ring-2 ring-banana-500/50' : 'border-transparent hover:border-gray-600'}`}>
+                             <FilteredImage src={item.thumbnailUrl || item.originalUrl} settings={item.settings} lut={item.lut} alt={item.name} className="w-full h-full object-cover" maxEdge={320}/>
                              <div className={`absolute top-2 right-2 w-6 h-6 rounded-full border-2 flex items-center justify-center ${isSelected ? 'bg-banana-500 border-banana-500' : 'bg-black/40 border-white'}`}>
                                  {isSelected && <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><polyline points="20 6 9 17 4 12"/></svg>}
                              </div>
                         </div>
                     );
-                })}
+                }}
+                renderHeader={groupHeaderRenderer(exportSelection, setExportSelection)}
+                minColumnWidth={150}
+                gap={16}
+            />
+        )}
+    </div>
+  );
+
+  const renderSettings = () => (
+    <div className="p-8 w-full max-w-3xl mx-auto">
+        <h2 className="text-3xl font-bold text-white mb-2">Settings</h2>
+        <p className="text-gray-400 mb-8">Choose which AI backend powers Cast a Spell and Magic Edit.</p>
+        <div className="space-y-3">
+            {providers.map(p => {
+                const available = p.isAvailable();
+                const isSelected = p.id === providerId;
+                return (
+                    <button
+                        key={p.id}
+                        onClick={() => handleProviderChange(p.id)}
+                        disabled={!available}
+                        className={`w-full text-left p-4 rounded-xl border transition-colors flex items-start gap-4 disabled:opacity-50 disabled:cursor-not-allowed ${isSelected ? 'border-banana-500 bg-banana-500/10' : 'border-dark-border bg-dark-surface hover:border-gray-600'}`}
+                    >
+                        <div className={`mt-1 w-4 h-4 rounded-full border-2 shrink-0 ${isSelected ? 'border-banana-500 bg-banana-500' : 'border-gray-500'}`}></div>
+                        <div>
+                            <p className="text-white font-semibold">{p.name}</p>
+                            <p className="text-sm text-gray-400">{p.description}</p>
+                        </div>
+                    </button>
+                );
+            })}
+        </div>
+
+        {!hasGeminiApiKey() && (
+            <div className="mt-8 bg-red-500/10 border border-red-500/50 rounded-2xl p-6">
+                <h3 className="text-lg font-bold text-red-400 mb-2">Gemini API Key Missing</h3>
+                <p className="text-gray-300 text-sm mb-4">
+                    The <code className="bg-black/30 px-2 py-1 rounded text-white">API_KEY</code> environment variable is not set, so only the offline provider is available.
+                </p>
+                <ul className="text-left text-sm text-gray-400 space-y-2 list-disc pl-5 mb-6">
+                    <li>Go to your <strong>Vercel Project Settings</strong>.</li>
+                    <li>Click <strong>Environment Variables</strong>.</li>
+                    <li>Add Key: <code className="text-white">API_KEY</code></li>
+                    <li>Add Value: Your <code className="text-white">AIza...</code> key.</li>
+                    <li>Redeploy the project.</li>
+                </ul>
+                <a href="https://vercel.com/dashboard" target="_blank" rel="noreferrer" className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-xl text-sm font-bold transition-colors">
+                    Go to Vercel Dashboard
+                </a>
             </div>
         )}
     </div>
@@ -534,7 +1611,32 @@ const App: React.FC = () => {
         {view === ViewMode.COLLECTION && renderCollection()}
         {view === ViewMode.IMPORT && renderImport()}
         {view === ViewMode.EXPORT && renderExport()}
+        {view === ViewMode.SETTINGS && renderSettings()}
       </main>
+
+      {organizeIds && organizeIds.some(id => collection.some(item => item.id === id)) && (
+          <OrganizeDialog
+              items={collection.filter(item => organizeIds.includes(item.id))}
+              albums={albums}
+              tags={tags}
+              onSave={(edit) => handleOrganize(organizeIds, edit)}
+              onClose={() => setOrganizeIds(null)}
+          />
+      )}
+      {infoItem && (
+          <PhotoInfoDialog
+              item={infoItem}
+              onSave={(metadata) => updateCollectionItem(infoItem.id, item => ({ ...item, metadata }))}
+              onClose={() => setInfoItem(null)}
+          />
+      )}
+      {exportItems && (
+          <ExportDialog
+              items={exportItems}
+              onClose={() => setExportItems(null)}
+              onExported={() => view === ViewMode.EXPORT && setExportSelection(new Set())}
+          />
+      )}
     </div>
   );
 };
@@ -0,0 +1,86 @@
+import React from 'react';
+import { FilterSettings, SliderKey } from '../types';
+import { defaultSettings, filterRanges } from '../constants';
+
+interface AdjustmentPanelProps {
+  settings: FilterSettings;
+  onChange: (settings: FilterSettings, label: string) => void; // label describes the change for history
+  disabled?: boolean;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ settings, onChange, disabled }) => {
+  const fields = Object.keys(filterRanges) as SliderKey[];
+
+  const setField = (key: SliderKey, value: number) => {
+    if (Number.isNaN(value)) return;
+    const range = filterRanges[key];
+    onChange({ ...settings, [key]: clamp(value, range.min, range.max) }, `Adjust ${range.label}`);
+  };
+
+  const resetField = (key: SliderKey) => {
+    onChange({ ...settings, [key]: defaultSettings[key] }, `Reset ${filterRanges[key].label}`);
+  };
+
+  const isDirty = fields.some(key => settings[key] !== defaultSettings[key]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-300">Adjustments</h4>
+        <button
+          onClick={() => onChange(defaultSettings, 'Reset Adjustments')}
+          disabled={disabled || !isDirty}
+          className="text-xs text-gray-400 hover:text-banana-400 disabled:opacity-40 disabled:hover:text-gray-400 transition-colors"
+        >
+          Reset All
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+        {fields.map(key => {
+          const range = filterRanges[key];
+          const value = settings[key];
+          const changed = value !== defaultSettings[key];
+          return (
+            <div key={key} className="flex items-center gap-3" title="Double-click to reset">
+              <label
+                className={`w-20 shrink-0 text-xs cursor-pointer select-none ${changed ? 'text-banana-400' : 'text-gray-400'}`}
+                onDoubleClick={() => !disabled && resetField(key)}
+              >
+                {range.label}
+              </label>
+              <input
+                type="range"
+                min={range.min}
+                max={range.max}
+                step={range.step}
+                value={value}
+                disabled={disabled}
+                onChange={(e) => setField(key, parseFloat(e.target.value))}
+                onDoubleClick={() => !disabled && resetField(key)}
+                className="flex-1 accent-banana-500 disabled:opacity-50"
+              />
+              <div className="flex items-center w-20 shrink-0 bg-black/30 border border-dark-border rounded-md focus-within:border-banana-500">
+                <input
+                  type="number"
+                  min={range.min}
+                  max={range.max}
+                  step={range.step}
+                  value={value}
+                  disabled={disabled}
+                  onChange={(e) => setField(key, parseFloat(e.target.value))}
+                  className="w-full bg-transparent px-2 py-1 text-xs text-white text-right focus:outline-none disabled:opacity-50"
+                />
+                <span className="pr-2 text-xs text-gray-500">{range.unit}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AdjustmentPanel;
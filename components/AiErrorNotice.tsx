@@ -0,0 +1,62 @@
+import React from 'react';
+import { AiAuthError, AiBadResponseError, AiNetworkError, AiOverloadedError, AiQuotaError, AiSafetyError } from '../services/aiErrors';
+
+interface AiErrorNoticeProps {
+  error: Error;
+}
+
+const FixLink: React.FC<{ href: string; children: React.ReactNode }> = ({ href, children }) => (
+  <a
+    href={href}
+    target="_blank"
+    rel="noreferrer"
+    className="bg-red-600 hover:bg-red-700 text-white px-3 py-1.5 rounded text-xs font-bold w-fit transition-colors"
+  >
+    {children}
+  </a>
+);
+
+// Error box under the Magic Controls, chosen by error type
+const AiErrorNotice: React.FC<AiErrorNoticeProps> = ({ error }) => {
+  let title = '❌ Something went wrong';
+  let body: React.ReactNode = error.message || 'An unknown error occurred.';
+
+  if (error instanceof AiQuotaError) {
+    title = '⚠️ Quota Exceeded for Free Tier';
+    body = (
+      <>
+        <p>You need to enable a Billing Account in Google Cloud, or switch to the offline provider in Settings.</p>
+        <FixLink href="https://console.cloud.google.com/billing">→ Fix Billing Account</FixLink>
+      </>
+    );
+  } else if (error instanceof AiAuthError) {
+    title = '🔒 Access Denied';
+    body = (
+      <>
+        <p>{error.message} If the key is restricted, add this domain to its allowed referrers.</p>
+        <FixLink href="https://console.cloud.google.com/apis/credentials">→ Fix API Key Restrictions</FixLink>
+      </>
+    );
+  } else if (error instanceof AiOverloadedError) {
+    title = '🤖 System Overloaded';
+    body = 'The AI service is temporarily busy. Please try again in a moment.';
+  } else if (error instanceof AiSafetyError) {
+    title = '🛡️ Blocked by Safety Filters';
+    body = 'The model refused this request. Try rephrasing the prompt or using a different image.';
+  } else if (error instanceof AiBadResponseError) {
+    title = '🤔 Unexpected Response';
+    body = `${error.message} Please try again.`;
+  } else if (error instanceof AiNetworkError) {
+    title = '📡 Network Error';
+    body = error.message;
+  }
+
+  return (
+    <div className="p-3 rounded-lg text-sm border-l-2 flex flex-col gap-2 bg-red-500/20 text-red-200 border-red-500">
+      <p className="font-bold">{title}</p>
+      {typeof body === 'string' ? <p>{body}</p> : body}
+    </div>
+  );
+};
+
+export default AiErrorNotice;
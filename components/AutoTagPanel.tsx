@@ -0,0 +1,78 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EditingProvider, PhotoItem, QueueSnapshot, TaggingResult } from '../types';
+import { createJobQueue, JobQueue } from '../services/jobQueue';
+import { urlToDataUrl } from '../services/geminiService';
+import { AiQuotaError } from '../services/aiErrors';
+import JobProgress from './JobProgress';
+
+interface AutoTagPanelProps {
+  items: PhotoItem[];
+  provider: EditingProvider;
+  onResult: (itemId: string, result: TaggingResult) => void;
+  onClose: () => void;
+}
+
+const CONCURRENCY = 2;
+const MIN_INTERVAL_MS = 500; // Spread requests out a little to stay under per-minute limits
+
+// Indexes collection items for search: caption, tags and scene per photo
+const AutoTagPanel: React.FC<AutoTagPanelProps> = ({ items, provider, onResult, onClose }) => {
+  const [skipIndexed, setSkipIndexed] = useState(true);
+  const [snapshot, setSnapshot] = useState<QueueSnapshot | null>(null);
+  const queueRef = useRef<JobQueue | null>(null);
+
+  // Keep the latest values for the queue's callbacks without recreating it
+  const latest = useRef({ items, provider, onResult });
+  latest.current = { items, provider, onResult };
+
+  useEffect(() => () => queueRef.current?.cancel(), []);
+
+  const targets = skipIndexed ? items.filter(item => !item.autoTags) : items;
+
+  const handleStart = () => {
+    queueRef.current?.cancel();
+    const queue = createJobQueue<TaggingResult>({
+      concurrency: CONCURRENCY,
+      minIntervalMs: MIN_INTERVAL_MS,
+      isRateLimited: (error) => error instanceof AiQuotaError,
+      run: async (id, signal) => {
+        const { items, provider } = latest.current;
+        const item = items.find(i => i.id === id);
+        if (!item) throw new Error('Photo no longer in collection');
+        // The stored thumbnail is plenty for the AI and cheap to read on the main thread
+        const dataUrl = await urlToDataUrl(item.thumbnailUrl || item.originalUrl);
+        const mimeType = dataUrl.split(';')[0].split(':')[1];
+        return provider.tagImage(dataUrl.split(',')[1], mimeType, { signal });
+      },
+      onResult: (id, result) => latest.current.onResult(id, result),
+      onChange: setSnapshot,
+    });
+    queueRef.current = queue;
+    queue.add(targets.map(item => ({ id: item.id, label: item.name })));
+  };
+
+  const isRunning = !!snapshot && !snapshot.isIdle;
+
+  return (
+    <div className="bg-dark-surface p-6 rounded-2xl border border-dark-border space-y-4 shadow-lg mb-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-semibold text-white">Auto-tag for Search ({targets.length})</h3>
+        <button onClick={onClose} disabled={isRunning} className="text-gray-400 hover:text-white disabled:opacity-40" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-400">
+        {provider.name} describes each photo with a caption, tags and a scene type, so you can search the collection in plain language.
+      </p>
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input type="checkbox" checked={skipIndexed} disabled={isRunning} onChange={(e) => setSkipIndexed(e.target.checked)} className="accent-banana-500" />
+        Skip photos that are already tagged ({items.length - items.filter(item => !item.autoTags).length})
+      </label>
+
+      <JobProgress snapshot={snapshot} queue={queueRef.current} onStart={handleStart} startDisabled={targets.length === 0} />
+    </div>
+  );
+};
+
+export default AutoTagPanel;
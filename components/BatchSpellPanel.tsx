@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisResult, EditingProvider, PhotoItem, QueueSnapshot } from '../types';
+import { createJobQueue, JobQueue } from '../services/jobQueue';
+import { fileToGenerativePart, urlToDataUrl } from '../services/geminiService';
+import { AiQuotaError } from '../services/aiErrors';
+import JobProgress from './JobProgress';
+
+interface BatchSpellPanelProps {
+  items: PhotoItem[];
+  provider: EditingProvider;
+  onResult: (itemId: string, result: AnalysisResult, prompt: string) => void;
+  onClose: () => void;
+}
+
+const CONCURRENCY = 2;
+const MIN_INTERVAL_MS = 500; // Spread requests out a little to stay under per-minute limits
+
+// Runs Cast a Spell on many collection items through a job queue
+const BatchSpellPanel: React.FC<BatchSpellPanelProps> = ({ items, provider, onResult, onClose }) => {
+  const [prompt, setPrompt] = useState('');
+  const [refImage, setRefImage] = useState<string | null>(null);
+  const [snapshot, setSnapshot] = useState<QueueSnapshot | null>(null);
+  const queueRef = useRef<JobQueue | null>(null);
+
+  // Keep the latest values for the queue's callbacks without recreating it
+  const latest = useRef({ items, provider, onResult, prompt, refImage });
+  latest.current = { items, provider, onResult, prompt, refImage };
+
+  useEffect(() => () => queueRef.current?.cancel(), []);
+
+  const handleStart = () => {
+    queueRef.current?.cancel();
+    const queue = createJobQueue<AnalysisResult>({
+      concurrency: CONCURRENCY,
+      minIntervalMs: MIN_INTERVAL_MS,
+      isRateLimited: (error) => error instanceof AiQuotaError,
+      run: async (id, signal) => {
+        const { items, provider, prompt, refImage } = latest.current;
+        const item = items.find(i => i.id === id);
+        if (!item) throw new Error('Photo no longer in collection');
+        // The stored thumbnail is plenty for the AI and cheap to read on the main thread
+        const dataUrl = await urlToDataUrl(item.thumbnailUrl || item.originalUrl);
+        // No silent local fallback here: the queue backs off and retries instead
+        return provider.analyze(dataUrl.split(',')[1], prompt, refImage?.split(',')[1], { signal, allowLocalFallback: false });
+      },
+      onResult: (id, result) => latest.current.onResult(id, result, latest.current.prompt),
+      onChange: setSnapshot,
+    });
+    queueRef.current = queue;
+    queue.add(items.map(item => ({ id: item.id, label: item.name })));
+  };
+
+  const handleRefImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      const base64 = await fileToGenerativePart(e.target.files[0]);
+      setRefImage(`data:${e.target.files[0].type};base64,${base64}`);
+    }
+  };
+
+  const isRunning = !!snapshot && !snapshot.isIdle;
+
+  return (
+    <div className="bg-dark-surface p-6 rounded-2xl border border-dark-border space-y-4 shadow-lg mb-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-semibold text-white">Batch Cast a Spell ({items.length})</h3>
+        <button onClick={onClose} disabled={isRunning} className="text-gray-400 hover:text-white disabled:opacity-40" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+        </button>
+      </div>
+
+      <div className="flex gap-3">
+        <div className="flex-1 relative">
+          <input
+            type="text"
+            placeholder="Optional shared style (e.g. 'Warm vintage film')"
+            className="w-full bg-black/30 border border-dark-border rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-banana-500 transition-colors text-white pr-10"
+            value={prompt}
+            disabled={isRunning}
+            onChange={(e) => setPrompt(e.target.value)}
+          />
+          <label className="absolute right-2 top-2 p-1 bg-dark-surface hover:bg-white/10 rounded cursor-pointer text-gray-400 hover:text-white" title="Add Reference Image">
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="18" height="18" rx="2" ry="2"/><circle cx="8.5" cy="8.5" r="1.5"/><polyline points="21 15 16 10 5 21"/></svg>
+            <input type="file" accept="image/*" className="hidden" onChange={handleRefImageSelect} disabled={isRunning} />
+          </label>
+        </div>
+        {refImage && (
+          <div className="h-11 w-11 relative shrink-0">
+            <img src={refImage} className="h-full w-full rounded-lg object-cover border border-banana-500" alt="ref" />
+            <button onClick={() => setRefImage(null)} disabled={isRunning} className="absolute -top-1 -right-1 bg-red-500 text-white rounded-full p-0.5">
+              <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+            </button>
+          </div>
+        )}
+      </div>
+
+      <JobProgress snapshot={snapshot} queue={queueRef.current} onStart={handleStart} startDisabled={items.length === 0} />
+    </div>
+  );
+};
+
+export default BatchSpellPanel;
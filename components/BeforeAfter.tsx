@@ -1,20 +1,66 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { FilterSettings } from '../types';
+import { FilterSettings, LutStage } from '../types';
+import { loadImage, renderFiltered } from '../services/filterService';
+
+// Long edge of the on-screen preview. The export renders at full size
+// through the same pipeline.
+const PREVIEW_MAX_EDGE = 1600;
 
 interface BeforeAfterProps {
   originalUrl: string;
   settings: FilterSettings;
+  lut?: LutStage | null;
   isCompareActive: boolean;
+  overlay?: React.ReactNode; // Drawn over the edited image, e.g. the Magic Edit mask
+  beforeUrl?: string; // Compare against this image (with the same settings) instead of the unedited original
+  beforeLabel?: string;
+  afterLabel?: string;
 }
 
-const BeforeAfter: React.FC<BeforeAfterProps> = ({ originalUrl, settings, isCompareActive }) => {
+const BeforeAfter: React.FC<BeforeAfterProps> = ({ originalUrl, settings, lut, isCompareActive, overlay, beforeUrl, beforeLabel = 'Before', afterLabel = 'After' }) => {
   const [sliderPosition, setSliderPosition] = useState(50);
   const [isResizing, setIsResizing] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [sourceImage, setSourceImage] = useState<HTMLImageElement | null>(null);
+  const beforeCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [beforeImage, setBeforeImage] = useState<HTMLImageElement | null>(null);
 
-  const getFilterString = (s: FilterSettings) => {
-    return `brightness(${s.brightness}%) contrast(${s.contrast}%) saturate(${s.saturation}%) sepia(${s.sepia}%) grayscale(${s.grayscale}%) hue-rotate(${s.hueRotate}deg) blur(${s.blur}px)`;
-  };
+  useEffect(() => {
+    let cancelled = false;
+    setSourceImage(null);
+    loadImage(originalUrl)
+      .then(img => { if (!cancelled) setSourceImage(img); })
+      .catch(err => console.error("Preview failed to load", err));
+    return () => { cancelled = true; };
+  }, [originalUrl]);
+
+  useEffect(() => {
+    if (!beforeUrl) return;
+    let cancelled = false;
+    setBeforeImage(null);
+    loadImage(beforeUrl)
+      .then(img => { if (!cancelled) setBeforeImage(img); })
+      .catch(err => console.error("Comparison image failed to load", err));
+    return () => { cancelled = true; };
+  }, [beforeUrl]);
+
+  useEffect(() => {
+    if (!beforeUrl || !isCompareActive || !beforeImage || !beforeCanvasRef.current) return;
+    const frame = requestAnimationFrame(() => {
+      if (beforeCanvasRef.current) renderFiltered(beforeCanvasRef.current, beforeImage, settings, PREVIEW_MAX_EDGE, lut);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [beforeUrl, isCompareActive, beforeImage, settings, lut]);
+
+  // Re-render the filtered preview, coalescing rapid slider changes into one frame
+  useEffect(() => {
+    if (!sourceImage || !canvasRef.current) return;
+    const frame = requestAnimationFrame(() => {
+      if (canvasRef.current) renderFiltered(canvasRef.current, sourceImage, settings, PREVIEW_MAX_EDGE, lut);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [sourceImage, settings, lut]);
 
   const handleMouseDown = () => {
       if (isCompareActive) setIsResizing(true);
@@ -59,47 +105,54 @@ const BeforeAfter: React.FC<BeforeAfterProps> = ({ originalUrl, settings, isComp
     >
       {/* 
          LAYER 1: Edited Image (Layout Driver) 
-         This image is static (not absolute) so it defines the width/height of the container.
+         This canvas is static (not absolute) so it defines the width/height of the container.
          It ensures the slider overlay matches the image dimensions exactly.
       */}
-      <img
-        src={originalUrl}
-        alt="Edited"
-        className="block max-w-full max-h-full w-auto h-auto object-contain transition-all duration-500"
-        style={{ 
-            filter: getFilterString(settings) 
-        }}
-        draggable={false}
+      <canvas
+        ref={canvasRef}
+        aria-label="Edited"
+        className="block max-w-full max-h-full w-auto h-auto object-contain"
       />
+
+      {!isCompareActive && overlay}
       
       {/* Compare Mode UI Elements - Absolute Overlay */}
       {isCompareActive && (
         <div className="absolute inset-0">
             {/* Label After */}
             <div className="absolute top-4 right-4 bg-black/50 text-white text-xs px-2 py-1 rounded pointer-events-none z-10 font-medium backdrop-blur-sm">
-                After
+                {afterLabel}
             </div>
 
             {/* 
                 LAYER 2: Original Image (Overlay) 
                 Matches the layout driver exactly because parent is shrink-wrapped.
             */}
-            <img
-                src={originalUrl}
-                alt="Original"
-                className="absolute inset-0 w-full h-full object-contain pointer-events-none"
-                style={{ 
-                    clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` 
-                }}
-                draggable={false}
-            />
+            {beforeUrl ? (
+                <canvas
+                    ref={beforeCanvasRef}
+                    aria-label={beforeLabel}
+                    className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+                    style={{ clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` }}
+                />
+            ) : (
+                <img
+                    src={originalUrl}
+                    alt="Original"
+                    className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+                    style={{ 
+                        clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` 
+                    }}
+                    draggable={false}
+                />
+            )}
 
             {/* Label Before */}
             <div 
                 className="absolute top-4 left-4 bg-black/50 text-white text-xs px-2 py-1 rounded pointer-events-none z-10 font-medium backdrop-blur-sm"
                 style={{ opacity: sliderPosition > 10 ? 1 : 0 }}
             >
-                Before
+                {beforeLabel}
             </div>
 
             {/* Slider Handle & Line */}
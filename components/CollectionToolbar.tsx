@@ -0,0 +1,84 @@
+import React from 'react';
+import { CollectionGroup, CollectionQuery, CollectionSort } from '../types';
+import { MAX_RATING, defaultCollectionQuery, isDefaultQuery } from '../services/collectionService';
+
+interface CollectionToolbarProps {
+  query: CollectionQuery;
+  albums: string[];
+  tags: string[];
+  onChange: (query: CollectionQuery) => void;
+}
+
+const sortLabels: Record<CollectionSort, string> = {
+  [CollectionSort.NEWEST]: 'Newest first',
+  [CollectionSort.OLDEST]: 'Oldest first',
+  [CollectionSort.NAME]: 'Name',
+  [CollectionSort.RATING]: 'Rating',
+};
+
+const groupLabels: Record<CollectionGroup, string> = {
+  [CollectionGroup.NONE]: 'No grouping',
+  [CollectionGroup.ALBUM]: 'Group by album',
+  [CollectionGroup.TAG]: 'Group by tag',
+  [CollectionGroup.MONTH]: 'Group by month',
+  [CollectionGroup.RATING]: 'Group by rating',
+  [CollectionGroup.SCENE]: 'Group by scene',
+};
+
+const selectClass = 'bg-black/30 border border-dark-border text-gray-300 px-3 py-2 rounded-xl text-sm focus:outline-none focus:border-banana-500';
+
+// Search, filter, sort and group controls shared by the collection and export grids
+const CollectionToolbar: React.FC<CollectionToolbarProps> = ({ query, albums, tags, onChange }) => {
+  const update = (patch: Partial<CollectionQuery>) => onChange({ ...query, ...patch });
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap mb-6">
+      <div className="relative flex-1 min-w-[12rem]">
+        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500"><circle cx="11" cy="11" r="8"/><line x1="21" y1="21" x2="16.65" y2="16.65"/></svg>
+        <input
+          type="text"
+          value={query.search}
+          onChange={(e) => update({ search: e.target.value })}
+          placeholder="Search in plain language, e.g. 'beach at sunset with people'"
+          className="w-full bg-black/30 border border-dark-border rounded-xl pl-9 pr-3 py-2 text-sm text-white focus:outline-none focus:border-banana-500 transition-colors"
+        />
+      </div>
+
+      <select value={query.album ?? ''} onChange={(e) => update({ album: e.target.value || null })} className={selectClass}>
+        <option value="">All albums</option>
+        {albums.map(album => <option key={album} value={album}>{album}</option>)}
+      </select>
+
+      <select value={query.tag ?? ''} onChange={(e) => update({ tag: e.target.value || null })} className={selectClass}>
+        <option value="">All tags</option>
+        {tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+      </select>
+
+      <select value={query.minRating} onChange={(e) => update({ minRating: Number(e.target.value) })} className={selectClass}>
+        <option value={0}>Any rating</option>
+        {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map(stars => (
+          <option key={stars} value={stars}>{'★'.repeat(stars)}{stars < MAX_RATING ? ' & up' : ''}</option>
+        ))}
+      </select>
+
+      <select value={query.sort} onChange={(e) => update({ sort: e.target.value as CollectionSort })} className={selectClass}>
+        {Object.values(CollectionSort).map(sort => <option key={sort} value={sort}>{sortLabels[sort]}</option>)}
+      </select>
+
+      <select value={query.group} onChange={(e) => update({ group: e.target.value as CollectionGroup })} className={selectClass}>
+        {Object.values(CollectionGroup).map(group => <option key={group} value={group}>{groupLabels[group]}</option>)}
+      </select>
+
+      {!isDefaultQuery(query) && (
+        <button
+          onClick={() => onChange({ ...defaultCollectionQuery, sort: query.sort, group: query.group })}
+          className="text-sm text-gray-400 hover:text-banana-400 transition-colors"
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CollectionToolbar;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { AspectRatio } from '../types';
+
+const MAX_REFERENCE_IMAGES = 3;
+
+interface CreatePanelProps {
+  aspectRatio: AspectRatio;
+  references: string[]; // Data URLs
+  onAspectRatioChange: (aspectRatio: AspectRatio) => void;
+  onAddReferences: (files: File[]) => void;
+  onRemoveReference: (index: number) => void;
+  disabled?: boolean;
+}
+
+const aspectRatios: AspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+// Options for generating a new image from the prompt
+const CreatePanel: React.FC<CreatePanelProps> = ({ aspectRatio, references, onAspectRatioChange, onAddReferences, onRemoveReference, disabled }) => {
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-semibold text-gray-300">New Image</h4>
+      <p className="text-xs text-gray-500">
+        Describe the image above and press Create. It replaces the current image and opens in the editor, ready for Color and Magic edits.
+      </p>
+
+      <div className="flex bg-black/30 p-1 rounded-lg">
+        {aspectRatios.map(ratio => (
+          <button
+            key={ratio}
+            onClick={() => onAspectRatioChange(ratio)}
+            disabled={disabled}
+            className={`flex-1 py-1 rounded-md text-xs font-medium transition-colors disabled:opacity-50 ${aspectRatio === ratio ? 'bg-banana-500 text-white shadow' : 'text-gray-400 hover:text-white'}`}
+          >
+            {ratio}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        {references.map((url, i) => (
+          <div key={i} className="h-12 w-12 relative shrink-0">
+            <img src={url} className="h-full w-full rounded-lg object-cover border border-banana-500" alt={`Reference ${i + 1}`} />
+            <button
+              onClick={() => onRemoveReference(i)}
+              disabled={disabled}
+              title="Remove reference"
+              className="absolute -top-1 -right-1 bg-red-500 text-white rounded-full p-0.5 disabled:opacity-50"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+            </button>
+          </div>
+        ))}
+        {references.length < MAX_REFERENCE_IMAGES && (
+          <label className={`h-12 px-3 flex items-center gap-1 rounded-lg border border-dashed border-dark-border text-xs text-gray-400 ${disabled ? 'opacity-50' : 'cursor-pointer hover:text-white hover:border-banana-500'}`}>
+            <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="12" y1="5" x2="12" y2="19"/><line x1="5" y1="12" x2="19" y2="12"/></svg>
+            Reference
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              disabled={disabled}
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files?.length) onAddReferences(Array.from(e.target.files).slice(0, MAX_REFERENCE_IMAGES - references.length));
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">Up to {MAX_REFERENCE_IMAGES} optional reference images for subject, style or colour.</p>
+    </div>
+  );
+};
+
+export default CreatePanel;
@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CropRect, Geometry } from '../types';
+import { loadImage } from '../services/filterService';
+import { FULL_CROP, MIN_CROP, clampCrop, renderGeometry, toFrameRatio } from '../services/geometryService';
+
+const PREVIEW_MAX_EDGE = 1600;
+
+interface CropEditorProps {
+  src: string;       // Image the geometry applies to
+  geometry: Geometry;
+  onChange: (geometry: Geometry) => void;
+  disabled?: boolean;
+}
+
+type Handle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface Drag {
+  handle: Handle;
+  start: { x: number; y: number };
+  crop: CropRect;
+}
+
+// Shows the whole rotated/straightened frame with a draggable crop rectangle
+const CropEditor: React.FC<CropEditorProps> = ({ src, geometry, onChange, disabled }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSource(null);
+    loadImage(src)
+      .then(img => { if (!cancelled) setSource(img); })
+      .catch(err => console.error("Crop preview failed to load", err));
+    return () => { cancelled = true; };
+  }, [src]);
+
+  const { flipH, flipV, rotation, straighten } = geometry;
+  useEffect(() => {
+    if (!source || !canvasRef.current) return;
+    const frame = requestAnimationFrame(() => {
+      if (canvasRef.current) renderGeometry(canvasRef.current, source, geometry, PREVIEW_MAX_EDGE, FULL_CROP);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [source, flipH, flipV, rotation, straighten]);
+
+  const toFramePoint = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (handle: Handle) => (e: React.PointerEvent) => {
+    if (disabled) return;
+    e.stopPropagation();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    setDrag({ handle, start: toFramePoint(e), crop: geometry.crop });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag || !canvasRef.current) return;
+    const p = toFramePoint(e);
+    const { crop } = drag;
+
+    if (drag.handle === 'move') {
+      onChange({ ...geometry, crop: clampCrop({ ...crop, x: crop.x + p.x - drag.start.x, y: crop.y + p.y - drag.start.y }) });
+      return;
+    }
+
+    // Resize from a corner; the opposite corner stays put
+    const anchorX = drag.handle.endsWith('w') ? crop.x + crop.width : crop.x;
+    const anchorY = drag.handle.startsWith('n') ? crop.y + crop.height : crop.y;
+    let width = Math.max(MIN_CROP, Math.abs(p.x - anchorX));
+    let height = Math.max(MIN_CROP, Math.abs(p.y - anchorY));
+    if (geometry.aspect !== null) {
+      const ratio = toFrameRatio(geometry.aspect, canvasRef.current.width, canvasRef.current.height);
+      if (width / height > ratio) width = height * ratio;
+      else height = width / ratio;
+    }
+    const x = p.x < anchorX ? anchorX - width : anchorX;
+    const y = p.y < anchorY ? anchorY - height : anchorY;
+    // Reject sizes that would poke out of the frame rather than distort the ratio
+    if (x < -1e-6 || y < -1e-6 || x + width > 1 + 1e-6 || y + height > 1 + 1e-6) return;
+    onChange({ ...geometry, crop: clampCrop({ x, y, width, height }) });
+  };
+
+  const { x, y, width, height } = geometry.crop;
+  const corners: Handle[] = ['nw', 'ne', 'sw', 'se'];
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative inline-block max-w-full max-h-full select-none touch-none overflow-hidden"
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => setDrag(null)}
+      onPointerCancel={() => setDrag(null)}
+    >
+      <canvas ref={canvasRef} aria-label="Crop preview" className="block max-w-full max-h-full w-auto h-auto object-contain" />
+
+      <div
+        className={`absolute border border-white/80 shadow-[0_0_0_9999px_rgba(0,0,0,0.6)] ${disabled ? '' : 'cursor-move'}`}
+        style={{ left: `${x * 100}%`, top: `${y * 100}%`, width: `${width * 100}%`, height: `${height * 100}%` }}
+        onPointerDown={handlePointerDown('move')}
+      >
+        {/* Rule of thirds */}
+        <div className="absolute inset-0 pointer-events-none">
+          <div className="absolute inset-y-0 left-1/3 border-l border-white/30" />
+          <div className="absolute inset-y-0 left-2/3 border-l border-white/30" />
+          <div className="absolute inset-x-0 top-1/3 border-t border-white/30" />
+          <div className="absolute inset-x-0 top-2/3 border-t border-white/30" />
+        </div>
+        {corners.map(corner => (
+          <div
+            key={corner}
+            onPointerDown={handlePointerDown(corner)}
+            className={`absolute w-4 h-4 bg-banana-500 rounded-sm shadow ${corner[0] === 'n' ? '-top-2' : '-bottom-2'} ${corner[1] === 'w' ? '-left-2' : '-right-2'} ${corner === 'nw' || corner === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CropEditor;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { EditOperation, EditStack, OperationType } from '../types';
+import { canMoveOperation, isOperationLocked } from '../services/stackService';
+
+interface EditStackPanelProps {
+  stack: EditStack | null;
+  onToggle: (id: string) => void;
+  onMove: (id: string, offset: number) => void;
+  onRemove: (id: string) => void;
+  onBakeAdjustments: () => void;
+  canBake: boolean; // False when the sliders are all at their defaults
+  disabled?: boolean;
+}
+
+const typeLabels: Record<OperationType, string> = {
+  [OperationType.GENERATIVE]: 'AI',
+  [OperationType.ADJUST]: 'Color',
+  [OperationType.GEOMETRY]: 'Crop',
+};
+
+const describe = (op: EditOperation) =>
+  op.type === OperationType.GENERATIVE
+    ? `${op.prompt ? `"${op.prompt}"` : 'No prompt'} · ${op.model}${op.mask ? ' · masked' : ''}`
+    : op.label;
+
+const lockedHint = 'A Magic Edit above was made from this step. Remove the Magic Edit to change it.';
+
+// Non-destructive pixel edits on top of the original, in the order they render
+const EditStackPanel: React.FC<EditStackPanelProps> = ({ stack, onToggle, onMove, onRemove, onBakeAdjustments, canBake, disabled }) => {
+  const operations = stack?.operations || [];
+  const isLocked = (op: EditOperation) => !!stack && isOperationLocked(stack, op.id);
+  const canMove = (op: EditOperation, offset: number) => !!stack && canMoveOperation(stack, op.id, offset);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-300">Edit Stack</h4>
+        <button
+          onClick={onBakeAdjustments}
+          disabled={disabled || !canBake}
+          title="Add the current adjustments as a step, so later edits build on them"
+          className="text-xs text-gray-400 hover:text-banana-400 disabled:opacity-40 disabled:hover:text-gray-400 transition-colors"
+        >
+          Add Adjustments as Step
+        </button>
+      </div>
+
+      <ol className="max-h-56 overflow-y-auto space-y-1 text-xs">
+        <li className="px-3 py-1.5 rounded-md text-gray-500 border border-transparent">Original</li>
+        {operations.map(op => (
+          <li
+            key={op.id}
+            className={`flex items-center gap-2 px-2 py-1.5 rounded-md border border-dark-border bg-black/20 ${op.enabled ? '' : 'opacity-50'}`}
+          >
+            <input
+              type="checkbox"
+              checked={op.enabled}
+              disabled={disabled || isLocked(op)}
+              onChange={() => onToggle(op.id)}
+              title={isLocked(op) ? lockedHint : op.enabled ? 'Hide this step' : 'Show this step'}
+              className="accent-banana-500"
+            />
+            <span className="shrink-0 px-1.5 py-0.5 rounded bg-white/5 text-[10px] text-gray-400">{typeLabels[op.type]}</span>
+            <span className={`flex-1 truncate ${op.enabled ? 'text-gray-300' : 'text-gray-500 line-through'}`} title={`${op.label}\n${describe(op)}`}>
+              {describe(op)}
+            </span>
+            <button
+              onClick={() => onMove(op.id, -1)}
+              disabled={disabled || !canMove(op, -1)}
+              title="Move up"
+              className="p-0.5 text-gray-500 hover:text-white disabled:opacity-30 disabled:hover:text-gray-500"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="18 15 12 9 6 15"/></svg>
+            </button>
+            <button
+              onClick={() => onMove(op.id, 1)}
+              disabled={disabled || !canMove(op, 1)}
+              title="Move down"
+              className="p-0.5 text-gray-500 hover:text-white disabled:opacity-30 disabled:hover:text-gray-500"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="6 9 12 15 18 9"/></svg>
+            </button>
+            <button
+              onClick={() => onRemove(op.id)}
+              disabled={disabled || isLocked(op)}
+              title={isLocked(op) ? lockedHint : 'Remove step'}
+              className="p-0.5 text-gray-500 hover:text-red-400 disabled:opacity-30"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+            </button>
+          </li>
+        ))}
+      </ol>
+      {operations.length === 0 && (
+        <p className="text-xs text-gray-500">Magic Edits are added here as steps. The original is always kept, so steps can be hidden, reordered or removed later.</p>
+      )}
+    </div>
+  );
+};
+
+export default EditStackPanel;
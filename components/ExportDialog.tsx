@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { ExportFormat, ExportOptions, MetadataMode, PhotoItem, ResizeMode } from '../types';
+import {
+  ExportProgress,
+  exportPhotos,
+  filenameTokens,
+  formatFilename,
+  loadExportOptions,
+  saveExportOptions,
+} from '../services/exportService';
+
+interface ExportDialogProps {
+  items: PhotoItem[];
+  onClose: () => void;
+  onExported?: () => void;
+}
+
+const formats: { value: ExportFormat; label: string }[] = [
+  { value: ExportFormat.JPEG, label: 'JPEG' },
+  { value: ExportFormat.PNG, label: 'PNG' },
+  { value: ExportFormat.WEBP, label: 'WebP' },
+];
+
+const resizeModes: { value: ResizeMode; label: string }[] = [
+  { value: ResizeMode.ORIGINAL, label: 'Original size' },
+  { value: ResizeMode.LONG_EDGE, label: 'Long edge' },
+  { value: ResizeMode.PERCENT, label: 'Percentage' },
+];
+
+const metadataModes: { value: MetadataMode; label: string }[] = [
+  { value: MetadataMode.KEEP, label: 'Keep all' },
+  { value: MetadataMode.REMOVE_LOCATION, label: 'Remove location' },
+  { value: MetadataMode.STRIP, label: 'Strip all' },
+];
+
+const inputClass = 'w-full bg-black/30 border border-dark-border rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-banana-500 transition-colors';
+
+// Modal with format / quality / resize / filename options. One photo is
+// downloaded as-is, several are bundled into a single ZIP.
+const ExportDialog: React.FC<ExportDialogProps> = ({ items, onClose, onExported }) => {
+  const [options, setOptions] = useState<ExportOptions>(loadExportOptions);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<ExportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    saveExportOptions(options);
+    try {
+      const result = await exportPhotos(items, options, setProgress);
+      if (result.substituted) {
+        const label = (format: ExportFormat) => formats.find(f => f.value === format)?.label;
+        alert(`This browser can't save ${label(options.format)}, so ${items.length === 1 ? 'the photo was' : 'the photos were'} saved as ${label(result.substituted)} instead.`);
+      }
+      if (result.failed.length === 0) {
+        onExported?.();
+        onClose();
+      } else {
+        setError(`Exported ${result.total - result.failed.length} of ${result.total}. Failed: ${result.failed.join(', ')}`);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const preview = items.length > 0
+    ? formatFilename(options.filenameTemplate, items[0], 0, items.length, options.format)
+    : '';
+  const percent = progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={() => !isExporting && onClose()}>
+      <div className="bg-dark-surface border border-dark-border rounded-2xl p-6 w-full max-w-md space-y-5 shadow-2xl max-h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-semibold text-white">
+            Export {items.length === 1 ? 'Photo' : `${items.length} Photos`}
+          </h3>
+          <button onClick={onClose} disabled={isExporting} className="text-gray-400 hover:text-white disabled:opacity-40" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+          </button>
+        </div>
+
+        <fieldset disabled={isExporting} className="space-y-4">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Format</label>
+            <div className="grid grid-cols-3 gap-2">
+              {formats.map(f => (
+                <button
+                  key={f.value}
+                  onClick={() => update({ format: f.value })}
+                  className={`py-2 rounded-lg text-sm font-medium border transition-colors ${options.format === f.value ? 'border-banana-500 bg-banana-500/10 text-banana-400' : 'border-dark-border text-gray-300 hover:border-gray-600'}`}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {options.format !== ExportFormat.PNG && (
+            <div>
+              <div className="flex justify-between text-xs text-gray-400 mb-1">
+                <label>Quality</label>
+                <span>{options.quality}</span>
+              </div>
+              <input
+                type="range"
+                min={1}
+                max={100}
+                value={options.quality}
+                onChange={(e) => update({ quality: Number(e.target.value) })}
+                className="w-full accent-banana-500"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Size</label>
+            <div className="flex gap-2">
+              <select
+                value={options.resizeMode}
+                onChange={(e) => update({ resizeMode: e.target.value as ResizeMode })}
+                className={inputClass}
+              >
+                {resizeModes.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+              </select>
+              {options.resizeMode === ResizeMode.LONG_EDGE && (
+                <div className="flex items-center gap-1 shrink-0">
+                  <input
+                    type="number"
+                    min={1}
+                    value={options.longEdge}
+                    onChange={(e) => update({ longEdge: Math.max(1, Number(e.target.value) || 1) })}
+                    className={`${inputClass} w-24`}
+                  />
+                  <span className="text-xs text-gray-400">px</span>
+                </div>
+              )}
+              {options.resizeMode === ResizeMode.PERCENT && (
+                <div className="flex items-center gap-1 shrink-0">
+                  <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={options.percent}
+                    onChange={(e) => update({ percent: Math.min(100, Math.max(1, Number(e.target.value) || 1)) })}
+                    className={`${inputClass} w-20`}
+                  />
+                  <span className="text-xs text-gray-400">%</span>
+                </div>
+              )}
+            </div>
+            {options.resizeMode !== ResizeMode.ORIGINAL && (
+              <p className="text-xs text-gray-500 mt-1">Photos are never enlarged.</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">File name</label>
+            <input
+              type="text"
+              value={options.filenameTemplate}
+              onChange={(e) => update({ filenameTemplate: e.target.value })}
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Tokens: {filenameTokens.join(' ')} &middot; e.g. <span className="text-gray-300">{preview}</span>
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Metadata</label>
+            <select
+              value={options.metadata}
+              onChange={(e) => update({ metadata: e.target.value as MetadataMode })}
+              className={inputClass}
+            >
+              {metadataModes.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              {options.metadata === MetadataMode.STRIP
+                ? 'No camera info, location or edit details are written.'
+                : 'Camera info, your edits and the AI prompt are written to EXIF.'}
+            </p>
+          </div>
+        </fieldset>
+
+        {progress && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-400">
+              <span>{isExporting ? 'Rendering…' : 'Finished'}</span>
+              <span>{progress.done} / {progress.total}</span>
+            </div>
+            <div className="h-2 bg-black/40 rounded-full overflow-hidden">
+              <div className="h-full bg-banana-500 transition-all" style={{ width: `${percent}%` }}></div>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 rounded-lg text-sm border-l-2 bg-red-500/20 text-red-200 border-red-500">{error}</div>
+        )}
+
+        <button
+          onClick={handleExport}
+          disabled={isExporting || items.length === 0}
+          className="w-full bg-banana-500 hover:bg-banana-600 text-white py-3 rounded-xl font-bold flex items-center justify-center gap-2 shadow-lg transition-colors disabled:opacity-50"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" y1="15" x2="12" y2="3"/></svg>
+          {isExporting ? 'Exporting…' : items.length > 1 ? 'Download ZIP' : 'Download'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
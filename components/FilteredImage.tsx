@@ -0,0 +1,42 @@
+import React, { useEffect, useRef } from 'react';
+import { FilterSettings, LutStage } from '../types';
+import { renderThumbnail } from '../services/thumbnailService';
+
+interface FilteredImageProps {
+  src: string;
+  settings: FilterSettings;
+  lut?: LutStage | null;
+  alt: string;
+  className?: string;
+  maxEdge?: number; // Render resolution (long edge). Keep small for grids.
+}
+
+// Thumbnail rendered through the same pixel pipeline as the preview and export,
+// off the main thread (see thumbnailService).
+const FilteredImage: React.FC<FilteredImageProps> = ({ src, settings, lut, alt, className, maxEdge = 512 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Unmounting (e.g. the tile scrolled out of a virtualized grid) cancels the
+  // render if it hasn't started yet
+  useEffect(() => {
+    const controller = new AbortController();
+    renderThumbnail(src, settings, lut, maxEdge, controller.signal)
+      .then(bitmap => {
+        const canvas = canvasRef.current;
+        if (!controller.signal.aborted && canvas) {
+          canvas.width = bitmap.width;
+          canvas.height = bitmap.height;
+          canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+        }
+        bitmap.close();
+      })
+      .catch(err => {
+        if (err?.name !== 'AbortError') console.error("Thumbnail failed to load", err);
+      });
+    return () => controller.abort();
+  }, [src, settings, lut, maxEdge]);
+
+  return <canvas ref={canvasRef} role="img" aria-label={alt} className={className} />;
+};
+
+export default FilteredImage;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { Geometry } from '../types';
+import { MAX_STRAIGHTEN, aspectPresets, defaultGeometry, fitCropToAspect, flipGeometry, getFrameSize, isIdentityGeometry, rotateGeometry } from '../services/geometryService';
+
+interface GeometryPanelProps {
+  geometry: Geometry;
+  imageSize: { width: number; height: number }; // Size of the image being cropped
+  onChange: (geometry: Geometry) => void;
+  onApply: () => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+const iconButton = 'flex-1 flex items-center justify-center gap-1 py-1.5 rounded-md text-xs text-gray-300 bg-black/30 border border-dark-border hover:text-white hover:border-banana-500 disabled:opacity-40 transition-colors';
+
+// Crop, rotate, straighten and flip controls for the crop tool
+const GeometryPanel: React.FC<GeometryPanelProps> = ({ geometry, imageSize, onChange, onApply, onCancel, disabled }) => {
+  const frame = getFrameSize(geometry, imageSize.width, imageSize.height);
+
+  const setAspect = (aspect: number | null) =>
+    onChange({ ...geometry, aspect, crop: fitCropToAspect(geometry.crop, aspect, frame.width, frame.height) });
+
+  // A rotated 4:5 crop is 5:4, which still counts as the 4:5 preset
+  const isActiveAspect = (value: number | null) =>
+    value === null
+      ? geometry.aspect === null
+      : geometry.aspect !== null && (Math.abs(geometry.aspect - value) < 1e-6 || Math.abs(geometry.aspect - 1 / value) < 1e-6);
+
+  const setStraighten = (straighten: number) => {
+    if (Number.isNaN(straighten)) return;
+    onChange({ ...geometry, straighten: Math.max(-MAX_STRAIGHTEN, Math.min(MAX_STRAIGHTEN, straighten)) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-300">Crop &amp; Rotate</h4>
+        <button
+          onClick={() => onChange(defaultGeometry)}
+          disabled={disabled || isIdentityGeometry(geometry)}
+          className="text-xs text-gray-400 hover:text-banana-400 disabled:opacity-40 disabled:hover:text-gray-400 transition-colors"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="flex bg-black/30 p-1 rounded-lg">
+        {aspectPresets.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => setAspect(preset.value)}
+            disabled={disabled}
+            className={`flex-1 py-1 rounded-md text-xs font-medium transition-colors disabled:opacity-50 ${isActiveAspect(preset.value) ? 'bg-banana-500 text-white shadow' : 'text-gray-400 hover:text-white'}`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={() => onChange(rotateGeometry(geometry, -1))} disabled={disabled} title="Rotate left" className={iconButton}>
+          <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 2v6h6"/><path d="M3 13a9 9 0 1 0 3-7.7L3 8"/></svg>
+          90°
+        </button>
+        <button onClick={() => onChange(rotateGeometry(geometry, 1))} disabled={disabled} title="Rotate right" className={iconButton}>
+          <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 2v6h-6"/><path d="M21 13a9 9 0 1 1-3-7.7L21 8"/></svg>
+          90°
+        </button>
+        <button onClick={() => onChange(flipGeometry(geometry, 'horizontal'))} disabled={disabled} title="Flip horizontal" className={iconButton}>
+          <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 3v18"/><path d="M8 7l-5 5 5 5V7z"/><path d="M16 7l5 5-5 5V7z"/></svg>
+          Flip H
+        </button>
+        <button onClick={() => onChange(flipGeometry(geometry, 'vertical'))} disabled={disabled} title="Flip vertical" className={iconButton}>
+          <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 12h18"/><path d="M7 8l5-5 5 5H7z"/><path d="M7 16l5 5 5-5H7z"/></svg>
+          Flip V
+        </button>
+      </div>
+
+      <div className="flex items-center gap-3" title="Double-click to reset">
+        <label className={`w-20 shrink-0 text-xs ${geometry.straighten !== 0 ? 'text-banana-400' : 'text-gray-400'}`}>Straighten</label>
+        <input
+          type="range"
+          min={-MAX_STRAIGHTEN}
+          max={MAX_STRAIGHTEN}
+          step={0.1}
+          value={geometry.straighten}
+          disabled={disabled}
+          onChange={(e) => setStraighten(parseFloat(e.target.value))}
+          onDoubleClick={() => !disabled && setStraighten(0)}
+          className="flex-1 accent-banana-500 disabled:opacity-50"
+        />
+        <div className="flex items-center w-20 shrink-0 bg-black/30 border border-dark-border rounded-md focus-within:border-banana-500">
+          <input
+            type="number"
+            min={-MAX_STRAIGHTEN}
+            max={MAX_STRAIGHTEN}
+            step={0.1}
+            value={geometry.straighten}
+            disabled={disabled}
+            onChange={(e) => setStraighten(parseFloat(e.target.value))}
+            className="w-full bg-transparent px-2 py-1 text-xs text-white text-right focus:outline-none disabled:opacity-50"
+          />
+          <span className="pr-2 text-xs text-gray-500">°</span>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {Math.round(frame.width * geometry.crop.width)} × {Math.round(frame.height * geometry.crop.height)} px
+      </p>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          disabled={disabled}
+          className="flex-1 py-2 rounded-lg text-sm text-gray-300 bg-black/30 border border-dark-border hover:text-white transition-colors disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onApply}
+          disabled={disabled}
+          className="flex-1 py-2 rounded-lg text-sm font-bold text-white bg-banana-500 hover:bg-banana-600 transition-colors disabled:opacity-50"
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GeometryPanel;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { EditHistory } from '../types';
+import { canRedo, canUndo } from '../services/historyService';
+
+interface HistoryPanelProps {
+  history: EditHistory;
+  onJump: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  disabled?: boolean;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, onUndo, onRedo, disabled }) => {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-300">History</h4>
+        <div className="flex gap-1">
+          <button
+            onClick={onUndo}
+            disabled={disabled || !canUndo(history)}
+            title="Undo (Ctrl+Z)"
+            className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 7v6h6"/><path d="M21 17a9 9 0 0 0-9-9 9 9 0 0 0-6 2.3L3 13"/></svg>
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={disabled || !canRedo(history)}
+            title="Redo (Ctrl+Shift+Z)"
+            className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 7v6h-6"/><path d="M3 17a9 9 0 0 1 9-9 9 9 0 0 1 6 2.3L21 13"/></svg>
+          </button>
+        </div>
+      </div>
+
+      <ol className="max-h-48 overflow-y-auto space-y-1 text-xs">
+        {history.entries.map((entry, i) => (
+          <li key={entry.id}>
+            <button
+              onClick={() => onJump(i)}
+              disabled={disabled}
+              className={`w-full text-left px-3 py-1.5 rounded-md truncate transition-colors
+                ${i === history.index
+                  ? 'bg-banana-500/20 text-banana-400 border border-banana-500/30'
+                  : i > history.index
+                    ? 'text-gray-600 hover:bg-white/5 border border-transparent'
+                    : 'text-gray-300 hover:bg-white/5 border border-transparent'}`}
+              title={entry.label}
+            >
+              {entry.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { JobStatus, QueueSnapshot } from '../types';
+import { JobQueue } from '../services/jobQueue';
+
+interface JobProgressProps {
+  snapshot: QueueSnapshot | null;
+  queue: JobQueue | null;
+  onStart: () => void;
+  startDisabled?: boolean;
+}
+
+const statusStyles: Record<JobStatus, string> = {
+  [JobStatus.QUEUED]: 'text-gray-400',
+  [JobStatus.RUNNING]: 'text-banana-400 animate-pulse',
+  [JobStatus.DONE]: 'text-green-400',
+  [JobStatus.FAILED]: 'text-red-400',
+  [JobStatus.CANCELLED]: 'text-gray-500',
+};
+
+// Start / pause / cancel / retry buttons and per-job status for a batch job queue
+const JobProgress: React.FC<JobProgressProps> = ({ snapshot, queue, onStart, startDisabled }) => {
+  const jobs = snapshot?.jobs || [];
+  const finished = jobs.filter(j => j.status === JobStatus.DONE || j.status === JobStatus.FAILED || j.status === JobStatus.CANCELLED).length;
+  const failed = jobs.filter(j => j.status === JobStatus.FAILED || j.status === JobStatus.CANCELLED).length;
+  const isRunning = !!snapshot && !snapshot.isIdle;
+  const progress = jobs.length > 0 ? (finished / jobs.length) * 100 : 0;
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-3">
+        {!isRunning ? (
+          <button
+            onClick={onStart}
+            disabled={startDisabled}
+            className="bg-banana-500 hover:bg-banana-600 text-white px-5 py-2 rounded-xl font-bold transition-colors disabled:opacity-50"
+          >
+            {jobs.length > 0 ? 'Run Again' : 'Start'}
+          </button>
+        ) : snapshot?.isPaused ? (
+          <button onClick={() => queue?.resume()} className="bg-banana-500 hover:bg-banana-600 text-white px-5 py-2 rounded-xl font-bold transition-colors">Resume</button>
+        ) : (
+          <button onClick={() => queue?.pause()} className="bg-black/30 hover:bg-dark-border text-white px-5 py-2 rounded-xl border border-dark-border transition-colors">Pause</button>
+        )}
+        {isRunning && (
+          <button onClick={() => queue?.cancel()} className="bg-black/30 hover:bg-red-500 text-white px-5 py-2 rounded-xl border border-dark-border transition-colors">Cancel</button>
+        )}
+        {!isRunning && failed > 0 && (
+          <button onClick={() => queue?.retryFailed()} className="bg-black/30 hover:bg-dark-border text-white px-5 py-2 rounded-xl border border-dark-border transition-colors">Retry Failed ({failed})</button>
+        )}
+      </div>
+
+      {jobs.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>{finished} / {jobs.length} done{snapshot?.isPaused ? ' (paused)' : ''}</span>
+            {snapshot?.cooldownUntil && <span className="text-banana-400">Rate limited, slowing down…</span>}
+          </div>
+          <div className="h-2 bg-black/40 rounded-full overflow-hidden">
+            <div className="h-full bg-banana-500 transition-all" style={{ width: `${progress}%` }}></div>
+          </div>
+          <ul className="max-h-48 overflow-y-auto text-xs space-y-1">
+            {jobs.map(job => (
+              <li key={job.id} className="flex justify-between gap-4">
+                <span className="text-gray-300 truncate">{job.label}</span>
+                <span className={`shrink-0 ${statusStyles[job.status]}`} title={job.error}>
+                  {job.status.toLowerCase()}{job.error && job.status !== JobStatus.DONE ? `: ${job.error}` : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default JobProgress;
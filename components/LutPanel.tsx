@@ -0,0 +1,79 @@
+import React, { useRef } from 'react';
+import { LutStage } from '../types';
+
+interface LutPanelProps {
+  lut: LutStage | null;
+  onLoad: (file: File) => void;
+  onIntensityChange: (intensity: number) => void;
+  onRemove: () => void;
+  onExportCube: () => void;
+  disabled?: boolean;
+}
+
+// Optional .cube grade applied on top of the sliders
+const LutPanel: React.FC<LutPanelProps> = ({ lut, onLoad, onIntensityChange, onRemove, onExportCube, disabled }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-300">3D LUT</h4>
+        <div className="flex gap-2 text-xs">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            className="text-gray-400 hover:text-banana-400 disabled:opacity-40 transition-colors"
+          >
+            {lut ? 'Replace' : 'Load .cube'}
+          </button>
+          <button
+            onClick={onExportCube}
+            disabled={disabled}
+            title="Bake the current look (sliders and LUT) into a .cube file"
+            className="text-gray-400 hover:text-banana-400 disabled:opacity-40 transition-colors"
+          >
+            Export .cube
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".cube"
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files && e.target.files[0]) onLoad(e.target.files[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {lut && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-gray-300 truncate" title={lut.lut.title}>
+              {lut.lut.title} <span className="text-gray-500">({lut.lut.size}³)</span>
+            </span>
+            <div className="flex items-center gap-2 shrink-0">
+              <span className="text-gray-400">{lut.intensity}%</span>
+              <button onClick={onRemove} disabled={disabled} className="text-gray-500 hover:text-red-400 disabled:opacity-40" title="Remove LUT">
+                <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+              </button>
+            </div>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={lut.intensity}
+            disabled={disabled}
+            onChange={(e) => onIntensityChange(Number(e.target.value))}
+            onDoubleClick={() => onIntensityChange(100)}
+            className="w-full accent-banana-500"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LutPanel;
@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MaskSettings, MaskTool } from '../types';
+import { loadImage } from '../services/filterService';
+import { exportMask, restoreMask, toImagePixels } from '../services/maskService';
+
+interface MaskOverlayProps {
+  src: string;           // Image being masked; the mask canvas matches its natural size
+  mask: string | null;   // Current mask (PNG data URL); null clears the canvas
+  settings: MaskSettings;
+  onChange: (mask: string | null) => void; // Called once per finished stroke
+  disabled?: boolean;
+}
+
+const STROKE_COLOR = '#f59e0b';
+const STROKE_RGB: [number, number, number] = [245, 158, 11];
+
+// Paint layer drawn over BeforeAfter in Magic Edit mode
+const MaskOverlay: React.FC<MaskOverlayProps> = ({ src, mask, settings, onChange, disabled }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const drawnMask = useRef<string | null | undefined>(undefined); // Mask the canvas shows; undefined = unknown
+  const [lasso, setLasso] = useState<{ x: number; y: number }[] | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    drawnMask.current = undefined; // Resizing the canvas clears it
+    loadImage(src)
+      .then(img => { if (!cancelled) setSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+      .catch(err => console.error("Mask overlay failed to load", err));
+    return () => { cancelled = true; };
+  }, [src]);
+
+  // The canvas starts blank whenever it mounts (e.g. after Compare), so a saved
+  // mask is painted back before the next stroke is exported on top of it
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || mask === drawnMask.current) return;
+    drawnMask.current = mask;
+    if (!mask) {
+      canvas.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+      return;
+    }
+    let cancelled = false;
+    loadImage(mask)
+      .then(img => { if (!cancelled) restoreMask(canvas, img, STROKE_RGB); })
+      .catch(err => console.error("Mask overlay failed to restore the mask", err));
+    return () => { cancelled = true; };
+  }, [mask, size]);
+
+  const toImagePoint = (e: React.PointerEvent) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const paintTo = (point: { x: number; y: number }) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const from = lastPoint.current || point;
+    ctx.globalCompositeOperation = settings.tool === MaskTool.ERASER ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = STROKE_COLOR;
+    ctx.lineWidth = toImagePixels(settings.brushSize, canvas.width, canvas.height);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPoint.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toImagePoint(e);
+    if (settings.tool === MaskTool.LASSO) {
+      setLasso([point]);
+    } else {
+      lastPoint.current = null;
+      paintTo(point);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lasso) {
+      setLasso([...lasso, toImagePoint(e)]);
+    } else if (lastPoint.current) {
+      paintTo(toImagePoint(e));
+    }
+  };
+
+  const finishStroke = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if (lasso) {
+      const ctx = canvas.getContext('2d');
+      if (ctx && lasso.length > 2) {
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.fillStyle = STROKE_COLOR;
+        ctx.beginPath();
+        lasso.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+        ctx.closePath();
+        ctx.fill();
+      }
+      setLasso(null);
+    } else if (!lastPoint.current) {
+      return;
+    }
+    lastPoint.current = null;
+    const next = exportMask(canvas);
+    drawnMask.current = next;
+    onChange(next);
+  };
+
+  if (!size) return null;
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        width={size.width}
+        height={size.height}
+        aria-label="Edit mask"
+        className={`absolute inset-0 w-full h-full opacity-50 touch-none ${disabled ? 'pointer-events-none' : 'cursor-crosshair'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={finishStroke}
+        onPointerCancel={finishStroke}
+      />
+      {lasso && (
+        <svg
+          viewBox={`0 0 ${size.width} ${size.height}`}
+          preserveAspectRatio="none"
+          className="absolute inset-0 w-full h-full pointer-events-none"
+        >
+          <polyline
+            points={lasso.map(p => `${p.x},${p.y}`).join(' ')}
+            fill={`${STROKE_COLOR}33`}
+            stroke={STROKE_COLOR}
+            strokeWidth="2"
+            strokeDasharray="6 4"
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+      )}
+    </>
+  );
+};
+
+export default MaskOverlay;
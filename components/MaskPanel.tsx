@@ -0,0 +1,83 @@
+import React from 'react';
+import { MaskSettings, MaskTool } from '../types';
+
+interface MaskPanelProps {
+  settings: MaskSettings;
+  hasMask: boolean;
+  onChange: (settings: MaskSettings) => void;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+const tools: { id: MaskTool; label: string }[] = [
+  { id: MaskTool.BRUSH, label: 'Brush' },
+  { id: MaskTool.ERASER, label: 'Eraser' },
+  { id: MaskTool.LASSO, label: 'Lasso' },
+];
+
+// Controls for the Magic Edit mask painted on the image
+const MaskPanel: React.FC<MaskPanelProps> = ({ settings, hasMask, onChange, onClear, disabled }) => {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-300">Edit Area</h4>
+        <button
+          onClick={onClear}
+          disabled={disabled || !hasMask}
+          className="text-xs text-gray-400 hover:text-banana-400 disabled:opacity-40 disabled:hover:text-gray-400 transition-colors"
+        >
+          Clear Mask
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        {hasMask
+          ? 'Only the painted area will change. Everything else stays exactly as it is.'
+          : 'Paint over the image to limit the edit to an area, or leave it empty to edit the whole photo.'}
+      </p>
+
+      <div className="flex bg-black/30 p-1 rounded-lg">
+        {tools.map(tool => (
+          <button
+            key={tool.id}
+            onClick={() => onChange({ ...settings, tool: tool.id })}
+            disabled={disabled}
+            className={`flex-1 py-1 rounded-md text-xs font-medium transition-colors disabled:opacity-50 ${settings.tool === tool.id ? 'bg-banana-500 text-white shadow' : 'text-gray-400 hover:text-white'}`}
+          >
+            {tool.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+        <div className="flex items-center gap-3">
+          <label className="w-16 shrink-0 text-xs text-gray-400">Size</label>
+          <input
+            type="range"
+            min={5}
+            max={200}
+            value={settings.brushSize}
+            disabled={disabled || settings.tool === MaskTool.LASSO}
+            onChange={(e) => onChange({ ...settings, brushSize: Number(e.target.value) })}
+            className="flex-1 accent-banana-500 disabled:opacity-50"
+          />
+          <span className="w-8 text-right text-xs text-gray-300">{settings.brushSize}</span>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="w-16 shrink-0 text-xs text-gray-400">Feather</label>
+          <input
+            type="range"
+            min={0}
+            max={50}
+            value={settings.feather}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...settings, feather: Number(e.target.value) })}
+            className="flex-1 accent-banana-500 disabled:opacity-50"
+          />
+          <span className="w-8 text-right text-xs text-gray-300">{settings.feather}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskPanel;
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { CollectionEdit, PhotoItem } from '../types';
+import { parseTags } from '../services/collectionService';
+import StarRating from './StarRating';
+
+interface OrganizeDialogProps {
+  items: PhotoItem[];  // One photo, or a selection edited together
+  albums: string[];    // Existing albums, offered as suggestions
+  tags: string[];      // Existing tags, offered as suggestions
+  onSave: (edit: CollectionEdit) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-black/30 border border-dark-border rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-banana-500 transition-colors';
+
+// The value every item shares, or undefined when they differ
+const shared = <T,>(items: PhotoItem[], get: (item: PhotoItem) => T): T | undefined =>
+  items.every(item => get(item) === get(items[0])) ? get(items[0]) : undefined;
+
+// Rename, album, tags and rating. With several photos, only the fields that
+// were touched are applied, and tags are added to / removed from every photo.
+const OrganizeDialog: React.FC<OrganizeDialogProps> = ({ items, albums, tags, onSave, onClose }) => {
+  const isBulk = items.length > 1;
+  const initialAlbum = shared(items, item => item.album || '');
+  const initialRating = shared(items, item => item.rating || 0);
+  const initialTags = [...new Set(items.flatMap(item => item.tags || []))];
+
+  const [name, setName] = useState(items[0].name);
+  const [album, setAlbum] = useState(initialAlbum ?? '');
+  const [rating, setRating] = useState(initialRating ?? 0);
+  const [currentTags, setCurrentTags] = useState(initialTags);
+  const [tagInput, setTagInput] = useState('');
+  const [touched, setTouched] = useState({ album: false, rating: false });
+
+  const addTags = (input: string) => {
+    const parsed = parseTags(input);
+    if (parsed.length > 0) setCurrentTags(prev => [...new Set([...prev, ...parsed])]);
+    setTagInput('');
+  };
+
+  const handleSave = () => {
+    const pending = parseTags(tagInput);
+    const finalTags = [...new Set([...currentTags, ...pending])];
+    const edit: CollectionEdit = {
+      addTags: finalTags.filter(tag => !initialTags.includes(tag)),
+      removeTags: initialTags.filter(tag => !finalTags.includes(tag)),
+    };
+    if (!isBulk) edit.name = name;
+    if (!isBulk || touched.album) edit.album = album.trim() || null;
+    if (!isBulk || touched.rating) edit.rating = rating;
+    onSave(edit);
+    onClose();
+  };
+
+  const suggestions = tags.filter(tag => !currentTags.includes(tag));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-dark-surface border border-dark-border rounded-2xl p-6 w-full max-w-md space-y-5 shadow-2xl max-h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-semibold text-white truncate">{isBulk ? `Organize ${items.length} Photos` : 'Organize Photo'}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          {!isBulk && (
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Name</label>
+              <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} autoFocus />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Album</label>
+            <input
+              type="text"
+              list="organize-albums"
+              value={album}
+              onChange={(e) => { setAlbum(e.target.value); setTouched(t => ({ ...t, album: true })); }}
+              placeholder={initialAlbum === undefined ? 'Mixed — leave empty to keep' : 'No album'}
+              className={inputClass}
+            />
+            <datalist id="organize-albums">
+              {albums.map(a => <option key={a} value={a} />)}
+            </datalist>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Tags</label>
+            <div className="flex flex-wrap gap-1.5 mb-2">
+              {currentTags.map(tag => (
+                <span key={tag} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-banana-500/10 border border-banana-500/30 text-xs text-banana-300">
+                  #{tag}
+                  <button onClick={() => setCurrentTags(prev => prev.filter(t => t !== tag))} className="hover:text-white" title={isBulk ? 'Remove from all' : 'Remove'}>×</button>
+                </span>
+              ))}
+              {currentTags.length === 0 && <span className="text-xs text-gray-500">No tags</span>}
+            </div>
+            <input
+              type="text"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ',') {
+                  e.preventDefault();
+                  addTags(tagInput);
+                }
+              }}
+              placeholder="Add tags, separated by commas"
+              className={inputClass}
+            />
+            {suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mt-2">
+                {suggestions.slice(0, 12).map(tag => (
+                  <button key={tag} onClick={() => addTags(tag)} className="px-2 py-0.5 rounded-full bg-white/5 text-xs text-gray-400 hover:text-white">
+                    +#{tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Rating{isBulk && initialRating === undefined && !touched.rating ? ' (mixed)' : ''}</label>
+            <StarRating value={rating} onChange={(value) => { setRating(value); setTouched(t => ({ ...t, rating: true })); }} size={20} />
+          </div>
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={!isBulk && !name.trim()}
+          className="w-full bg-banana-500 hover:bg-banana-600 text-white py-3 rounded-xl font-bold shadow-lg transition-colors disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default OrganizeDialog;
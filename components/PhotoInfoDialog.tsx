@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { PhotoItem, PhotoMetadata } from '../types';
+import { getSceneLabel } from '../services/collectionService';
+
+interface PhotoInfoDialogProps {
+  item: PhotoItem;
+  onSave: (metadata: PhotoMetadata) => void;
+  onClose: () => void;
+}
+
+const formatExposure = (seconds: number) =>
+  seconds >= 1 ? `${seconds}s` : `1/${Math.round(1 / seconds)}s`;
+
+const Row: React.FC<{ label: string; value?: React.ReactNode }> = ({ label, value }) =>
+  value === undefined || value === '' ? null : (
+    <div className="flex justify-between gap-4 py-1.5 border-b border-dark-border/50 text-sm">
+      <span className="text-gray-400 shrink-0">{label}</span>
+      <span className="text-gray-200 text-right truncate">{value}</span>
+    </div>
+  );
+
+const inputClass = 'w-full bg-black/30 border border-dark-border rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-banana-500 transition-colors';
+
+// Read-only camera info plus the fields a user would want to rewrite before export
+const PhotoInfoDialog: React.FC<PhotoInfoDialogProps> = ({ item, onSave, onClose }) => {
+  const [metadata, setMetadata] = useState<PhotoMetadata>(item.metadata || {});
+  const update = (patch: Partial<PhotoMetadata>) => setMetadata(prev => ({ ...prev, ...patch }));
+
+  const exposure = [
+    metadata.exposureTime ? formatExposure(metadata.exposureTime) : '',
+    metadata.fNumber ? `f/${metadata.fNumber.toFixed(1)}` : '',
+    metadata.iso ? `ISO ${metadata.iso}` : '',
+    metadata.focalLength ? `${Math.round(metadata.focalLength)}mm` : '',
+  ].filter(Boolean).join(' · ');
+  const camera = [metadata.make, metadata.model].filter(Boolean).join(' ');
+  const gps = metadata.gps;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-dark-surface border border-dark-border rounded-2xl p-6 w-full max-w-md space-y-5 shadow-2xl max-h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-semibold text-white truncate">{item.name}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+          </button>
+        </div>
+
+        <div>
+          {!item.metadata && <p className="text-sm text-gray-500 pb-2">No camera metadata was found in this photo.</p>}
+          <Row label="Taken" value={metadata.dateTaken?.replace('T', ' ')} />
+          <Row label="Camera" value={camera} />
+          <Row label="Lens" value={metadata.lens} />
+          <Row label="Exposure" value={exposure} />
+          <Row label="Software" value={metadata.software} />
+          <Row label="Keywords" value={metadata.keywords?.join(', ')} />
+          <Row label="Last prompt" value={item.prompt} />
+          {item.autoTags && (
+            <>
+              <Row label="Caption" value={<span title={item.autoTags.caption}>{item.autoTags.caption}</span>} />
+              <Row label="Scene" value={getSceneLabel(item.autoTags.scene)} />
+              <Row label="Auto-tags" value={<span title={`${item.autoTags.tags.join(', ')}\nBy ${item.autoTags.model}`}>{item.autoTags.tags.join(', ')}</span>} />
+            </>
+          )}
+          {gps && (
+            <div className="flex justify-between items-center gap-4 py-1.5 border-b border-dark-border/50 text-sm">
+              <span className="text-gray-400 shrink-0">Location</span>
+              <span className="flex items-center gap-3">
+                <a
+                  href={`https://www.openstreetmap.org/?mlat=${gps.latitude}&mlon=${gps.longitude}&zoom=15`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-banana-400 hover:underline"
+                >
+                  {gps.latitude.toFixed(5)}, {gps.longitude.toFixed(5)}
+                </a>
+                <button onClick={() => update({ gps: undefined })} className="text-xs text-gray-400 hover:text-red-400" title="Remove location">
+                  Remove
+                </button>
+              </span>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Description</label>
+            <textarea
+              value={metadata.description || ''}
+              onChange={(e) => update({ description: e.target.value || undefined })}
+              rows={2}
+              className={`${inputClass} resize-none`}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Artist</label>
+              <input type="text" value={metadata.artist || ''} onChange={(e) => update({ artist: e.target.value || undefined })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Copyright</label>
+              <input type="text" value={metadata.copyright || ''} onChange={(e) => update({ copyright: e.target.value || undefined })} className={inputClass} />
+            </div>
+          </div>
+        </div>
+
+        <button
+          onClick={() => { onSave(metadata); onClose(); }}
+          className="w-full bg-banana-500 hover:bg-banana-600 text-white py-3 rounded-xl font-bold shadow-lg transition-colors"
+        >
+          Save Info
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoInfoDialog;
@@ -0,0 +1,128 @@
+import React, { useRef, useState } from 'react';
+import { Preset } from '../types';
+import FilteredImage from './FilteredImage';
+
+interface PresetPanelProps {
+  presets: Preset[];
+  hasImage: boolean;         // An image is open, so its look can be saved
+  previewSrc: string | null; // Small (512px) copy of the open image to preview presets on
+  onApply: (preset: Preset) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  disabled?: boolean;
+}
+
+const PresetPanel: React.FC<PresetPanelProps> = ({ presets, hasImage, previewSrc, onApply, onSave, onDelete, onImport, onExport, disabled }) => {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave(name);
+    setName('');
+    setIsNaming(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-300">Presets</h4>
+        <div className="flex gap-1">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            title="Import presets (.json)"
+            className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="17 8 12 3 7 8"/><line x1="12" y1="3" x2="12" y2="15"/></svg>
+          </button>
+          <button
+            onClick={onExport}
+            disabled={!presets.some(p => !p.builtIn)}
+            title="Export my presets (.json)"
+            className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" y1="15" x2="12" y2="3"/></svg>
+          </button>
+          <button
+            onClick={() => setIsNaming(!isNaming)}
+            disabled={disabled || !hasImage}
+            title="Save current look as a preset"
+            className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="12" y1="5" x2="12" y2="19"/><line x1="5" y1="12" x2="19" y2="12"/></svg>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files && e.target.files[0]) onImport(e.target.files[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {isNaming && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            autoFocus
+            placeholder="Preset name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+              if (e.key === 'Escape') setIsNaming(false);
+            }}
+            className="flex-1 bg-black/30 border border-dark-border rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-banana-500 transition-colors"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="bg-banana-500 hover:bg-banana-600 text-white px-3 rounded-lg text-sm font-bold transition-colors disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-4 gap-2 max-h-56 overflow-y-auto">
+        {presets.map(preset => (
+          <div key={preset.id} className="relative group">
+            <button
+              onClick={() => onApply(preset)}
+              disabled={disabled}
+              title={preset.prompt ? `${preset.name}: "${preset.prompt}"` : preset.name}
+              className="w-full text-left disabled:opacity-50"
+            >
+              <div className="aspect-square rounded-md overflow-hidden bg-black/30 border border-dark-border group-hover:border-banana-500 transition-colors">
+                {previewSrc ? (
+                  <FilteredImage src={previewSrc} settings={preset.settings} alt={preset.name} className="w-full h-full object-cover" maxEdge={96} />
+                ) : preset.thumbnail ? (
+                  <img src={preset.thumbnail} alt={preset.name} className="w-full h-full object-cover" />
+                ) : null}
+              </div>
+              <p className="text-[10px] text-gray-400 mt-1 truncate">{preset.name}</p>
+            </button>
+            {!preset.builtIn && (
+              <button
+                onClick={() => onDelete(preset.id)}
+                title="Delete preset"
+                className="absolute -top-1 -right-1 bg-red-500 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PresetPanel;
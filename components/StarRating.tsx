@@ -0,0 +1,31 @@
+import React from 'react';
+import { MAX_RATING } from '../services/collectionService';
+
+interface StarRatingProps {
+  value: number;                      // 0 = unrated
+  onChange?: (rating: number) => void; // Omit for a read-only display
+  size?: number;
+  disabled?: boolean;
+}
+
+// Clicking the current rating again clears it
+const StarRating: React.FC<StarRatingProps> = ({ value, onChange, size = 14, disabled }) => {
+  return (
+    <div className="flex items-center gap-0.5">
+      {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map(star => (
+        <button
+          key={star}
+          type="button"
+          onClick={(e) => { e.stopPropagation(); onChange?.(star === value ? 0 : star); }}
+          disabled={disabled || !onChange}
+          title={onChange ? `${star} star${star === 1 ? '' : 's'}` : undefined}
+          className={`${star <= value ? 'text-banana-400' : 'text-gray-600'} ${onChange && !disabled ? 'hover:text-banana-300' : ''} disabled:cursor-default transition-colors`}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill={star <= value ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="12 2 15.09 8.26 22 9.27 17 14.14 18.18 21.02 12 17.77 5.82 21.02 7 14.14 2 9.27 8.91 8.26 12 2"/></svg>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default StarRating;
@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CurvePoint, FilterSettings, LutStage, ToneChannel, ToneSettings } from '../types';
+import { defaultChannelTone, defaultTone } from '../constants';
+import { applyFilters, loadPixels } from '../services/filterService';
+import { Histogram, computeHistogram, interpolateCurve, isIdentityTone } from '../services/toneService';
+
+interface ToneEditorProps {
+  src: string;
+  settings: FilterSettings;
+  lut?: LutStage | null;
+  onChange: (tone: ToneSettings, label: string) => void;
+  disabled?: boolean;
+}
+
+const HISTOGRAM_EDGE = 256; // Analysis resolution; plenty for a 256-bin histogram
+
+const channels: { id: ToneChannel; label: string; color: string; bins: keyof Histogram }[] = [
+  { id: 'rgb', label: 'RGB', color: '#e5e7eb', bins: 'luma' },
+  { id: 'red', label: 'Red', color: '#f87171', bins: 'red' },
+  { id: 'green', label: 'Green', color: '#4ade80', bins: 'green' },
+  { id: 'blue', label: 'Blue', color: '#60a5fa', bins: 'blue' },
+];
+
+// SVG coordinates: x = input 0-255 left to right, y = output 0-255 bottom to top
+const toSvgY = (v: number) => 255 - v;
+
+const histogramPath = (bins: Uint32Array) => {
+  // Ignore the two end bins when scaling, clipped pixels would flatten everything else
+  let max = 1;
+  for (let i = 1; i < 255; i++) max = Math.max(max, bins[i]);
+  let d = 'M0,255';
+  for (let i = 0; i < 256; i++) d += ` L${i},${255 - Math.min(1, bins[i] / max) * 255}`;
+  return d + ' L255,255 Z';
+};
+
+const curvePath = (points: CurvePoint[]) => {
+  const values = interpolateCurve(points);
+  let d = `M0,${toSvgY(values[0])}`;
+  for (let x = 1; x < 256; x++) d += ` L${x},${toSvgY(values[x])}`;
+  return d;
+};
+
+// Levels + tone curve editor with a live histogram of the rendered result
+const ToneEditor: React.FC<ToneEditorProps> = ({ src, settings, lut, onChange, disabled }) => {
+  const [channel, setChannel] = useState<ToneChannel>('rgb');
+  const [source, setSource] = useState<ImageData | null>(null);
+  const [histogram, setHistogram] = useState<Histogram | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const tone = settings.tone || defaultTone;
+  const active = tone[channel];
+  const meta = channels.find(c => c.id === channel)!;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPixels(src, HISTOGRAM_EDGE)
+      .then(pixels => { if (!cancelled) setSource(pixels); })
+      .catch(err => console.error("Histogram failed to load", err));
+    return () => { cancelled = true; };
+  }, [src]);
+
+  // Histogram of what the preview shows, recomputed at most once per frame
+  useEffect(() => {
+    if (!source) return;
+    const frame = requestAnimationFrame(() => {
+      const buffer = { data: new Uint8ClampedArray(source.data), width: source.width, height: source.height };
+      applyFilters(buffer, settings, lut);
+      setHistogram(computeHistogram(buffer));
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [source, settings, lut]);
+
+  const label = channel === 'rgb' ? 'RGB' : meta.label;
+  const update = (patch: Partial<typeof active>, action: string) =>
+    onChange({ ...tone, [channel]: { ...active, ...patch } }, `${action} (${label})`);
+
+  const setCurve = (curve: CurvePoint[]) => update({ curve }, 'Adjust Curve');
+
+  const toCurvePoint = (e: React.PointerEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = Math.round(((e.clientX - rect.left) / rect.width) * 255);
+    const y = Math.round(255 - ((e.clientY - rect.top) / rect.height) * 255);
+    return { x: Math.max(0, Math.min(255, x)), y: Math.max(0, Math.min(255, y)) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    const point = toCurvePoint(e);
+    const curve = active.curve;
+    let index = curve.findIndex(p => Math.abs(p.x - point.x) <= 6 && Math.abs(p.y - point.y) <= 12);
+    if (index === -1) {
+      // Click on empty space adds a point there
+      if (curve.some(p => p.x === point.x)) return;
+      const next = [...curve, point].sort((a, b) => a.x - b.x);
+      index = next.indexOf(point);
+      setCurve(next);
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragIndex(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const curve = active.curve;
+    const point = toCurvePoint(e);
+    const isEndpoint = dragIndex === 0 || dragIndex === curve.length - 1;
+    // Endpoints only move vertically; inner points stay between their neighbours
+    const x = isEndpoint
+      ? curve[dragIndex].x
+      : Math.max(curve[dragIndex - 1].x + 1, Math.min(curve[dragIndex + 1].x - 1, point.x));
+    setCurve(curve.map((p, i) => (i === dragIndex ? { x, y: point.y } : p)));
+  };
+
+  const handleDoubleClickPoint = (index: number) => {
+    if (disabled || index === 0 || index === active.curve.length - 1) return;
+    setCurve(active.curve.filter((_, i) => i !== index));
+  };
+
+  const gammaSlider = Math.log10(active.levels.gamma); // -1..1 maps to 0.1..10
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-300">Curves &amp; Levels</h4>
+        <div className="flex gap-3 text-xs">
+          <button
+            onClick={() => update(defaultChannelTone, 'Reset Curve')}
+            disabled={disabled}
+            className="text-gray-400 hover:text-banana-400 disabled:opacity-40 transition-colors"
+          >
+            Reset {label}
+          </button>
+          <button
+            onClick={() => onChange(defaultTone, 'Reset Curves')}
+            disabled={disabled || isIdentityTone(settings.tone)}
+            className="text-gray-400 hover:text-banana-400 disabled:opacity-40 disabled:hover:text-gray-400 transition-colors"
+          >
+            Reset All
+          </button>
+        </div>
+      </div>
+
+      <div className="flex bg-black/30 p-1 rounded-lg">
+        {channels.map(c => (
+          <button
+            key={c.id}
+            onClick={() => setChannel(c.id)}
+            className={`flex-1 py-1 rounded-md text-xs font-medium transition-colors ${channel === c.id ? 'bg-dark-surface text-white shadow' : 'text-gray-400 hover:text-white'}`}
+            style={channel === c.id ? { color: c.color } : undefined}
+          >
+            {c.label}
+          </button>
+        ))}
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox="0 0 255 255"
+        preserveAspectRatio="none"
+        className={`w-full aspect-square bg-black/40 rounded-lg border border-dark-border touch-none ${disabled ? 'opacity-50' : 'cursor-crosshair'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragIndex(null)}
+        onPointerCancel={() => setDragIndex(null)}
+      >
+        {[64, 128, 192].map(v => (
+          <g key={v} stroke="#ffffff14" strokeWidth="1" vectorEffect="non-scaling-stroke">
+            <line x1={v} y1="0" x2={v} y2="255" vectorEffect="non-scaling-stroke" />
+            <line x1="0" y1={v} x2="255" y2={v} vectorEffect="non-scaling-stroke" />
+          </g>
+        ))}
+        {histogram && <path d={histogramPath(histogram[meta.bins])} fill={meta.color} fillOpacity="0.2" />}
+        <line x1="0" y1="255" x2="255" y2="0" stroke="#ffffff22" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+        <path d={curvePath(active.curve)} fill="none" stroke={meta.color} strokeWidth="2" vectorEffect="non-scaling-stroke" />
+        {active.curve.map((p, i) => (
+          <circle
+            key={i}
+            cx={p.x}
+            cy={toSvgY(p.y)}
+            r="4"
+            fill={i === dragIndex ? meta.color : '#111827'}
+            stroke={meta.color}
+            strokeWidth="2"
+            vectorEffect="non-scaling-stroke"
+            onDoubleClick={() => handleDoubleClickPoint(i)}
+          />
+        ))}
+      </svg>
+      <p className="text-[10px] text-gray-500">Click to add a point, drag to move, double-click to remove.</p>
+
+      <div className="space-y-2">
+        {([
+          { key: 'black', label: 'Black', min: 0, max: 254, step: 1, value: active.levels.black },
+          { key: 'gamma', label: 'Midtones', min: -1, max: 1, step: 0.01, value: gammaSlider },
+          { key: 'white', label: 'White', min: 1, max: 255, step: 1, value: active.levels.white },
+        ] as const).map(field => (
+          <div key={field.key} className="flex items-center gap-3">
+            <label className="w-16 shrink-0 text-xs text-gray-400">{field.label}</label>
+            <input
+              type="range"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={field.value}
+              disabled={disabled}
+              onChange={(e) => {
+                const raw = parseFloat(e.target.value);
+                const levels = { ...active.levels };
+                if (field.key === 'black') levels.black = Math.min(raw, levels.white - 1);
+                if (field.key === 'white') levels.white = Math.max(raw, levels.black + 1);
+                if (field.key === 'gamma') levels.gamma = Math.round(Math.pow(10, raw) * 100) / 100;
+                update({ levels }, 'Adjust Levels');
+              }}
+              className="flex-1 accent-banana-500 disabled:opacity-50"
+            />
+            <span className="w-10 text-right text-xs text-gray-300">
+              {field.key === 'gamma' ? active.levels.gamma.toFixed(2) : field.value}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ToneEditor;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { FilterSettings, LutStage } from '../types';
+import BeforeAfter from './BeforeAfter';
+import FilteredImage from './FilteredImage';
+
+interface VariationPickerProps {
+  originalUrl: string;  // Working image the variations were generated from
+  variations: string[]; // Rendered working image for each variation
+  settings: FilterSettings;
+  lut?: LutStage | null;
+  onUse: (index: number) => void;
+  onSave: (indices: number[]) => void;
+  onDiscard: () => void;
+  disabled?: boolean;
+}
+
+// Contact sheet for Magic Edit variations. Tile 0 is the original. With two or
+// more tiles selected, the last two are compared with the before/after slider.
+const VariationPicker: React.FC<VariationPickerProps> = ({ originalUrl, variations, settings, lut, onUse, onSave, onDiscard, disabled }) => {
+  const [selected, setSelected] = useState<number[]>([1]);
+  const tiles = [originalUrl, ...variations];
+  const labelFor = (tile: number) => tile === 0 ? 'Original' : `Variation ${tile}`;
+
+  const toggle = (tile: number) => {
+    setSelected(prev => prev.includes(tile)
+      ? prev.filter(t => t !== tile)
+      : [...prev, tile]);
+  };
+
+  const selectedVariations = selected.filter(t => t > 0).map(t => t - 1);
+  const focused = selected[selected.length - 1] ?? 0;
+  const compared = selected.length >= 2 ? selected.slice(-2) : null;
+
+  return (
+    <div className="flex flex-col items-center gap-4 max-w-full max-h-full">
+      <div className="relative flex items-center justify-center min-h-0 max-w-full">
+        {compared ? (
+          <BeforeAfter
+            key={compared.join('-')}
+            originalUrl={tiles[compared[1]]}
+            beforeUrl={tiles[compared[0]]}
+            beforeLabel={labelFor(compared[0])}
+            afterLabel={labelFor(compared[1])}
+            settings={settings}
+            lut={lut}
+            isCompareActive
+          />
+        ) : (
+          <BeforeAfter originalUrl={tiles[focused]} settings={settings} lut={lut} isCompareActive={false} />
+        )}
+      </div>
+
+      <div className="w-full bg-black/50 backdrop-blur-md border border-white/10 rounded-xl p-3 space-y-3">
+        <div className="flex gap-2 overflow-x-auto">
+          {tiles.map((url, tile) => {
+            const order = selected.indexOf(tile);
+            const badge = compared?.[0] === tile ? 'A' : compared?.[1] === tile ? 'B' : '✓';
+            return (
+              <button
+                key={tile}
+                onClick={() => toggle(tile)}
+                disabled={disabled}
+                title={labelFor(tile)}
+                className={`relative shrink-0 w-24 h-24 rounded-lg overflow-hidden border-2 transition-colors disabled:opacity-50 ${order !== -1 ? 'border-banana-500' : 'border-transparent hover:border-white/30'}`}
+              >
+                <FilteredImage src={url} settings={settings} lut={lut} alt={labelFor(tile)} className="w-full h-full object-cover" maxEdge={192} />
+                <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[10px] text-white py-0.5">{labelFor(tile)}</span>
+                {order !== -1 && (
+                  <span className="absolute top-1 left-1 w-5 h-5 rounded-full bg-banana-500 text-white text-[10px] font-bold flex items-center justify-center">
+                    {badge}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <p className="text-xs text-gray-400">Select one to use it, or several to compare the last two and save them.</p>
+          <div className="flex gap-2">
+            <button
+              onClick={onDiscard}
+              disabled={disabled}
+              className="px-3 py-1.5 rounded-lg text-sm text-gray-300 bg-black/30 border border-dark-border hover:text-white transition-colors disabled:opacity-50"
+            >
+              Discard
+            </button>
+            <button
+              onClick={() => onSave(selectedVariations)}
+              disabled={disabled || selectedVariations.length === 0}
+              className="px-3 py-1.5 rounded-lg text-sm text-gray-300 bg-black/30 border border-dark-border hover:text-white transition-colors disabled:opacity-50"
+            >
+              Save to Collection{selectedVariations.length > 1 ? ` (${selectedVariations.length})` : ''}
+            </button>
+            <button
+              onClick={() => onUse(focused - 1)}
+              disabled={disabled || focused === 0}
+              className="px-3 py-1.5 rounded-lg text-sm font-bold text-white bg-banana-500 hover:bg-banana-600 transition-colors disabled:opacity-50"
+            >
+              Use {focused > 0 ? labelFor(focused) : 'Selected'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VariationPicker;
@@ -0,0 +1,108 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { CollectionGroupResult, PhotoItem } from '../types';
+
+interface VirtualPhotoGridProps {
+  groups: CollectionGroupResult[];
+  renderItem: (item: PhotoItem) => React.ReactNode;
+  renderHeader?: (group: CollectionGroupResult) => React.ReactNode; // Omit for an ungrouped grid
+  minColumnWidth: number;
+  gap: number;
+  infoHeight?: number; // Fixed card height below the square thumbnail
+}
+
+const HEADER_HEIGHT = 44;
+const GROUP_GAP = 32;
+const OVERSCAN = 800; // px rendered above and below the window
+const SCROLL_STEP = 200; // Re-render only when the window has moved this far (< OVERSCAN)
+
+interface Row {
+  key: string;
+  top: number;
+  header?: CollectionGroupResult;
+  items?: PhotoItem[];
+}
+
+// Grouped square-tile grid that only mounts the rows near the window, so a
+// library of thousands of photos keeps a few dozen cards (and thumbnails) alive.
+// Scrolls with the page; every card must fill its fixed-size cell.
+const VirtualPhotoGrid: React.FC<VirtualPhotoGridProps> = ({ groups, renderItem, renderHeader, minColumnWidth, gap, infoHeight = 0 }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [visible, setVisible] = useState({ top: 0, bottom: window.innerHeight });
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setWidth(container.clientWidth);
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      if (!containerRef.current) return;
+      const top = Math.floor(-containerRef.current.getBoundingClientRect().top / SCROLL_STEP) * SCROLL_STEP;
+      const bottom = top + Math.ceil(window.innerHeight / SCROLL_STEP + 1) * SCROLL_STEP;
+      setVisible(prev => prev.top === top && prev.bottom === bottom ? prev : { top, bottom });
+    };
+    const schedule = () => { if (!frame) frame = requestAnimationFrame(update); };
+    update();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+    };
+  }, []);
+
+  const columns = Math.max(1, Math.floor((width + gap) / (minColumnWidth + gap)));
+  const rowHeight = (width - gap * (columns - 1)) / columns + infoHeight;
+
+  const hasHeaders = !!renderHeader;
+  const { rows, height } = useMemo(() => {
+    const rows: Row[] = [];
+    let y = 0;
+    groups.forEach((group, g) => {
+      if (g > 0) y += GROUP_GAP;
+      if (hasHeaders) {
+        rows.push({ key: `${group.key}:header`, top: y, header: group });
+        y += HEADER_HEIGHT;
+      }
+      for (let i = 0; i < group.items.length; i += columns) {
+        if (i > 0) y += gap;
+        rows.push({ key: `${group.key}:${i}`, top: y, items: group.items.slice(i, i + columns) });
+        y += rowHeight;
+      }
+    });
+    return { rows, height: y };
+  }, [groups, hasHeaders, columns, rowHeight, gap]);
+
+  const top = visible.top - OVERSCAN;
+  const bottom = visible.bottom + OVERSCAN;
+
+  return (
+    <div ref={containerRef} className="relative" style={{ height }}>
+      {width > 0 && rows
+        .filter(row => row.top < bottom && row.top + (row.header ? HEADER_HEIGHT : rowHeight) > top)
+        .map(row => row.header ? (
+          <div key={row.key} className="absolute inset-x-0" style={{ top: row.top, height: HEADER_HEIGHT }}>
+            {renderHeader!(row.header)}
+          </div>
+        ) : (
+          <div
+            key={row.key}
+            className="absolute inset-x-0 grid"
+            style={{ top: row.top, height: rowHeight, gap, gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+          >
+            {row.items!.map(item => <React.Fragment key={item.id}>{renderItem(item)}</React.Fragment>)}
+          </div>
+        ))}
+    </div>
+  );
+};
+
+export default VirtualPhotoGrid;
@@ -0,0 +1,46 @@
+import { ChannelTone, FilterSettings, SliderKey, ToneSettings } from "./types";
+
+export const defaultSettings: FilterSettings = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  sepia: 0,
+  grayscale: 0,
+  hueRotate: 0,
+  blur: 0,
+  warmth: 0,
+  tint: 0
+};
+
+export interface FilterRange {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+}
+
+// UI ranges for every FilterSettings field (mirrors the comments in types.ts)
+export const filterRanges: Record<SliderKey, FilterRange> = {
+  brightness: { label: "Brightness", min: 0, max: 200, step: 1, unit: "%" },
+  contrast: { label: "Contrast", min: 0, max: 200, step: 1, unit: "%" },
+  saturation: { label: "Saturation", min: 0, max: 200, step: 1, unit: "%" },
+  warmth: { label: "Warmth", min: -100, max: 100, step: 1, unit: "" },
+  tint: { label: "Tint", min: -100, max: 100, step: 1, unit: "" },
+  sepia: { label: "Sepia", min: 0, max: 100, step: 1, unit: "%" },
+  grayscale: { label: "Grayscale", min: 0, max: 100, step: 1, unit: "%" },
+  hueRotate: { label: "Hue", min: 0, max: 360, step: 1, unit: "°" },
+  blur: { label: "Blur", min: 0, max: 20, step: 0.1, unit: "px" },
+};
+
+export const defaultChannelTone: ChannelTone = {
+  levels: { black: 0, white: 255, gamma: 1 },
+  curve: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
+};
+
+export const defaultTone: ToneSettings = {
+  rgb: defaultChannelTone,
+  red: defaultChannelTone,
+  green: defaultChannelTone,
+  blue: defaultChannelTone,
+};
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AiAuthError, AiBadResponseError, AiCancelledError, AiError, AiNetworkError, AiOverloadedError, AiQuotaError, AiSafetyError,
+  backoffDelay, runWithFallback, toAiError,
+} from "./aiErrors";
+
+// Records every (model, attempt) call and answers from `script`, in order
+const scripted = (script: (Error | string)[]) => {
+  const calls: string[] = [];
+  const attempt = async (model: string) => {
+    calls.push(model);
+    const next = script.shift();
+    if (next === undefined) throw new Error("script ran out");
+    if (next instanceof Error) throw next;
+    return next;
+  };
+  return { calls, attempt };
+};
+
+const NO_DELAY = { baseDelayMs: 0, maxDelayMs: 0 };
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("toAiError", () => {
+  it("classifies by HTTP status", () => {
+    expect(toAiError({ status: 429, message: "Too many" })).toBeInstanceOf(AiQuotaError);
+    expect(toAiError({ status: 403, message: "nope" })).toBeInstanceOf(AiAuthError);
+    expect(toAiError({ status: 503, message: "busy" })).toBeInstanceOf(AiOverloadedError);
+  });
+
+  it("classifies by message when there is no status", () => {
+    expect(toAiError(new Error("RESOURCE_EXHAUSTED: quota"))).toBeInstanceOf(AiQuotaError);
+    expect(toAiError(new Error("API key not valid"))).toBeInstanceOf(AiAuthError);
+    expect(toAiError(new Error("The model is overloaded"))).toBeInstanceOf(AiOverloadedError);
+  });
+
+  it("recognizes network failures, bad JSON and aborts", () => {
+    expect(toAiError(new TypeError("Failed to fetch"))).toBeInstanceOf(AiNetworkError);
+    expect(toAiError(new SyntaxError("Unexpected token"))).toBeInstanceOf(AiBadResponseError);
+    expect(toAiError(new DOMException("aborted", "AbortError"))).toBeInstanceOf(AiCancelledError);
+  });
+
+  it("keeps AiErrors and wraps anything else with the model", () => {
+    const safety = new AiSafetyError("SAFETY");
+    expect(toAiError(safety, "m")).toBe(safety);
+    const plain = toAiError("boom", "m");
+    expect(plain.constructor).toBe(AiError);
+    expect(plain.message).toBe("boom");
+    expect(plain.model).toBe("m");
+    expect(toAiError(null).message).toBe("null");
+  });
+});
+
+describe("backoffDelay", () => {
+  it("stays between 0 and base * 2^attempt, capped at the maximum", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.999999);
+    expect(backoffDelay(0, 100, 1000)).toBeCloseTo(100);
+    expect(backoffDelay(2, 100, 1000)).toBeCloseTo(400);
+    expect(backoffDelay(10, 100, 1000)).toBeCloseTo(1000);
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(backoffDelay(3, 100, 1000)).toBe(0);
+  });
+});
+
+describe("runWithFallback", () => {
+  it("retries retryable errors on the same model before moving on", async () => {
+    const { calls, attempt } = scripted([new AiOverloadedError(), new AiOverloadedError(), "ok"]);
+    await expect(runWithFallback(["a", "b"], attempt, NO_DELAY)).resolves.toBe("ok");
+    expect(calls).toEqual(["a", "a", "a"]);
+  });
+
+  it("falls back to the next model once the retries are used up", async () => {
+    const { calls, attempt } = scripted([new AiQuotaError(), new AiQuotaError(), "ok"]);
+    await expect(runWithFallback(["a", "b"], attempt, { ...NO_DELAY, retries: 1 })).resolves.toBe("ok");
+    expect(calls).toEqual(["a", "a", "b"]);
+  });
+
+  it("falls back without retrying a bad response", async () => {
+    const { calls, attempt } = scripted([new AiBadResponseError(), "ok"]);
+    await expect(runWithFallback(["a", "b"], attempt, NO_DELAY)).resolves.toBe("ok");
+    expect(calls).toEqual(["a", "b"]);
+  });
+
+  it("throws auth and safety errors straight away", async () => {
+    for (const error of [new AiAuthError(), new AiSafetyError("SAFETY")]) {
+      const { calls, attempt } = scripted([error, "ok"]);
+      await expect(runWithFallback(["a", "b"], attempt, NO_DELAY)).rejects.toBe(error);
+      expect(calls).toEqual(["a"]);
+    }
+  });
+
+  it("stops on a retryable error that doesn't fall back", async () => {
+    const { calls, attempt } = scripted([new AiNetworkError(), new AiNetworkError(), "ok"]);
+    await expect(runWithFallback(["a", "b"], attempt, { ...NO_DELAY, retries: 1 })).rejects.toBeInstanceOf(AiNetworkError);
+    expect(calls).toEqual(["a", "a"]);
+  });
+
+  it("does not fall back or retry once cancelled", async () => {
+    const controller = new AbortController();
+    const calls: string[] = [];
+    const attempt = async (model: string) => {
+      calls.push(model);
+      controller.abort();
+      throw new AiQuotaError(model); // Would normally be retried, then fall back
+    };
+    await expect(runWithFallback(["a", "b"], attempt, { ...NO_DELAY, signal: controller.signal })).rejects.toBeInstanceOf(AiCancelledError);
+    expect(calls).toEqual(["a"]);
+  });
+
+  it("rejects before the first attempt when already cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const { calls, attempt } = scripted(["ok"]);
+    await expect(runWithFallback(["a"], attempt, { signal: controller.signal })).rejects.toBeInstanceOf(AiCancelledError);
+    expect(calls).toEqual([]);
+  });
+
+  it("throws the last error when every model fails", async () => {
+    const last = new AiBadResponseError("second");
+    const { attempt } = scripted([new AiBadResponseError("first"), last]);
+    await expect(runWithFallback(["a", "b"], attempt, NO_DELAY)).rejects.toBe(last);
+  });
+});
@@ -0,0 +1,163 @@
+// Typed errors for the AI providers. The UI decides what to show with
+// `instanceof` instead of matching on error.message.
+
+export class AiError extends Error {
+  // Worth retrying the same model after a delay
+  readonly retryable: boolean = false;
+  // Worth trying the next model in the fallback chain
+  readonly fallback: boolean = false;
+
+  constructor(message: string, public readonly model?: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = "AiError";
+  }
+}
+
+// 429 / RESOURCE_EXHAUSTED. Retried briefly (per-minute rate limits recover),
+// then the next model is tried.
+export class AiQuotaError extends AiError {
+  readonly retryable = true;
+  readonly fallback = true;
+  constructor(model?: string, cause?: unknown) {
+    super("Quota exceeded for this model.", model, cause);
+    this.name = "AiQuotaError";
+  }
+}
+
+// 401 / 403: bad key, or the key is restricted to other domains
+export class AiAuthError extends AiError {
+  constructor(message = "The API key was rejected.", model?: string, cause?: unknown) {
+    super(message, model, cause);
+    this.name = "AiAuthError";
+  }
+}
+
+// 500 / 503: the service is busy
+export class AiOverloadedError extends AiError {
+  readonly retryable = true;
+  readonly fallback = true;
+  constructor(model?: string, cause?: unknown) {
+    super("The AI service is temporarily overloaded.", model, cause);
+    this.name = "AiOverloadedError";
+  }
+}
+
+// The prompt or the image was blocked by safety filters
+export class AiSafetyError extends AiError {
+  constructor(public readonly reason?: string, model?: string, cause?: unknown) {
+    super(`The request was blocked by safety filters${reason ? ` (${reason})` : ""}.`, model, cause);
+    this.name = "AiSafetyError";
+  }
+}
+
+// The model answered, but not with what we asked for (no image, invalid JSON...)
+export class AiBadResponseError extends AiError {
+  readonly fallback = true;
+  constructor(message = "The AI returned an unexpected response.", model?: string, cause?: unknown) {
+    super(message, model, cause);
+    this.name = "AiBadResponseError";
+  }
+}
+
+// fetch failed: offline, DNS, CORS...
+export class AiNetworkError extends AiError {
+  readonly retryable = true;
+  constructor(model?: string, cause?: unknown) {
+    super("Could not reach the AI service. Check your connection.", model, cause);
+    this.name = "AiNetworkError";
+  }
+}
+
+export class AiCancelledError extends AiError {
+  constructor() {
+    super("Cancelled.");
+    this.name = "AiCancelledError";
+  }
+}
+
+const SAFETY_REASONS = ["SAFETY", "PROHIBITED_CONTENT", "IMAGE_SAFETY", "IMAGE_PROHIBITED_CONTENT", "BLOCKLIST", "SPII"];
+
+export const isSafetyReason = (reason?: string) => !!reason && SAFETY_REASONS.includes(reason);
+
+// Maps anything thrown by the SDK / fetch to an AiError subclass
+export const toAiError = (error: unknown, model?: string): AiError => {
+  if (error instanceof AiError) return error;
+  const fields: { name?: unknown; status?: unknown; message?: unknown } = typeof error === "object" && error !== null ? error : {};
+  if (fields.name === "AbortError") return new AiCancelledError();
+
+  const status = typeof fields.status === "number" ? fields.status : undefined;
+  const message = typeof fields.message === "string" && fields.message ? fields.message : String(error);
+
+  if (status === 429 || /429|quota|RESOURCE_EXHAUSTED/i.test(message)) return new AiQuotaError(model, error);
+  if (status === 401 || status === 403 || /\b40[13]\b|PERMISSION_DENIED|API key/i.test(message)) {
+    return new AiAuthError(message, model, error);
+  }
+  if (status === 500 || status === 503 || /\b50[03]\b|UNAVAILABLE|overloaded/i.test(message)) return new AiOverloadedError(model, error);
+  if (error instanceof TypeError && /fetch|network/i.test(message)) return new AiNetworkError(model, error);
+  if (error instanceof SyntaxError) return new AiBadResponseError("The AI returned invalid JSON.", model, error);
+
+  return new AiError(message, model, error);
+};
+
+// --- RETRY POLICY ---
+
+export interface RetryOptions {
+  retries?: number;      // extra attempts per model for retryable errors
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new AiCancelledError();
+};
+
+// Resolves after `ms`, or rejects with AiCancelledError as soon as the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    throwIfAborted(signal);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AiCancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Exponential backoff with full jitter: random delay in [0, base * 2^attempt]
+export const backoffDelay = (attempt: number, baseDelayMs = 800, maxDelayMs = 8000) =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+// Runs `attempt(model, signal)` over the fallback chain. Retryable errors are
+// retried on the same model with backoff; fallback errors move on to the next
+// model; anything else (auth, safety, cancel) is thrown immediately.
+export const runWithFallback = async <T>(
+  models: string[],
+  attempt: (model: string) => Promise<T>,
+  { retries = 2, baseDelayMs, maxDelayMs, signal }: RetryOptions = {}
+): Promise<T> => {
+  let lastError: AiError | undefined;
+
+  for (const model of models) {
+    for (let tryIndex = 0; tryIndex <= retries; tryIndex++) {
+      throwIfAborted(signal);
+      try {
+        return await attempt(model);
+      } catch (raw) {
+        const error = signal?.aborted ? new AiCancelledError() : toAiError(raw, model);
+        console.warn(`Model ${model} failed (attempt ${tryIndex + 1}):`, error.message);
+        lastError = error;
+
+        if (!error.retryable && !error.fallback) throw error;
+        if (!error.retryable || tryIndex === retries) break;
+        await sleep(backoffDelay(tryIndex, baseDelayMs, maxDelayMs), signal);
+      }
+    }
+    if (lastError && !lastError.fallback) throw lastError;
+  }
+
+  throw lastError || new AiError("No models available.");
+};
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { applyCollectionEdit, defaultCollectionQuery, groupCollection, parseSearch, parseTags, queryCollection } from "./collectionService";
+import { defaultSettings } from "../constants";
+import { CollectionGroup, CollectionQuery, CollectionSort, PhotoItem, SceneCategory } from "../types";
+
+const photo = (id: string, fields: Partial<PhotoItem> = {}): PhotoItem => ({
+  id,
+  originalUrl: `blob:${id}`,
+  name: `${id}.jpg`,
+  timestamp: 0,
+  settings: defaultSettings,
+  ...fields,
+});
+
+const tagged = (id: string, caption: string, tags: string[], scene = SceneCategory.OTHER, fields: Partial<PhotoItem> = {}) =>
+  photo(id, { autoTags: { caption, tags, scene, indexedAt: 0, model: "test" }, ...fields });
+
+const query = (items: PhotoItem[], changes: Partial<CollectionQuery>) =>
+  queryCollection(items, { ...defaultCollectionQuery, ...changes }).map(item => item.id);
+
+const search = (items: PhotoItem[], text: string) => query(items, { search: text });
+
+const ids = (items: PhotoItem[]) => items.map(item => item.id);
+
+describe("parseSearch", () => {
+  it("drops filler words and punctuation", () => {
+    expect(parseSearch("Show me photos of the Beach, at sunset!")).toEqual(["beach", "sunset"]);
+    expect(parseSearch("  ")).toEqual([]);
+  });
+
+  it("keeps known multi-word phrases together", () => {
+    expect(parseSearch("black and white dogs")).toEqual(["black and white", "dogs"]);
+  });
+});
+
+describe("tag search", () => {
+  const items = [
+    tagged("beach", "Two people walking on a beach at sunset", ["beach", "sunset", "people"], SceneCategory.NATURE),
+    tagged("coast", "Waves breaking on the shore", ["ocean", "wave"], SceneCategory.NATURE),
+    tagged("street", "A busy street at night", ["city", "night", "cars"], SceneCategory.URBAN),
+    photo("untagged"),
+  ];
+
+  it("finds photos by their auto-tags, caption and scene", () => {
+    expect(search(items, "cars")).toEqual(["street"]);
+    expect(search(items, "walking")).toEqual(["beach"]);
+    expect(search(items, "urban")).toEqual(["street"]);
+  });
+
+  it("folds plurals and matches related words", () => {
+    expect(search(items, "beaches")).toEqual(["beach", "coast"]);
+    expect(search(items, "water")).toEqual(["coast"]);
+  });
+
+  it("ranks direct matches above related ones", () => {
+    expect(search(items, "beach sunset")).toEqual(["beach", "coast"]);
+  });
+
+  it("needs at least half of the terms to match", () => {
+    expect(search(items, "beach night city")).toEqual(["street"]);
+    expect(search(items, "penguin")).toEqual([]);
+  });
+
+  it("searches user tags and names alongside auto-tags", () => {
+    const withTags = [...items, photo("holiday", { tags: ["summer 2024"] })];
+    expect(search(withTags, "summer")).toEqual(["holiday"]);
+    expect(search(withTags, "untagged")).toEqual(["untagged"]);
+  });
+});
+
+describe("queryCollection", () => {
+  const items = [
+    photo("a", { timestamp: 3, name: "Zebra", album: "Trips", tags: ["beach"], rating: 2 }),
+    photo("b", { timestamp: 1, name: "apple 10", tags: ["beach", "family"], rating: 5 }),
+    photo("c", { timestamp: 2, name: "Apple 9", album: "Trips" }),
+  ];
+
+  it("sorts by date, name and rating", () => {
+    expect(query(items, {})).toEqual(["a", "c", "b"]);
+    expect(query(items, { sort: CollectionSort.OLDEST })).toEqual(["b", "c", "a"]);
+    expect(query(items, { sort: CollectionSort.NAME })).toEqual(["c", "b", "a"]);
+    expect(query(items, { sort: CollectionSort.RATING })).toEqual(["b", "a", "c"]);
+  });
+
+  it("filters by album, tag and minimum rating", () => {
+    expect(query(items, { album: "Trips" })).toEqual(["a", "c"]);
+    expect(query(items, { tag: "family" })).toEqual(["b"]);
+    expect(query(items, { minRating: 2 })).toEqual(["a", "b"]);
+    expect(query(items, { album: "Trips", tag: "beach", minRating: 3 })).toEqual([]);
+  });
+
+  it("ranks search matches by score and keeps the chosen sort for ties", () => {
+    const beach = [
+      photo("old", { timestamp: 1, tags: ["beach"] }),
+      photo("related", { timestamp: 3, tags: ["ocean"] }),
+      photo("new", { timestamp: 2, tags: ["beach"] }),
+    ];
+    expect(search(beach, "beach")).toEqual(["new", "old", "related"]);
+    expect(query(beach, { search: "beach", sort: CollectionSort.OLDEST })).toEqual(["old", "new", "related"]);
+  });
+});
+
+describe("groupCollection", () => {
+  const items = [
+    photo("a", { album: "Trips", tags: ["sea", "family"], rating: 3, timestamp: new Date(2024, 4, 10).getTime() }),
+    photo("b", { tags: ["family"], timestamp: new Date(2024, 6, 1).getTime() }),
+    photo("c", { album: "Home", rating: 5, timestamp: new Date(2024, 4, 20).getTime() }),
+  ];
+
+  it("returns everything in one group for NONE", () => {
+    expect(groupCollection(items, CollectionGroup.NONE)).toEqual([{ key: "all", label: "All Photos", items }]);
+  });
+
+  it("sorts groups by label and puts the ungrouped ones last", () => {
+    const groups = groupCollection(items, CollectionGroup.ALBUM);
+    expect(groups.map(g => g.label)).toEqual(["Home", "Trips", "No Album"]);
+    expect(ids(groups[2].items)).toEqual(["b"]);
+  });
+
+  it("lists a photo under each of its tags", () => {
+    const groups = groupCollection(items, CollectionGroup.TAG);
+    expect(groups.map(g => [g.label, ids(g.items)])).toEqual([["#family", ["a", "b"]], ["#sea", ["a"]], ["Untagged", ["c"]]]);
+  });
+
+  it("puts the newest month and the highest rating first", () => {
+    expect(groupCollection(items, CollectionGroup.MONTH).map(g => g.key)).toEqual(["2024-07", "2024-05"]);
+    expect(groupCollection(items, CollectionGroup.RATING).map(g => g.label)).toEqual(["★★★★★", "★★★", "Unrated"]);
+  });
+});
+
+describe("applyCollectionEdit", () => {
+  const item = photo("a", { name: "Old", album: "Trips", tags: ["sea", "family"], rating: 2 });
+
+  it("renames, moves and rates without touching the original item", () => {
+    const updated = applyCollectionEdit(item, { name: "  New  ", album: " Home ", rating: 9 });
+    expect(updated).toMatchObject({ name: "New", album: "Home", rating: 5 });
+    expect(item).toMatchObject({ name: "Old", album: "Trips", rating: 2 });
+  });
+
+  it("ignores a blank name and clears the album and rating", () => {
+    expect(applyCollectionEdit(item, { name: " ", album: null, rating: 0 })).toMatchObject({ name: "Old", album: undefined, rating: undefined });
+  });
+
+  it("adds and removes tags without duplicates", () => {
+    expect(applyCollectionEdit(item, { addTags: parseTags("Sea, Sunset"), removeTags: ["family"] }).tags).toEqual(["sea", "sunset"]);
+    expect(applyCollectionEdit(item, { removeTags: ["sea", "family"] }).tags).toBeUndefined();
+  });
+});
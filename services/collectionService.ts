@@ -0,0 +1,212 @@
+import { CollectionEdit, CollectionGroup, CollectionGroupResult, CollectionQuery, CollectionSort, PhotoItem, SceneCategory } from "../types";
+
+// Filtering, sorting, grouping and bulk edits for the collection grids.
+// Everything here is pure; App persists the edited items.
+
+export const defaultCollectionQuery: CollectionQuery = {
+  search: "",
+  sort: CollectionSort.NEWEST,
+  group: CollectionGroup.NONE,
+  album: null,
+  tag: null,
+  minRating: 0,
+};
+
+export const MAX_RATING = 5;
+
+// Tags are compared case-insensitively, so they are stored lowercase
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, " ");
+
+// "beach, Summer 2024,, sunset" -> ["beach", "summer 2024", "sunset"]
+export const parseTags = (input: string): string[] =>
+  [...new Set(input.split(",").map(normalizeTag).filter(Boolean))];
+
+const byName = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: "base", numeric: true });
+
+// Every album / tag in use, alphabetically
+export const getAlbums = (items: PhotoItem[]): string[] =>
+  [...new Set(items.map(item => item.album).filter((album): album is string => !!album))].sort(byName);
+
+export const getTags = (items: PhotoItem[]): string[] =>
+  [...new Set(items.flatMap(item => item.tags || []))].sort(byName);
+
+// --- SEARCH ---
+// Plain-language search ("beach at sunset with people"): filler words are
+// dropped, plurals folded, and each remaining word also matches a few related
+// words. Photos are ranked by how many words they match; at least half must.
+
+const STOP_WORDS = new Set([
+  "a", "an", "the", "and", "or", "of", "in", "on", "at", "with", "without", "by", "for", "to", "from",
+  "near", "some", "my", "me", "show", "find", "all", "any", "photo", "photos", "picture", "pictures", "image", "images", "shot", "shots",
+]);
+
+const RELATED: Record<string, string[]> = {
+  people: ["person", "man", "woman", "child", "kid", "crowd", "family", "friend", "couple", "face", "portrait"],
+  beach: ["sea", "ocean", "shore", "coast", "sand", "wave"],
+  sunset: ["sunrise", "dusk", "dawn", "golden hour", "evening"],
+  night: ["dark", "evening", "low key", "stars"],
+  city: ["urban", "street", "building", "skyline", "architecture"],
+  nature: ["landscape", "forest", "tree", "mountain", "field", "foliage"],
+  forest: ["wood", "tree", "foliage"],
+  mountain: ["hill", "peak", "alp"],
+  water: ["lake", "river", "sea", "ocean", "waterfall"],
+  food: ["meal", "dish", "dinner", "lunch", "breakfast"],
+  dog: ["puppy"],
+  cat: ["kitten"],
+  snow: ["winter", "ice"],
+  "black and white": ["monochrome", "grayscale"],
+};
+RELATED.person = RELATED.people;
+RELATED.portrait = RELATED.people;
+RELATED.urban = RELATED.city;
+
+// Crude plural folding, applied to both sides so it only has to be consistent
+const stem = (word: string) =>
+  word.length <= 3 ? word : word.replace(/ies$/, "y").replace(/(ches|shes|xes|ses)$/, (m) => m.slice(0, -2)).replace(/([^s])s$/, "$1");
+
+const toWords = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).map(stem);
+
+const sceneLabels: Record<SceneCategory, string> = {
+  [SceneCategory.NATURE]: "Nature",
+  [SceneCategory.URBAN]: "City / Urban",
+  [SceneCategory.PORTRAIT]: "Portrait",
+  [SceneCategory.OTHER]: "Other",
+};
+
+export const getSceneLabel = (scene: SceneCategory) => sceneLabels[scene];
+
+const searchableText = (item: PhotoItem) => [
+  item.name, item.album, item.prompt, item.metadata?.description,
+  ...(item.tags || []), ...(item.metadata?.keywords || []),
+  item.autoTags?.caption, ...(item.autoTags?.tags || []), item.autoTags ? sceneLabels[item.autoTags.scene] : undefined,
+].filter(Boolean).join(" ").toLowerCase();
+
+// Search terms, keeping known multi-word phrases ("black and white") together
+export const parseSearch = (search: string): string[] => {
+  let text = ` ${search.toLowerCase().replace(/[^a-z0-9]+/g, " ")} `;
+  const phrases = Object.keys(RELATED).filter(key => key.includes(" ") && text.includes(` ${key} `));
+  phrases.forEach(phrase => { text = text.replace(` ${phrase} `, " "); });
+  return [...phrases, ...text.split(" ").filter(word => word && !STOP_WORDS.has(word))];
+};
+
+// 2 per term found as-is (or as the start of a word), 1 per term matched through a related word
+const scoreItem = (text: string, terms: string[]) => {
+  const words = toWords(text);
+  const joined = ` ${words.join(" ")} `;
+  const has = (term: string) => {
+    const stemmed = toWords(term).join(" ");
+    return term.includes(" ") ? joined.includes(` ${stemmed} `) : words.some(word => word === stemmed || (stemmed.length >= 3 && word.startsWith(stemmed)));
+  };
+  let score = 0;
+  let matched = 0;
+  terms.forEach(term => {
+    if (has(term)) {
+      score += 2;
+      matched++;
+    } else if ((RELATED[term] || RELATED[stem(term)] || []).some(has)) {
+      score += 1;
+      matched++;
+    }
+  });
+  return { score, matched };
+};
+
+// --- QUERY ---
+
+const comparators: Record<CollectionSort, (a: PhotoItem, b: PhotoItem) => number> = {
+  [CollectionSort.NEWEST]: (a, b) => b.timestamp - a.timestamp,
+  [CollectionSort.OLDEST]: (a, b) => a.timestamp - b.timestamp,
+  [CollectionSort.NAME]: (a, b) => byName(a.name, b.name),
+  [CollectionSort.RATING]: (a, b) => (b.rating || 0) - (a.rating || 0) || b.timestamp - a.timestamp,
+};
+
+// Filters and sorts; with a search, the best matches come first
+export const queryCollection = (items: PhotoItem[], query: CollectionQuery): PhotoItem[] => {
+  const filtered = items
+    .filter(item =>
+      (query.album === null || item.album === query.album) &&
+      (query.tag === null || !!item.tags?.includes(query.tag)) &&
+      (item.rating || 0) >= query.minRating)
+    .sort(comparators[query.sort]);
+
+  const terms = parseSearch(query.search);
+  if (terms.length === 0) return filtered;
+  const needed = Math.ceil(terms.length / 2);
+  const scores = new Map(filtered.map(item => [item.id, scoreItem(searchableText(item), terms)]));
+  return filtered
+    .filter(item => scores.get(item.id)!.matched >= needed)
+    .sort((a, b) => scores.get(b.id)!.score - scores.get(a.id)!.score); // Stable, so ties keep the chosen sort
+};
+
+export const isDefaultQuery = (query: CollectionQuery) =>
+  !query.search.trim() && query.album === null && query.tag === null && query.minRating === 0;
+
+// --- GROUPING ---
+
+const monthKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+};
+
+const monthLabel = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { year: "numeric", month: "long" });
+
+// Splits already sorted items into groups, keeping their order within each
+// group. Photos without an album / tag / rating go into a last "No ..." group.
+export const groupCollection = (items: PhotoItem[], group: CollectionGroup): CollectionGroupResult[] => {
+  if (group === CollectionGroup.NONE) return [{ key: "all", label: "All Photos", items }];
+
+  const groups = new Map<string, CollectionGroupResult>();
+  const add = (key: string, label: string, item: PhotoItem) => {
+    if (!groups.has(key)) groups.set(key, { key, label, items: [] });
+    groups.get(key)!.items.push(item);
+  };
+
+  items.forEach(item => {
+    switch (group) {
+      case CollectionGroup.ALBUM:
+        if (item.album) add(`album:${item.album}`, item.album, item);
+        else add("none", "No Album", item);
+        break;
+      case CollectionGroup.TAG:
+        if (item.tags?.length) item.tags.forEach(tag => add(`tag:${tag}`, `#${tag}`, item));
+        else add("none", "Untagged", item);
+        break;
+      case CollectionGroup.MONTH:
+        add(monthKey(item.timestamp), monthLabel(item.timestamp), item);
+        break;
+      case CollectionGroup.RATING:
+        if (item.rating) add(`rating:${item.rating}`, "★".repeat(item.rating), item);
+        else add("none", "Unrated", item);
+        break;
+      case CollectionGroup.SCENE:
+        if (item.autoTags) add(`scene:${item.autoTags.scene}`, sceneLabels[item.autoTags.scene], item);
+        else add("none", "Not auto-tagged", item);
+        break;
+    }
+  });
+
+  const sorted = [...groups.values()].filter(g => g.key !== "none");
+  if (group === CollectionGroup.MONTH || group === CollectionGroup.RATING) {
+    sorted.sort((a, b) => byName(b.key, a.key));
+  } else {
+    sorted.sort((a, b) => byName(a.label, b.label));
+  }
+  const ungrouped = groups.get("none");
+  return ungrouped ? [...sorted, ungrouped] : sorted;
+};
+
+// --- EDITS ---
+
+export const applyCollectionEdit = (item: PhotoItem, edit: CollectionEdit): PhotoItem => {
+  const updated = { ...item };
+  if (edit.name !== undefined && edit.name.trim()) updated.name = edit.name.trim();
+  if (edit.album !== undefined) updated.album = edit.album?.trim() || undefined;
+  if (edit.rating !== undefined) updated.rating = edit.rating > 0 ? Math.min(MAX_RATING, Math.round(edit.rating)) : undefined;
+  if (edit.addTags?.length || edit.removeTags?.length) {
+    const removed = new Set(edit.removeTags || []);
+    const tags = [...new Set([...(item.tags || []), ...(edit.addTags || [])])].filter(tag => !removed.has(tag));
+    updated.tags = tags.length > 0 ? tags : undefined;
+  }
+  return updated;
+};
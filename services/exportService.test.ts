@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { blobFormat, formatFilename } from "./exportService";
+import { defaultSettings } from "../constants";
+import { ExportFormat, PhotoItem } from "../types";
+
+const item = (name: string): PhotoItem => ({
+  id: "1",
+  originalUrl: "data:,",
+  name,
+  timestamp: new Date(2024, 5, 7, 9, 5, 3).getTime(),
+  settings: defaultSettings,
+});
+
+describe("formatFilename", () => {
+  it("expands every token", () => {
+    expect(formatFilename("{name}-{date}-{time}-{index}", item("Harbour"), 4, 120, ExportFormat.JPEG))
+      .toBe("harbour-2024-06-07-090503-005.jpg");
+  });
+
+  it("drops the original extension from the name only", () => {
+    expect(formatFilename("{name}", item("IMG_0042.HEIC"), 0, 1, ExportFormat.PNG)).toBe("img_0042.png");
+    expect(formatFilename("{name}-v1.5", item("Harbour.jpg"), 0, 1, ExportFormat.WEBP)).toBe("harbour-v1.5.webp");
+    expect(formatFilename("{name}", item("Harbour v1.5"), 0, 1, ExportFormat.JPEG)).toBe("harbour-v1.5.jpg");
+  });
+
+  it("removes characters that aren't allowed in filenames", () => {
+    expect(formatFilename("{name}", item('a/b:c*"d"'), 0, 1, ExportFormat.JPEG)).toBe("abcd.jpg");
+    expect(formatFilename("{name}", item("???"), 0, 1, ExportFormat.JPEG)).toBe("photo.jpg");
+  });
+});
+
+describe("blobFormat", () => {
+  it("uses the type the browser actually encoded", () => {
+    expect(blobFormat(new Blob([], { type: "image/png" }), ExportFormat.WEBP)).toBe(ExportFormat.PNG);
+    expect(blobFormat(new Blob([], { type: "image/webp" }), ExportFormat.WEBP)).toBe(ExportFormat.WEBP);
+  });
+
+  it("keeps the requested format when the type is missing or unknown", () => {
+    expect(blobFormat(new Blob([]), ExportFormat.JPEG)).toBe(ExportFormat.JPEG);
+    expect(blobFormat(new Blob([], { type: "image/bmp" }), ExportFormat.WEBP)).toBe(ExportFormat.WEBP);
+  });
+});
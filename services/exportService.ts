@@ -0,0 +1,188 @@
+import { ExportFormat, ExportOptions, MetadataMode, PhotoItem, ResizeMode } from "../types";
+import { loadImage, renderFiltered } from "./filterService";
+import { createZip } from "./zipService";
+import { applyExportMetadata } from "./metadataService";
+
+const STORAGE_KEY = "bananalens.exportOptions";
+
+export const defaultExportOptions: ExportOptions = {
+  format: ExportFormat.JPEG,
+  quality: 90,
+  resizeMode: ResizeMode.ORIGINAL,
+  longEdge: 2048,
+  percent: 50,
+  filenameTemplate: "bananalens-{name}",
+  metadata: MetadataMode.REMOVE_LOCATION,
+};
+
+export const formatExtensions: Record<ExportFormat, string> = {
+  [ExportFormat.JPEG]: "jpg",
+  [ExportFormat.PNG]: "png",
+  [ExportFormat.WEBP]: "webp",
+};
+
+// Tokens available in filename templates, shown in the export dialog
+export const filenameTokens = ["{name}", "{date}", "{time}", "{index}"];
+
+export const loadExportOptions = (): ExportOptions => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    return saved ? { ...defaultExportOptions, ...saved } : defaultExportOptions;
+  } catch {
+    return defaultExportOptions;
+  }
+};
+
+export const saveExportOptions = (options: ExportOptions) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+};
+
+// --- FILENAMES ---
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+// Only known image extensions, so a name like "harbour v1.5" keeps its ".5"
+const IMAGE_EXTENSION = /\.(jpe?g|png|webp|gif|avif|hei[cf]|tiff?|bmp)$/i;
+
+const sanitize = (name: string) =>
+  name
+    .replace(/[\\/:*?"<>|\x00-\x1f]+/g, "") // characters not allowed in filenames
+    .replace(/\s+/g, "-")
+    .toLowerCase();
+
+// Expands a template like "{name}-{date}" for one photo. `index` is 0-based;
+// {index} is 1-based and zero-padded to the batch size.
+export const formatFilename = (template: string, item: PhotoItem, index: number, total: number, format: ExportFormat) => {
+  const date = new Date(item.timestamp);
+  const tokens: Record<string, string> = {
+    "{name}": sanitize(item.name.replace(IMAGE_EXTENSION, "")), // Drop the original extension
+    "{date}": `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    "{time}": `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+    "{index}": pad(index + 1, String(total).length),
+  };
+  const base = sanitize(template.replace(/\{(name|date|time|index)\}/g, token => tokens[token])) || "photo";
+  return `${base}.${formatExtensions[format]}`;
+};
+
+// Appends -2, -3... so files in one ZIP never overwrite each other
+const uniqueName = (name: string, used: Set<string>) => {
+  let candidate = name;
+  const dot = name.lastIndexOf(".");
+  for (let n = 2; used.has(candidate); n++) {
+    candidate = `${name.slice(0, dot)}-${n}${name.slice(dot)}`;
+  }
+  used.add(candidate);
+  return candidate;
+};
+
+// --- RENDERING ---
+
+// Target long edge in px, or undefined for full size. Never upscales.
+export const getExportLongEdge = (options: ExportOptions, width: number, height: number): number | undefined => {
+  const longEdge = Math.max(width, height);
+  switch (options.resizeMode) {
+    case ResizeMode.LONG_EDGE:
+      return Math.min(longEdge, Math.max(1, options.longEdge));
+    case ResizeMode.PERCENT:
+      return Math.max(1, Math.round((longEdge * Math.min(100, Math.max(1, options.percent))) / 100));
+    default:
+      return undefined;
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: ExportFormat, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error("Could not encode image."))),
+      format,
+      format === ExportFormat.PNG ? undefined : Math.min(100, Math.max(1, quality)) / 100
+    );
+  });
+
+// The format the browser actually encoded. Browsers that can't encode the
+// requested type (Safari and WebP) fall back to PNG without saying so.
+export const blobFormat = (blob: Blob, requested: ExportFormat): ExportFormat =>
+  (Object.values(ExportFormat) as string[]).includes(blob.type) ? blob.type as ExportFormat : requested;
+
+// Renders one photo through the same pipeline as the preview, encodes it and
+// writes its metadata as `options.metadata` allows. `format` is the one the
+// file really has, which may differ from `options.format` (see blobFormat).
+export const renderForExport = async (item: PhotoItem, options: ExportOptions): Promise<{ data: Blob; format: ExportFormat }> => {
+  const img = await loadImage(item.originalUrl);
+  const maxEdge = getExportLongEdge(options, img.naturalWidth, img.naturalHeight);
+  const canvas = renderFiltered(document.createElement("canvas"), img, item.settings, maxEdge, item.lut);
+
+  if (options.format === ExportFormat.JPEG) {
+    // JPEG has no alpha: flatten transparent areas onto white instead of black
+    const ctx = canvas.getContext("2d")!;
+    ctx.globalCompositeOperation = "destination-over";
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  const blob = await canvasToBlob(canvas, options.format, options.quality);
+  const format = blobFormat(blob, options.format);
+  if (format !== options.format) console.warn(`This browser can't encode ${options.format}, exported ${format} instead`);
+  const data = await applyExportMetadata(blob, format, canvas, options.metadata, item.metadata, {
+    settings: item.settings,
+    prompt: item.prompt,
+  });
+  return { data, format };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.download = filename;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export interface ExportProgress {
+  done: number;
+  total: number;
+  failed: string[]; // names of photos that could not be rendered
+  substituted?: ExportFormat; // Set when the browser wrote this format instead of the requested one
+}
+
+// Exports one photo as a single file, or several as one ZIP. Photos that fail
+// to render are skipped and reported; throws only if nothing could be exported.
+export const exportPhotos = async (
+  items: PhotoItem[],
+  options: ExportOptions,
+  onProgress: (progress: ExportProgress) => void
+): Promise<ExportProgress> => {
+  const progress: ExportProgress = { done: 0, total: items.length, failed: [] };
+  const used = new Set<string>();
+  const files: { name: string; data: Blob; modified: Date }[] = [];
+
+  onProgress({ ...progress });
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    try {
+      const { data, format } = await renderForExport(item, options);
+      if (format !== options.format) progress.substituted = format;
+      const name = uniqueName(formatFilename(options.filenameTemplate, item, i, items.length, format), used);
+      files.push({ name, data, modified: new Date(item.timestamp) });
+    } catch (error) {
+      console.error("Failed to export", item.name, error);
+      progress.failed.push(item.name);
+    }
+    progress.done = i + 1;
+    onProgress({ ...progress });
+  }
+
+  if (files.length === 0) throw new Error("None of the selected photos could be exported.");
+
+  if (items.length === 1) {
+    downloadBlob(files[0].data, files[0].name);
+  } else {
+    const date = new Date();
+    const zip = await createZip(files);
+    downloadBlob(zip, `bananalens-export-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.zip`);
+  }
+  return progress;
+};
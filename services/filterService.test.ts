@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { applyFilters, applyGaussianBlur, getBlurSigma, isIdentitySettings, PixelBuffer } from "./filterService";
+import { defaultSettings } from "../constants";
+import { FilterSettings } from "../types";
+
+const pixels = (...rgb: number[][]): PixelBuffer => {
+  const data = new Uint8ClampedArray(rgb.length * 4);
+  rgb.forEach(([r, g, b], i) => data.set([r, g, b, 255], i * 4));
+  return { data, width: rgb.length, height: 1 };
+};
+
+const flat = (width: number, height: number, rgba: number[]): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+  return { data, width, height };
+};
+
+const rgbOf = (buffer: PixelBuffer, pixel = 0) => Array.from(buffer.data.slice(pixel * 4, pixel * 4 + 3));
+
+const render = (buffer: PixelBuffer, changes: Partial<FilterSettings>) => {
+  applyFilters(buffer, { ...defaultSettings, ...changes });
+  return buffer;
+};
+
+describe("applyFilters", () => {
+  it("leaves pixels unchanged with the default settings", () => {
+    const source = pixels([0, 0, 0], [255, 255, 255], [12, 200, 99], [128, 64, 32]);
+    const before = Array.from(source.data);
+    expect(isIdentitySettings(defaultSettings)).toBe(true);
+    expect(Array.from(render(source, {}).data)).toEqual(before);
+  });
+
+  it("scales by brightness and clamps at white", () => {
+    expect(rgbOf(render(pixels([100, 50, 200]), { brightness: 150 }))).toEqual([150, 75, 255]);
+    expect(rgbOf(render(pixels([100, 50, 200]), { brightness: 0 }))).toEqual([0, 0, 0]);
+  });
+
+  it("pulls values towards mid grey with low contrast", () => {
+    const result = render(pixels([0, 100, 255]), { contrast: 50 });
+    expect(rgbOf(result)).toEqual([64, 114, 191]);
+  });
+
+  it("desaturates with the luma weights", () => {
+    // 0.213 * 255 = 54.3
+    expect(rgbOf(render(pixels([255, 0, 0]), { saturation: 0 }))).toEqual([54, 54, 54]);
+    const grey = rgbOf(render(pixels([10, 128, 240]), { saturation: 0 }));
+    expect(new Set(grey).size).toBe(1);
+  });
+
+  it("rotates hue and treats a full turn as no change", () => {
+    // Red rotated 180 degrees: 0.426 * 255 = 108.6 on green and blue
+    expect(rgbOf(render(pixels([255, 0, 0]), { hueRotate: 180 }))).toEqual([0, 109, 109]);
+    expect(rgbOf(render(pixels([30, 60, 90]), { hueRotate: 360 }))).toEqual([30, 60, 90]);
+  });
+
+  it("keeps alpha as it is", () => {
+    const source = pixels([100, 100, 100]);
+    source.data[3] = 40;
+    render(source, { brightness: 200, saturation: 0, warmth: 50 });
+    expect(source.data[3]).toBe(40);
+  });
+});
+
+describe("blur", () => {
+  it("keeps a flat image flat", () => {
+    const source = flat(16, 9, [120, 60, 30, 255]);
+    render(source, { blur: 20 });
+    const values = new Set(Array.from(source.data));
+    expect([...values].sort((a, b) => a - b)).toEqual([30, 60, 120, 255]);
+  });
+
+  it("scales sigma with the image's long edge", () => {
+    const settings = { ...defaultSettings, blur: 2 };
+    expect(getBlurSigma(settings, 500, 250)).toBe(1);
+    expect(getBlurSigma(settings, 1000, 2000)).toBe(4);
+    expect(getBlurSigma(defaultSettings, 4000, 3000)).toBe(0);
+  });
+
+  it("blurs a half-size copy the same as the full-size image, relative to its size", () => {
+    // Black-to-white step in the middle of a row
+    const step = (width: number) => {
+      const buffer = flat(width, 1, [0, 0, 0, 255]);
+      for (let x = width / 2; x < width; x++) buffer.data.set([255, 255, 255, 255], x * 4);
+      return buffer;
+    };
+    const full = render(step(400), { blur: 10 });
+    const half = render(step(200), { blur: 10 });
+    // The same relative position sits at the same point on the ramp
+    for (const fraction of [0.45, 0.48, 0.52, 0.55]) {
+      expect(Math.abs(full.data[Math.round(400 * fraction) * 4] - half.data[Math.round(200 * fraction) * 4])).toBeLessThanOrEqual(6);
+    }
+    expect(full.data[0]).toBe(0);
+    expect(full.data[399 * 4]).toBe(255);
+  });
+
+  it("does nothing below half a pixel", () => {
+    const source = pixels([0, 0, 0], [255, 255, 255]);
+    const before = Array.from(source.data);
+    applyGaussianBlur(source, 0.4);
+    expect(Array.from(source.data)).toEqual(before);
+  });
+});
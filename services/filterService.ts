@@ -0,0 +1,286 @@
+import { FilterSettings, Lut3D, LutStage } from "../types";
+import { applyLut, createIdentityLut } from "./lutService";
+import { applyTone, isIdentityTone } from "./toneService";
+import { defaultSettings } from "../constants";
+
+// Single rendering path for FilterSettings. The preview, the collection/export
+// thumbnails and the exported file all go through applyFilters(), so what you
+// see is exactly what you download (and no browser support for ctx.filter is needed).
+//
+// The first half of this file is pure pixel math with no DOM access, so it can
+// run on ImageData-shaped fixtures in Node or a Worker. Canvas glue lives at the bottom.
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray; // RGBA, 4 bytes per pixel (same layout as ImageData)
+  width: number;
+  height: number;
+}
+
+// Blur is expressed relative to an image whose long edge is this many pixels,
+// so a downscaled preview and the full-size export look the same.
+export const BLUR_REFERENCE_EDGE = 1000;
+
+// --- COLOR TEMPERATURE / TINT ---
+//   warmth > 0 boosts red and cuts blue (warmer), < 0 does the opposite.
+//   tint   > 0 cuts green (magenta shift),      < 0 boosts green.
+const WARMTH_STRENGTH = 0.25; // max +/- gain on red/blue at warmth = +/-100
+const TINT_STRENGTH = 0.2;    // max +/- gain on green at tint = +/-100
+
+export const getChannelGains = (s: FilterSettings): [number, number, number] => {
+  const w = (s.warmth || 0) / 100;
+  const t = (s.tint || 0) / 100;
+  return [
+    1 + w * WARMTH_STRENGTH,
+    1 - t * TINT_STRENGTH,
+    1 - w * WARMTH_STRENGTH,
+  ];
+};
+
+// --- COLOR MATRICES ---
+// 3x3 row-major matrices, coefficients from the CSS Filter Effects spec so
+// results match what the old CSS filter chain produced.
+type Matrix3 = [number, number, number, number, number, number, number, number, number];
+
+const saturateMatrix = (amount: number): Matrix3 => {
+  const s = amount;
+  return [
+    0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s,
+  ];
+};
+
+const sepiaMatrix = (amount: number): Matrix3 => {
+  const a = 1 - Math.min(1, amount);
+  return [
+    0.393 + 0.607 * a, 0.769 - 0.769 * a, 0.189 - 0.189 * a,
+    0.349 - 0.349 * a, 0.686 + 0.314 * a, 0.168 - 0.168 * a,
+    0.272 - 0.272 * a, 0.534 - 0.534 * a, 0.131 + 0.869 * a,
+  ];
+};
+
+const grayscaleMatrix = (amount: number): Matrix3 => {
+  const a = 1 - Math.min(1, amount);
+  return [
+    0.2126 + 0.7874 * a, 0.7152 - 0.7152 * a, 0.0722 - 0.0722 * a,
+    0.2126 - 0.2126 * a, 0.7152 + 0.2848 * a, 0.0722 - 0.0722 * a,
+    0.2126 - 0.2126 * a, 0.7152 - 0.7152 * a, 0.0722 + 0.9278 * a,
+  ];
+};
+
+const hueRotateMatrix = (degrees: number): Matrix3 => {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+  ];
+};
+
+const clamp255 = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : v);
+
+// Per-pixel stages in CSS order: brightness, contrast, saturate, sepia,
+// grayscale, hue-rotate, then warmth/tint. Each stage clamps like CSS does.
+export const applyColorAdjustments = (buffer: PixelBuffer, s: FilterSettings) => {
+  const brightness = s.brightness / 100;
+  const contrast = s.contrast / 100;
+  const contrastOffset = 255 * (0.5 - 0.5 * contrast);
+
+  const matrices: Matrix3[] = [];
+  if (s.saturation !== 100) matrices.push(saturateMatrix(s.saturation / 100));
+  if (s.sepia > 0) matrices.push(sepiaMatrix(s.sepia / 100));
+  if (s.grayscale > 0) matrices.push(grayscaleMatrix(s.grayscale / 100));
+  if (s.hueRotate % 360 !== 0) matrices.push(hueRotateMatrix(s.hueRotate));
+
+  const [gainR, gainG, gainB] = getChannelGains(s);
+  const hasGains = gainR !== 1 || gainG !== 1 || gainB !== 1;
+
+  const data = buffer.data;
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i];
+    let g = data[i + 1];
+    let b = data[i + 2];
+
+    if (brightness !== 1) {
+      r = clamp255(r * brightness);
+      g = clamp255(g * brightness);
+      b = clamp255(b * brightness);
+    }
+    if (contrast !== 1) {
+      r = clamp255(r * contrast + contrastOffset);
+      g = clamp255(g * contrast + contrastOffset);
+      b = clamp255(b * contrast + contrastOffset);
+    }
+    for (let m = 0; m < matrices.length; m++) {
+      const x = matrices[m];
+      const nr = x[0] * r + x[1] * g + x[2] * b;
+      const ng = x[3] * r + x[4] * g + x[5] * b;
+      const nb = x[6] * r + x[7] * g + x[8] * b;
+      r = clamp255(nr);
+      g = clamp255(ng);
+      b = clamp255(nb);
+    }
+    if (hasGains) {
+      r = r * gainR;
+      g = g * gainG;
+      b = b * gainB;
+    }
+
+    // Uint8ClampedArray rounds and clamps on write
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+};
+
+// --- BLUR ---
+// Gaussian approximated by three box blurs (separable, O(n) regardless of radius).
+const boxSizesForGauss = (sigma: number, n: number): number[] => {
+  const wIdeal = Math.sqrt((12 * sigma * sigma) / n + 1);
+  let wl = Math.floor(wIdeal);
+  if (wl % 2 === 0) wl--;
+  const wu = wl + 2;
+  const mIdeal = (12 * sigma * sigma - n * wl * wl - 4 * n * wl - 3 * n) / (-4 * wl - 4);
+  const m = Math.round(mIdeal);
+  const sizes: number[] = [];
+  for (let i = 0; i < n; i++) sizes.push(i < m ? wl : wu);
+  return sizes;
+};
+
+// One horizontal (or vertical, via strides) box pass over all 4 channels, edges clamped
+const boxBlurPass = (
+  src: Float32Array, dst: Float32Array,
+  lines: number, length: number,
+  lineStride: number, pixelStride: number,
+  radius: number
+) => {
+  const scale = 1 / (radius * 2 + 1);
+  for (let line = 0; line < lines; line++) {
+    const base = line * lineStride;
+    for (let c = 0; c < 4; c++) {
+      const at = (p: number) => src[base + Math.min(length - 1, Math.max(0, p)) * pixelStride + c];
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) acc += at(k);
+      for (let p = 0; p < length; p++) {
+        dst[base + p * pixelStride + c] = acc * scale;
+        acc += at(p + radius + 1) - at(p - radius);
+      }
+    }
+  }
+};
+
+// sigma is in pixels of this buffer
+export const applyGaussianBlur = (buffer: PixelBuffer, sigma: number) => {
+  if (sigma < 0.5) return;
+  const { width, height, data } = buffer;
+  const a = Float32Array.from(data);
+  const b = new Float32Array(data.length);
+
+  for (const size of boxSizesForGauss(sigma, 3)) {
+    const radius = (size - 1) / 2;
+    boxBlurPass(a, b, height, width, width * 4, 4, radius);  // rows
+    boxBlurPass(b, a, width, height, 4, width * 4, radius);  // columns
+  }
+
+  data.set(a);
+};
+
+// Converts FilterSettings.blur into a sigma for a buffer of the given size
+export const getBlurSigma = (s: FilterSettings, width: number, height: number) =>
+  (s.blur || 0) * Math.max(width, height) / BLUR_REFERENCE_EDGE;
+
+// --- PIPELINE ---
+// Applies every FilterSettings field to the buffer in place (sliders, then levels
+// and curves), then the optional LUT grade.
+// Blur runs last, after color, matching the order of the old CSS chain
+// (color ops are per pixel, so running them before or after blur differs only by clamping).
+export const applyFilters = (buffer: PixelBuffer, s: FilterSettings, lut?: LutStage | null) => {
+  applyColorAdjustments(buffer, s);
+  applyTone(buffer, s.tone);
+  if (lut) applyLut(buffer, lut);
+  applyGaussianBlur(buffer, getBlurSigma(s, buffer.width, buffer.height));
+};
+
+// True when applyFilters would leave every pixel as it is
+export const isIdentitySettings = (s: FilterSettings) =>
+  (Object.keys(defaultSettings) as (keyof FilterSettings)[]).every(key => key === "tone" || s[key] === defaultSettings[key]) &&
+  isIdentityTone(s.tone);
+
+// Bakes the per-pixel part of the pipeline (everything except blur, which is
+// spatial) into a 3D LUT for use in other tools. Values pass through the same
+// 8-bit buffer as a real image, so the result matches the export up to rounding.
+export const bakeLut = (s: FilterSettings, lut?: LutStage | null, size = 33, title = "BananaLens"): Lut3D => {
+  const baked = createIdentityLut(size, title);
+  const count = size * size * size;
+  const buffer: PixelBuffer = { data: new Uint8ClampedArray(count * 4), width: count, height: 1 };
+  for (let i = 0; i < count; i++) {
+    buffer.data[i * 4] = baked.data[i * 3] * 255;
+    buffer.data[i * 4 + 1] = baked.data[i * 3 + 1] * 255;
+    buffer.data[i * 4 + 2] = baked.data[i * 3 + 2] * 255;
+    buffer.data[i * 4 + 3] = 255;
+  }
+
+  applyColorAdjustments(buffer, s);
+  applyTone(buffer, s.tone);
+  if (lut) applyLut(buffer, lut);
+
+  for (let i = 0; i < count; i++) {
+    baked.data[i * 3] = buffer.data[i * 4] / 255;
+    baked.data[i * 3 + 1] = buffer.data[i * 4 + 1] / 255;
+    baked.data[i * 3 + 2] = buffer.data[i * 4 + 2] / 255;
+  }
+  return baked;
+};
+
+// --- CANVAS HELPERS (browser only) ---
+
+export const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = url;
+  });
+
+// Draws `source` into `canvas` (optionally downscaled so the long edge is at most
+// maxEdge) and runs the filter pipeline on it.
+export const renderFiltered = (
+  canvas: HTMLCanvasElement,
+  source: HTMLImageElement | HTMLCanvasElement,
+  settings: FilterSettings,
+  maxEdge?: number,
+  lut?: LutStage | null
+) => {
+  const srcWidth = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const srcHeight = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const scale = maxEdge ? Math.min(1, maxEdge / Math.max(srcWidth, srcHeight)) : 1;
+
+  canvas.width = Math.max(1, Math.round(srcWidth * scale));
+  canvas.height = Math.max(1, Math.round(srcHeight * scale));
+
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  applyFilters(imageData, settings, lut);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+// Decodes an image URL (data or Blob URL) into pixels, downscaled so the long edge
+// is at most maxEdge. Used by the local analyzers, which don't need full resolution.
+export const loadPixels = async (url: string, maxEdge = 512): Promise<ImageData> => {
+  const img = await loadImage(url);
+  const scale = Math.min(1, maxEdge / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
@@ -1,8 +1,12 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { FilterSettings, AnalysisResult } from "../types";
+import { GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { AiImagePurpose, AnalysisResult, AspectRatio, EditingProvider, GenerativeEditResult, ProviderId, ProviderRequestOptions, ReferenceImage, SceneCategory, TaggingResult } from "../types";
+import { analyzeLocally } from "./localAnalyzer";
+import { AiAuthError, AiBadResponseError, AiQuotaError, AiSafetyError, isSafetyReason, runWithFallback } from "./aiErrors";
+import { validateAnalysisResult, validateTaggingResult } from "./validationService";
+import { payloadOf, prepareAiImage } from "./imagePayloadService";
 
 // Helper to convert Blob/File to Base64
-export const fileToGenerativePart = async (file: File): Promise<string> => {
+export const fileToGenerativePart = async (file: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onloadend = () => {
@@ -31,22 +35,85 @@ export const urlToBase64 = async (url: string): Promise<string> => {
   });
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Like urlToBase64, but keeps the "data:<mime>;base64," prefix so the result can
+// be used as an editor image (e.g. when opening a Blob URL from the collection).
+export const urlToDataUrl = async (url: string): Promise<string> => {
+  if (url.startsWith("data:")) return url;
+  const response = await fetch(url);
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+export const hasGeminiApiKey = (): boolean => {
+  const apiKey = process.env.API_KEY;
+  return !!apiKey && apiKey !== "undefined";
+};
+
+// Created on first use so the app can run (with another provider) without a key
+let client: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!hasGeminiApiKey()) {
+    throw new AiAuthError("Missing API key. Set API_KEY to use Gemini, or switch to the offline provider in Settings.");
+  }
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+// Throws AiSafetyError if the prompt or the first candidate was blocked
+const assertNotBlocked = (response: GenerateContentResponse, model: string) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new AiSafetyError(blockReason, model);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (isSafetyReason(finishReason)) throw new AiSafetyError(finishReason, model);
+};
 
 // --- CAST A SPELL (Analysis) ---
+
+// Strategy: Try Standard Flash first, if Quota fails, try Flash Lite.
+// Also used for auto-tagging.
+const ANALYSIS_MODELS = ["gemini-2.5-flash", "gemini-flash-lite-latest"];
+
+// Levels + curve for one channel of the optional `tone` suggestion
+const TONE_CHANNEL_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    levels: {
+      type: Type.OBJECT,
+      properties: {
+        black: { type: Type.NUMBER },
+        white: { type: Type.NUMBER },
+        gamma: { type: Type.NUMBER },
+      },
+    },
+    curve: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER } },
+        required: ["x", "y"],
+      },
+    },
+  },
+};
+
 export const analyzeImageAndGetSettings = async (
   imageBase64: string,
   userPrompt: string = "",
-  referenceImageBase64?: string
+  referenceImageBase64?: string,
+  options: ProviderRequestOptions = {}
 ): Promise<AnalysisResult> => {
+  // A small JPEG is plenty to judge exposure and colour
+  const image = await prepareAiImage(imageBase64, AiImagePurpose.ANALYSIS);
+  const reference = referenceImageBase64 ? await prepareAiImage(referenceImageBase64, AiImagePurpose.REFERENCE) : undefined;
+  const payload = payloadOf(reference ? [image, reference] : [image]);
 
-  // Strategy: Try Standard Flash first, if Quota fails, try Flash Lite.
-  const modelsToTry = ["gemini-2.5-flash", "gemini-flash-lite-latest"];
-
-  let lastError;
-
-  for (const model of modelsToTry) {
-    try {
+  try {
+    return await runWithFallback(ANALYSIS_MODELS, async (model) => {
       console.log(`Analyzing with model: ${model}`);
       
       let promptText = `
@@ -58,6 +125,7 @@ export const analyzeImageAndGetSettings = async (
         If the photo is Nature: Enhance saturation slightly, balance exposure for dynamic range.
         If the photo is City/Urban: Enhance contrast, clarity (via contrast), maybe cool tones or gritty look.
         If the photo is Portrait: Focus on skin tones (warmth), soft contrast.
+        Correct any color cast with warmth (blue/amber) and tint (green/magenta).
         
         USER INSTRUCTION: ${userPrompt ? userPrompt : "Auto-enhance this image based on its content (Cast a spell)."}
         
@@ -71,21 +139,29 @@ export const analyzeImageAndGetSettings = async (
            - grayscale (0 to 100, default 0)
            - hueRotate (0 to 360, default 0)
            - blur (0 to 10, default 0. Only use if requested for artistic effect)
+           - warmth (-100 to 100, default 0. Color temperature: <0 cooler/bluer, >0 warmer/amber)
+           - tint (-100 to 100, default 0. <0 greener, >0 more magenta)
+           - tone (optional): levels and curves for what the sliders can't reach (shadows, highlights,
+             black/white points, per-channel color curves). An object with any of 'rgb', 'red', 'green', 'blue', each:
+               { levels: { black: 0-254, white: 1-255, gamma: 0.1-9.99 (1 neutral, >1 lifts midtones) },
+                 curve: [{ x, y }, ...] control points 0-255, x = input, y = output }
+             Example, lift shadows and roll off highlights: rgb curve [{x:0,y:12},{x:64,y:74},{x:192,y:198},{x:255,y:245}].
+             Omit it when the sliders are enough.
       `;
 
       const parts: any[] = [
-        { inlineData: { mimeType: "image/jpeg", data: imageBase64 } },
+        { inlineData: { mimeType: image.mimeType, data: image.data } },
         { text: promptText }
       ];
 
-      if (referenceImageBase64) {
+      if (reference) {
         parts.splice(1, 0, { 
-          inlineData: { mimeType: "image/jpeg", data: referenceImageBase64 } 
+          inlineData: { mimeType: reference.mimeType, data: reference.data } 
         });
         parts[2].text += " \n\nAlso, use the second image provided as a style reference/mood board.";
       }
 
-      const response = await ai.models.generateContent({
+      const response = await getClient().models.generateContent({
         model: model,
         contents: { parts: parts },
         config: {
@@ -104,87 +180,226 @@ export const analyzeImageAndGetSettings = async (
                   grayscale: { type: Type.NUMBER },
                   hueRotate: { type: Type.NUMBER },
                   blur: { type: Type.NUMBER },
+                  warmth: { type: Type.NUMBER },
+                  tint: { type: Type.NUMBER },
+                  tone: {
+                    type: Type.OBJECT,
+                    properties: {
+                      rgb: TONE_CHANNEL_SCHEMA,
+                      red: TONE_CHANNEL_SCHEMA,
+                      green: TONE_CHANNEL_SCHEMA,
+                      blue: TONE_CHANNEL_SCHEMA,
+                    },
+                  },
                 },
                 required: ["brightness", "contrast", "saturation"],
               }
             }
-          }
+          },
+          abortSignal: options.signal,
         }
       });
 
-      if (response.text) {
-        return JSON.parse(response.text) as AnalysisResult;
+      assertNotBlocked(response, model);
+      if (!response.text) {
+        throw new AiBadResponseError("The AI returned no analysis.", model);
       }
-    } catch (error: any) {
-      console.warn(`Model ${model} failed:`, error.message);
-      lastError = error;
-      // If error is NOT Quota/Service related (e.g. Bad Request), break immediately
-      if (!error.message.includes("429") && !error.message.includes("503") && !error.message.includes("Quota")) {
-         throw error;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(response.text);
+      } catch (error) {
+        throw new AiBadResponseError("The AI returned invalid JSON.", model, error);
       }
-      // Otherwise, loop to next model (Fallback)
+      try {
+        const { value, corrections } = validateAnalysisResult(parsed);
+        if (corrections.length > 0) console.warn(`Corrected ${model} response:`, corrections);
+        return { ...value, corrections, payload };
+      } catch (error: any) {
+        throw new AiBadResponseError(error.message, model, error);
+      }
+    }, { signal: options.signal });
+  } catch (error) {
+    // Every model is out of quota: fall back to the local rule-based analyzer
+    // rather than leaving the user with nothing.
+    if (error instanceof AiQuotaError && options.allowLocalFallback !== false) {
+      console.warn("All models out of quota, using local analysis");
+      const local = await analyzeLocally(imageBase64, userPrompt);
+      return { ...local, reasoning: `Gemini quota exceeded, so this was done offline. ${local.reasoning}` };
     }
+    throw error;
   }
+};
+
+// --- AUTO-TAG (Indexing) ---
+export const tagImageForSearch = async (
+  imageBase64: string,
+  mimeType: string = "image/jpeg",
+  options: ProviderRequestOptions = {}
+): Promise<TaggingResult> => {
+  const promptText = `
+    Describe this photo for a searchable photo library.
 
-  throw lastError || new Error("Failed to analyze image after retries.");
+    Return a JSON object with:
+    1. 'caption': One plain sentence describing what the photo shows (subject, setting, time of day).
+    2. 'tags': 5 to 15 lowercase keywords or short phrases someone might search for: subjects, objects,
+       number of people, setting, time of day, weather, season, dominant colours, mood.
+    3. 'scene': The kind of photo, one of ${Object.values(SceneCategory).join(", ")}
+       (NATURE = landscapes, plants, animals; URBAN = city, street, architecture; PORTRAIT = people are the subject).
+  `;
+  const image = await prepareAiImage(imageBase64, AiImagePurpose.TAGGING, mimeType);
+  const payload = payloadOf([image]);
+
+  return runWithFallback(ANALYSIS_MODELS, async (model) => {
+    console.log(`Tagging with model: ${model}`);
+
+    const response = await getClient().models.generateContent({
+      model: model,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: image.mimeType, data: image.data } },
+          { text: promptText },
+        ],
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            caption: { type: Type.STRING },
+            tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+            scene: { type: Type.STRING, enum: Object.values(SceneCategory) },
+          },
+          required: ["caption", "tags", "scene"],
+        },
+        abortSignal: options.signal,
+      },
+    });
+
+    assertNotBlocked(response, model);
+    if (!response.text) {
+      throw new AiBadResponseError("The AI returned no tags.", model);
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(response.text);
+    } catch (error) {
+      throw new AiBadResponseError("The AI returned invalid JSON.", model, error);
+    }
+    try {
+      const { value, corrections } = validateTaggingResult(parsed);
+      if (corrections.length > 0) console.warn(`Corrected ${model} tags:`, corrections);
+      return { ...value, model, corrections, payload };
+    } catch (error: any) {
+      throw new AiBadResponseError(error.message, model, error);
+    }
+  }, { signal: options.signal });
+};
+
+// --- IMAGE MODELS ---
+
+// Strategy: Try Nano Banana Pro first (Best Quality).
+// If it fails (Quota 429), Fallback to Flash Image (Fast/Free-er).
+const IMAGE_MODELS = ["gemini-3-pro-image-preview", "gemini-2.5-flash-image"];
+
+// Every image the model sent back, across all candidates
+const collectImages = (response: GenerateContentResponse, model: string): GenerativeEditResult => {
+  const parts = (response.candidates || [])
+    .flatMap(candidate => candidate.content?.parts || [])
+    .filter(part => !!part.inlineData?.data);
+  if (parts.length === 0) throw new AiBadResponseError("No image was generated.", model);
+  return {
+    images: parts.map(part => part.inlineData!.data!),
+    model,
+    mimeType: parts[0].inlineData!.mimeType,
+  };
 };
 
 // --- MAGIC EDIT (Generative) ---
 export const generativeEditImage = async (
   imageBase64: string,
   prompt: string,
-  mimeType: string = "image/jpeg"
-): Promise<string> => {
-  
-  // Strategy: Try Nano Banana Pro first (Best Quality). 
-  // If it fails (Quota 429), Fallback to Flash Image (Fast/Free-er).
-  const modelsToTry = ["gemini-3-pro-image-preview", "gemini-2.5-flash-image"];
+  mimeType: string = "image/jpeg",
+  options: ProviderRequestOptions = {}
+): Promise<GenerativeEditResult> => {
 
   // If user didn't provide a specific prompt, give a generic improvement prompt
-  const finalPrompt = prompt || "Enhance the image quality and lighting";
-  
-  let lastError;
+  const basePrompt = prompt || "Enhance the image quality and lighting";
+  // With a mask, the model gets it as a second image. The result is composited
+  // back through the mask anyway, so this only helps it focus on the right area.
+  const finalPrompt = options.mask
+    ? `${basePrompt}\n\nThe second image is a mask. Only change the area that is white in the mask; keep everything in the black area exactly as it is. Return an image the same size as the first image.`
+    : basePrompt;
+  const image = await prepareAiImage(imageBase64, AiImagePurpose.EDIT, mimeType);
+  const mask = options.mask ? await prepareAiImage(options.mask, AiImagePurpose.MASK, "image/png") : undefined;
+  const payload = payloadOf(mask ? [image, mask] : [image]);
 
-  for (const model of modelsToTry) {
-    try {
-      console.log(`Magic Edit with model: ${model}`);
+  return runWithFallback(IMAGE_MODELS, async (model) => {
+    console.log(`Magic Edit with model: ${model}`);
 
-      const response = await ai.models.generateContent({
-        model: model,
-        contents: {
-          parts: [
-            {
-              inlineData: {
-                mimeType: mimeType,
-                data: imageBase64,
-              },
-            },
-            {
-              text: finalPrompt,
+    const response = await getClient().models.generateContent({
+      model: model,
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              mimeType: image.mimeType,
+              data: image.data,
             },
-          ],
-        },
-        // Note: responseMimeType is not supported for nano banana series models for image output
-      });
+          },
+          ...(mask ? [{ inlineData: { mimeType: mask.mimeType, data: mask.data } }] : []),
+          {
+            text: finalPrompt,
+          },
+        ],
+      },
+      // Note: responseMimeType is not supported for nano banana series models for image output
+      config: { abortSignal: options.signal },
+    });
 
-      // Iterate through candidates to find the image part
-      const candidate = response.candidates?.[0];
-      if (candidate?.content?.parts) {
-        for (const part of candidate.content.parts) {
-          if (part.inlineData && part.inlineData.data) {
-            return part.inlineData.data;
-          }
-        }
-      }
-    } catch (error: any) {
-       console.warn(`Model ${model} failed:`, error.message);
-       lastError = error;
-       // If error is NOT Quota related, break. If it IS Quota, try next model.
-       if (!error.message.includes("429") && !error.message.includes("503") && !error.message.includes("Quota")) {
-         throw error;
-       }
-    }
-  }
+    assertNotBlocked(response, model);
+    return { ...collectImages(response, model), payload };
+  }, { signal: options.signal });
+};
 
-  throw lastError || new Error("No image generated by Gemini after retries.");
-};
\ No newline at end of file
+// --- CREATE (Text-to-image) ---
+export const generateImageFromPrompt = async (
+  prompt: string,
+  aspectRatio: AspectRatio,
+  referenceImages: ReferenceImage[] = [],
+  options: ProviderRequestOptions = {}
+): Promise<GenerativeEditResult> => {
+  const finalPrompt = referenceImages.length > 0
+    ? `${prompt}\n\nUse the ${referenceImages.length === 1 ? "image above" : "images above"} as visual reference for subject, style and colour.`
+    : prompt;
+  const references = await Promise.all(referenceImages.map(ref => prepareAiImage(ref.data, AiImagePurpose.REFERENCE, ref.mimeType)));
+  const payload = references.length > 0 ? payloadOf(references) : undefined;
+
+  return runWithFallback(IMAGE_MODELS, async (model) => {
+    console.log(`Create with model: ${model}`);
+
+    const response = await getClient().models.generateContent({
+      model: model,
+      contents: {
+        parts: [
+          ...references.map(ref => ({ inlineData: { mimeType: ref.mimeType, data: ref.data } })),
+          { text: finalPrompt },
+        ],
+      },
+      config: { abortSignal: options.signal, imageConfig: { aspectRatio } },
+    });
+
+    assertNotBlocked(response, model);
+    return { ...collectImages(response, model), payload };
+  }, { signal: options.signal });
+};
+
+export const geminiProvider: EditingProvider = {
+  id: ProviderId.GEMINI,
+  name: "Gemini",
+  description: "Google Gemini models (Nano Banana). Requires an API key.",
+  isAvailable: hasGeminiApiKey,
+  analyze: analyzeImageAndGetSettings,
+  generativeEdit: generativeEditImage,
+  generateImage: generateImageFromPrompt,
+  tagImage: tagImageForSearch,
+};
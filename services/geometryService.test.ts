@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  defaultGeometry, fitCropToAspect, flipGeometry, getFrameSize, getStraightenScale, isIdentityGeometry, rotateGeometry,
+} from "./geometryService";
+import { CropRect, Geometry } from "../types";
+
+const geometry = (changes: Partial<Geometry>): Geometry => ({ ...defaultGeometry, ...changes });
+
+const expectCropClose = (actual: CropRect, expected: CropRect) => {
+  (Object.keys(expected) as (keyof CropRect)[]).forEach(key => expect(actual[key]).toBeCloseTo(expected[key]));
+};
+
+const insideFrame = (crop: CropRect) =>
+  crop.x >= 0 && crop.y >= 0 && crop.x + crop.width <= 1 + 1e-9 && crop.y + crop.height <= 1 + 1e-9;
+
+describe("rotateGeometry", () => {
+  const start = geometry({ straighten: 5, crop: { x: 0.1, y: 0.2, width: 0.5, height: 0.3 }, aspect: 5 / 3 });
+
+  it("carries the crop along with a quarter turn", () => {
+    const turned = rotateGeometry(start, 1);
+    expect(turned.rotation).toBe(90);
+    expectCropClose(turned.crop, { x: 0.5, y: 0.1, width: 0.3, height: 0.5 });
+    expect(turned.aspect).toBeCloseTo(3 / 5);
+  });
+
+  it("comes back to the start after four turns either way", () => {
+    for (const direction of [1, -1] as const) {
+      let g = start;
+      for (let i = 0; i < 4; i++) g = rotateGeometry(g, direction);
+      expect(g.rotation).toBe(0);
+      expectCropClose(g.crop, start.crop);
+      expect(g.aspect).toBeCloseTo(start.aspect!);
+      expect(g.straighten).toBe(start.straighten);
+    }
+  });
+
+  it("undoes a clockwise turn with a counter-clockwise one", () => {
+    const back = rotateGeometry(rotateGeometry(start, 1), -1);
+    expect(back.rotation).toBe(0);
+    expectCropClose(back.crop, start.crop);
+  });
+});
+
+describe("flipGeometry", () => {
+  const start = geometry({ rotation: 90, straighten: -12, crop: { x: 0.1, y: 0.2, width: 0.5, height: 0.3 } });
+
+  it("mirrors the crop and reverses the rotations", () => {
+    const flipped = flipGeometry(start, "horizontal");
+    expect(flipped.flipH).toBe(true);
+    expect(flipped.rotation).toBe(270);
+    expect(flipped.straighten).toBe(12);
+    expectCropClose(flipped.crop, { x: 0.4, y: 0.2, width: 0.5, height: 0.3 });
+    expectCropClose(flipGeometry(start, "vertical").crop, { x: 0.1, y: 0.5, width: 0.5, height: 0.3 });
+  });
+
+  it("comes back to the start after flipping twice", () => {
+    for (const axis of ["horizontal", "vertical"] as const) {
+      const twice = flipGeometry(flipGeometry(start, axis), axis);
+      expect({ ...twice, crop: start.crop }).toEqual(start);
+      expectCropClose(twice.crop, start.crop);
+    }
+    expect(isIdentityGeometry(flipGeometry(flipGeometry(defaultGeometry, "vertical"), "vertical"))).toBe(true);
+  });
+});
+
+describe("fitCropToAspect", () => {
+  it("leaves the crop alone without an aspect", () => {
+    const crop = { x: 0.2, y: 0.2, width: 0.3, height: 0.6 };
+    expect(fitCropToAspect(crop, null, 400, 300)).toBe(crop);
+  });
+
+  it("uses the largest crop with the aspect that fits the frame", () => {
+    expectCropClose(fitCropToAspect(defaultGeometry.crop, 1, 400, 300), { x: 0.125, y: 0, width: 0.75, height: 1 });
+    expectCropClose(fitCropToAspect(defaultGeometry.crop, 16 / 9, 300, 400), { x: 0, y: 0.2890625, width: 1, height: 0.421875 });
+  });
+
+  it("stays inside the frame when the crop sits at its edges", () => {
+    for (const crop of [
+      { x: 0, y: 0, width: 0.1, height: 0.1 },
+      { x: 0.9, y: 0.9, width: 0.1, height: 0.1 },
+      { x: 0.95, y: 0, width: 0.05, height: 1 },
+    ]) {
+      const fitted = fitCropToAspect(crop, 1, 400, 300);
+      expect(insideFrame(fitted)).toBe(true);
+      expect((fitted.width * 400) / (fitted.height * 300)).toBeCloseTo(1);
+    }
+  });
+});
+
+describe("getStraightenScale", () => {
+  it("is 1 when not straightened", () => {
+    expect(getStraightenScale(400, 300, 0)).toBe(1);
+  });
+
+  it("is the same for either direction and shrinks as the angle grows", () => {
+    expect(getStraightenScale(400, 300, 45)).toBeCloseTo(getStraightenScale(400, 300, -45));
+    expect(getStraightenScale(400, 300, 10)).toBeGreaterThan(getStraightenScale(400, 300, 45));
+  });
+
+  it("keeps a square inside the square at 45°", () => {
+    expect(getStraightenScale(100, 100, 45)).toBeCloseTo(Math.SQRT1_2);
+    expect(getStraightenScale(400, 300, 45)).toBeCloseTo(300 / (700 * Math.SQRT1_2));
+  });
+
+  it("shrinks the frame the crop lives in", () => {
+    expect(getFrameSize(geometry({ rotation: 90 }), 400, 300)).toEqual({ width: 300, height: 400 });
+    const frame = getFrameSize(geometry({ straighten: -45 }), 100, 100);
+    expect(frame.width).toBeCloseTo(100 * Math.SQRT1_2);
+  });
+});
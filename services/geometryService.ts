@@ -0,0 +1,155 @@
+import { CropRect, Geometry } from "../types";
+
+// Crop, 90° rotation, straighten and flip. The math at the top is pure; canvas
+// rendering lives at the bottom. Geometry is stored on the edit stack, so the
+// working image (and with it the preview, thumbnails and export) is re-rendered
+// from the untouched original.
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+export const MIN_CROP = 0.05; // Smallest crop side, as a fraction of the frame
+export const MAX_STRAIGHTEN = 45;
+
+export const defaultGeometry: Geometry = {
+  flipH: false,
+  flipV: false,
+  rotation: 0,
+  straighten: 0,
+  crop: FULL_CROP,
+  aspect: null,
+};
+
+export const aspectPresets: { label: string; value: number | null }[] = [
+  { label: "Free", value: null },
+  { label: "1:1", value: 1 },
+  { label: "4:5", value: 4 / 5 },
+  { label: "16:9", value: 16 / 9 },
+];
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+export const isIdentityGeometry = (g: Geometry) =>
+  !g.flipH && !g.flipV && g.rotation % 360 === 0 && g.straighten === 0 &&
+  g.crop.x === 0 && g.crop.y === 0 && g.crop.width === 1 && g.crop.height === 1;
+
+// --- FRAME SIZES ---
+
+// Size after the 90° rotation
+export const getOrientedSize = (width: number, height: number, rotation: number) =>
+  rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+// Scale of the largest same-aspect rectangle that still fits inside a
+// width x height image rotated by `degrees`, so no empty corners show
+export const getStraightenScale = (width: number, height: number, degrees: number) => {
+  const a = toRadians(Math.abs(degrees));
+  const cos = Math.cos(a);
+  const sin = Math.sin(a);
+  return Math.min(width / (width * cos + height * sin), height / (width * sin + height * cos));
+};
+
+// The frame the crop rectangle lives in: rotated, straightened and auto-cropped
+export const getFrameSize = (g: Geometry, width: number, height: number) => {
+  const oriented = getOrientedSize(width, height, g.rotation);
+  const scale = getStraightenScale(oriented.width, oriented.height, g.straighten);
+  return { width: oriented.width * scale, height: oriented.height * scale };
+};
+
+export const getOutputSize = (g: Geometry, width: number, height: number) => {
+  const frame = getFrameSize(g, width, height);
+  return {
+    width: Math.max(1, Math.round(frame.width * g.crop.width)),
+    height: Math.max(1, Math.round(frame.height * g.crop.height)),
+  };
+};
+
+// --- CROP EDITS ---
+
+export const clampCrop = (crop: CropRect): CropRect => {
+  const width = clamp(crop.width, MIN_CROP, 1);
+  const height = clamp(crop.height, MIN_CROP, 1);
+  return { x: clamp(crop.x, 0, 1 - width), y: clamp(crop.y, 0, 1 - height), width, height };
+};
+
+// Aspect ratio (width / height in pixels) expressed in frame fractions
+export const toFrameRatio = (aspect: number, frameWidth: number, frameHeight: number) =>
+  (aspect * frameHeight) / frameWidth;
+
+// Largest crop with the given aspect, centred on the current crop where it fits
+export const fitCropToAspect = (crop: CropRect, aspect: number | null, frameWidth: number, frameHeight: number): CropRect => {
+  if (aspect === null) return crop;
+  const ratio = toFrameRatio(aspect, frameWidth, frameHeight);
+  let width = Math.min(1, ratio);
+  let height = width / ratio;
+  if (height > 1) {
+    height = 1;
+    width = ratio;
+  }
+  const cx = crop.x + crop.width / 2;
+  const cy = crop.y + crop.height / 2;
+  return clampCrop({ x: cx - width / 2, y: cy - height / 2, width, height });
+};
+
+// Rotates the whole result by 90° (direction 1 = clockwise), carrying the crop along
+export const rotateGeometry = (g: Geometry, direction: 1 | -1): Geometry => {
+  const { x, y, width, height } = g.crop;
+  return {
+    ...g,
+    rotation: (g.rotation + direction * 90 + 360) % 360,
+    crop: direction === 1
+      ? { x: 1 - y - height, y: x, width: height, height: width }
+      : { x: y, y: 1 - x - width, width: height, height: width },
+    aspect: g.aspect === null ? null : 1 / g.aspect,
+  };
+};
+
+// Mirrors the whole result. Flipping before the rotations reverses their
+// direction, so rotation and straighten are negated to keep the same framing.
+export const flipGeometry = (g: Geometry, axis: "horizontal" | "vertical"): Geometry => ({
+  ...g,
+  flipH: axis === "horizontal" ? !g.flipH : g.flipH,
+  flipV: axis === "vertical" ? !g.flipV : g.flipV,
+  rotation: (360 - g.rotation) % 360,
+  straighten: g.straighten === 0 ? 0 : -g.straighten,
+  crop: axis === "horizontal"
+    ? { ...g.crop, x: 1 - g.crop.x - g.crop.width }
+    : { ...g.crop, y: 1 - g.crop.y - g.crop.height },
+});
+
+// --- RENDERING (browser only) ---
+
+// Draws `source` with the geometry applied into `canvas`, optionally scaled so
+// the long edge is at most maxEdge. `crop` overrides the geometry's crop (the
+// crop tool passes FULL_CROP to show the whole frame).
+export const renderGeometry = (
+  canvas: HTMLCanvasElement,
+  source: HTMLImageElement | HTMLCanvasElement,
+  g: Geometry,
+  maxEdge?: number,
+  crop: CropRect = g.crop
+) => {
+  const srcWidth = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const srcHeight = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const frame = getFrameSize(g, srcWidth, srcHeight);
+  const outWidth = frame.width * crop.width;
+  const outHeight = frame.height * crop.height;
+  const scale = maxEdge ? Math.min(1, maxEdge / Math.max(outWidth, outHeight)) : 1;
+
+  canvas.width = Math.max(1, Math.round(outWidth * scale));
+  canvas.height = Math.max(1, Math.round(outHeight * scale));
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  ctx.imageSmoothingQuality = "high";
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  // Canvas transforms apply to the drawing in reverse order of the calls:
+  // flip first, then the 90° rotation, then straighten.
+  ctx.scale(scale, scale);
+  ctx.translate(-crop.x * frame.width, -crop.y * frame.height);
+  ctx.translate(frame.width / 2, frame.height / 2);
+  ctx.rotate(toRadians(g.straighten));
+  ctx.rotate(toRadians(g.rotation));
+  ctx.scale(g.flipH ? -1 : 1, g.flipV ? -1 : 1);
+  ctx.drawImage(source, -srcWidth / 2, -srcHeight / 2);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  return canvas;
+};
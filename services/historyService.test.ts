@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { createHistory, getCurrentEntry, pushHistory, undo } from "./historyService";
+import { createIdentityLut } from "./lutService";
+import { defaultSettings } from "../constants";
+import { LutStage } from "../types";
+
+const lut: LutStage = { lut: createIdentityLut(2, "Film"), intensity: 100 };
+
+describe("history", () => {
+  it("undoes a LUT change back to the step without it", () => {
+    const start = createHistory("Original", "data:a", defaultSettings);
+    const graded = pushHistory(start, "Load LUT: Film", "data:a", defaultSettings, false, undefined, lut);
+    expect(getCurrentEntry(graded).lut).toBe(lut);
+    expect(getCurrentEntry(undo(graded)).lut).toBeUndefined();
+  });
+
+  it("merges intensity drags into one step that keeps the latest value", () => {
+    let history = pushHistory(createHistory("Original", "data:a", defaultSettings), "Load LUT: Film", "data:a", defaultSettings, false, undefined, lut);
+    for (const intensity of [80, 60, 40]) {
+      history = pushHistory(history, "LUT Intensity", "data:a", defaultSettings, true, undefined, { ...lut, intensity });
+    }
+    expect(history.entries.map(entry => entry.label)).toEqual(["Original", "Load LUT: Film", "LUT Intensity"]);
+    expect(getCurrentEntry(history).lut?.intensity).toBe(40);
+    expect(getCurrentEntry(undo(history)).lut?.intensity).toBe(100);
+  });
+});
@@ -0,0 +1,59 @@
+import { EditHistory, EditStack, FilterSettings, HistoryEntry, LutStage } from "../types";
+
+// Oldest steps are dropped past this point (each step may hold a full image)
+export const MAX_HISTORY_ENTRIES = 50;
+
+// Consecutive steps with the same label inside this window are merged into one,
+// so dragging a slider records a single "Adjust Brightness" step.
+const COALESCE_WINDOW_MS = 1000;
+
+const newEntry = (label: string, image: string, settings: FilterSettings, stack?: EditStack, lut?: LutStage): HistoryEntry => ({
+  id: Date.now().toString() + Math.random().toString().slice(2, 6),
+  label,
+  image,
+  settings,
+  stack,
+  lut,
+  timestamp: Date.now(),
+});
+
+export const createHistory = (label: string, image: string, settings: FilterSettings, stack?: EditStack, lut?: LutStage): EditHistory => ({
+  entries: [newEntry(label, image, settings, stack, lut)],
+  index: 0,
+});
+
+export const getCurrentEntry = (history: EditHistory): HistoryEntry =>
+  history.entries[history.index];
+
+export const canUndo = (history: EditHistory) => history.index > 0;
+export const canRedo = (history: EditHistory) => history.index < history.entries.length - 1;
+
+// Records a new step after the current one. Anything that was undone is discarded.
+export const pushHistory = (
+  history: EditHistory,
+  label: string,
+  image: string,
+  settings: FilterSettings,
+  coalesce = false,
+  stack?: EditStack,
+  lut?: LutStage
+): EditHistory => {
+  const kept = history.entries.slice(0, history.index + 1);
+  const top = kept[kept.length - 1];
+
+  if (coalesce && kept.length > 1 && top.label === label && Date.now() - top.timestamp < COALESCE_WINDOW_MS) {
+    kept[kept.length - 1] = { ...top, image, settings, stack, lut, timestamp: Date.now() };
+    return { entries: kept, index: kept.length - 1 };
+  }
+
+  const entries = [...kept, newEntry(label, image, settings, stack, lut)].slice(-MAX_HISTORY_ENTRIES);
+  return { entries, index: entries.length - 1 };
+};
+
+export const jumpTo = (history: EditHistory, index: number): EditHistory => ({
+  ...history,
+  index: Math.max(0, Math.min(history.entries.length - 1, index)),
+});
+
+export const undo = (history: EditHistory): EditHistory => jumpTo(history, history.index - 1);
+export const redo = (history: EditHistory): EditHistory => jumpTo(history, history.index + 1);
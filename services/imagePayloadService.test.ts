@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { addPayloads, base64Bytes, describePayload, sniffMimeType } from "./imagePayloadService";
+
+// Base64 of a file that starts with these bytes (padded to the 18 bytes sniffMimeType reads)
+const header = (...parts: (number[] | string)[]) => {
+  const bytes = parts.flatMap(part => typeof part === "string" ? [...part].map(c => c.charCodeAt(0)) : part);
+  while (bytes.length < 18) bytes.push(0);
+  return Buffer.from(bytes).toString("base64");
+};
+
+describe("sniffMimeType", () => {
+  it("recognizes JPEG, PNG and WebP by their magic bytes", () => {
+    expect(sniffMimeType(header([0xff, 0xd8, 0xff, 0xe0]))).toBe("image/jpeg");
+    expect(sniffMimeType(header([0x89], "PNG\r\n", [0x1a, 0x0a]))).toBe("image/png");
+    expect(sniffMimeType(header("RIFF", [0x24, 0, 0, 0], "WEBPVP8 "))).toBe("image/webp");
+  });
+
+  it("recognizes GIF, AVIF and HEIC", () => {
+    expect(sniffMimeType(header("GIF89a"))).toBe("image/gif");
+    expect(sniffMimeType(header([0, 0, 0, 0x1c], "ftypavif"))).toBe("image/avif");
+    expect(sniffMimeType(header([0, 0, 0, 0x18], "ftypheic"))).toBe("image/heic");
+  });
+
+  it("returns undefined for anything else", () => {
+    expect(sniffMimeType(header("RIFF", [0, 0, 0, 0], "WAVEfmt "))).toBeUndefined();
+    expect(sniffMimeType(header("%PDF-1.7"))).toBeUndefined();
+    expect(sniffMimeType(header([0xff, 0xd8]))).toBeUndefined();
+  });
+});
+
+describe("base64Bytes", () => {
+  it("counts decoded bytes with none, one or two padding characters", () => {
+    for (const length of [0, 1, 2, 3, 4, 5, 6, 100]) {
+      const data = Buffer.alloc(length, 7).toString("base64");
+      expect(base64Bytes(data)).toBe(length);
+    }
+  });
+});
+
+describe("describePayload", () => {
+  it("mentions the original size only when the upload was smaller", () => {
+    expect(describePayload({ bytes: 186_000, originalBytes: 6.4 * 1024 * 1024 })).toBe("Uploaded 182 KB (from 6.4 MB)");
+    expect(describePayload({ bytes: 300, originalBytes: 300 })).toBe("Uploaded 1 KB");
+  });
+
+  it("adds up the payloads that are known", () => {
+    expect(addPayloads([undefined, undefined])).toBeUndefined();
+    expect(addPayloads([{ bytes: 1, originalBytes: 2 }, undefined, { bytes: 3, originalBytes: 4 }])).toEqual({ bytes: 4, originalBytes: 6 });
+  });
+});
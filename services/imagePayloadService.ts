@@ -0,0 +1,73 @@
+import { AiImagePurpose, PayloadSize, ReferenceImage } from "../types";
+import { UploadProfile } from "./thumbnailTasks";
+import { prepareUploadImage } from "./thumbnailService";
+
+// Shrinks images before they are uploaded to the AI. Analysis and tagging only
+// need a small JPEG; Magic Edit gets as much as the image models make use of.
+// The MIME type is read from the bytes, so PNG / WebP / HEIC are labelled correctly.
+
+const PROFILES: Record<AiImagePurpose, UploadProfile> = {
+  [AiImagePurpose.ANALYSIS]: { maxEdge: 768, type: "image/jpeg", quality: 0.8 },
+  [AiImagePurpose.TAGGING]: { maxEdge: 768, type: "image/jpeg", quality: 0.8 },
+  [AiImagePurpose.REFERENCE]: { maxEdge: 1024, type: "image/jpeg", quality: 0.85 },
+  [AiImagePurpose.EDIT]: { maxEdge: 3072, type: null, quality: 0.92 },
+  [AiImagePurpose.MASK]: { maxEdge: 3072, type: "image/png", quality: 1 }, // Same cap as EDIT, so it still lines up
+};
+
+export interface PreparedImage extends ReferenceImage {
+  bytes: number;         // Uploaded size
+  originalBytes: number; // Size before preparing
+}
+
+// Type from the file signature; undefined when it isn't one we know
+export const sniffMimeType = (base64: string): string | undefined => {
+  const head = atob(base64.slice(0, 24)); // First 18 bytes
+  if (head.startsWith("\xff\xd8\xff")) return "image/jpeg";
+  if (head.startsWith("\x89PNG")) return "image/png";
+  if (head.startsWith("RIFF") && head.slice(8, 12) === "WEBP") return "image/webp";
+  if (head.startsWith("GIF8")) return "image/gif";
+  if (head.slice(4, 8) === "ftyp") {
+    const brand = head.slice(8, 12);
+    if (brand === "avif" || brand === "avis") return "image/avif";
+    if (/^(hei[cmsx]|hev[cmsx]|mif1|msf1)$/.test(brand)) return "image/heic";
+  }
+  return undefined;
+};
+
+export const base64Bytes = (data: string) =>
+  Math.floor(data.length * 3 / 4) - (data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0);
+
+// `mimeType` is only a hint for when the bytes don't say
+export const prepareAiImage = async (data: string, purpose: AiImagePurpose, mimeType?: string): Promise<PreparedImage> => {
+  const sourceType = sniffMimeType(data) || mimeType || "image/jpeg";
+  let prepared: ReferenceImage | null = null;
+  try {
+    prepared = await prepareUploadImage(data, sourceType, PROFILES[purpose]);
+  } catch (error) {
+    console.warn("Could not prepare image for upload, sending it as is", error);
+  }
+  // Not decodable in this browser: send it unchanged and let the API decide
+  const { data: uploaded, mimeType: uploadedType } = prepared || { data, mimeType: sourceType };
+  return { data: uploaded, mimeType: uploadedType, bytes: base64Bytes(uploaded), originalBytes: base64Bytes(data) };
+};
+
+export const payloadOf = (images: PreparedImage[]): PayloadSize => ({
+  bytes: images.reduce((sum, image) => sum + image.bytes, 0),
+  originalBytes: images.reduce((sum, image) => sum + image.originalBytes, 0),
+});
+
+export const addPayloads = (payloads: (PayloadSize | undefined)[]): PayloadSize | undefined => {
+  const known = payloads.filter((p): p is PayloadSize => !!p);
+  if (known.length === 0) return undefined;
+  return {
+    bytes: known.reduce((sum, p) => sum + p.bytes, 0),
+    originalBytes: known.reduce((sum, p) => sum + p.originalBytes, 0),
+  };
+};
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// e.g. "Uploaded 182 KB (from 6.4 MB)"
+export const describePayload = ({ bytes, originalBytes }: PayloadSize) =>
+  `Uploaded ${formatBytes(bytes)}${originalBytes > bytes ? ` (from ${formatBytes(originalBytes)})` : ""}`;
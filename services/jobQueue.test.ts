@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { createJobQueue } from "./jobQueue";
+import { JobStatus, QueueSnapshot } from "../types";
+
+interface Run {
+  id: string;
+  signal: AbortSignal;
+  resolve: (value: string) => void;
+  reject: (error: unknown) => void;
+}
+
+// Queue whose jobs settle only when the test says so (and ignore their abort signal)
+const setup = (concurrency: number) => {
+  const runs: Run[] = [];
+  let last: QueueSnapshot | null = null;
+  const queue = createJobQueue<string>({
+    concurrency,
+    run: (id, signal) => new Promise((resolve, reject) => { runs.push({ id, signal, resolve, reject }); }),
+    onResult: () => {},
+    onChange: snapshot => { last = snapshot; },
+    isRateLimited: error => error === "429",
+    rateLimitCooldownMs: 0,
+  });
+  const status = (id: string) => last?.jobs.find(job => job.id === id)?.status;
+  return { queue, runs, status, snapshot: () => last! };
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("createJobQueue", () => {
+  it("ignores a cancelled run that settles after the job was retried", async () => {
+    const { queue, runs, status, snapshot } = setup(2);
+    queue.add([{ id: "a", label: "A" }]);
+    queue.cancel();
+    expect(status("a")).toBe(JobStatus.CANCELLED);
+
+    queue.retryFailed();
+    expect(runs).toHaveLength(2);
+    expect(status("a")).toBe(JobStatus.RUNNING);
+
+    runs[0].reject(new Error("aborted"));
+    await settle();
+    expect(status("a")).toBe(JobStatus.RUNNING);
+    expect(snapshot().isIdle).toBe(false);
+
+    runs[1].resolve("ok");
+    await settle();
+    expect(status("a")).toBe(JobStatus.DONE);
+    expect(snapshot().isIdle).toBe(true);
+  });
+
+  it("drops to one job at a time after a rate limit and recovers after a success", async () => {
+    const { queue, runs, status } = setup(2);
+    queue.add(["a", "b", "c", "d"].map(id => ({ id, label: id })));
+    expect(runs.map(run => run.id)).toEqual(["a", "b"]);
+
+    runs[0].reject("429");
+    await settle();
+    expect(status("a")).toBe(JobStatus.QUEUED);
+    expect(runs).toHaveLength(2); // b still holds the only slot
+
+    runs[1].resolve("ok");
+    await settle();
+    expect(runs.map(run => run.id)).toEqual(["a", "b", "a", "c"]);
+  });
+});
@@ -0,0 +1,178 @@
+import { JobState, JobStatus, QueueSnapshot } from "../types";
+
+// Small in-memory job queue for batch AI work: concurrency limit, pause/resume,
+// cancel (aborts in-flight jobs), retry of failed jobs, and rate-limit backoff.
+
+export interface JobQueueOptions<T> {
+  concurrency: number;
+  // Runs one job. Must honour `signal` so cancel() can stop it.
+  run: (id: string, signal: AbortSignal) => Promise<T>;
+  onResult: (id: string, result: T) => void;
+  onChange: (snapshot: QueueSnapshot) => void;
+  // Returns true for errors that mean "slow down" (e.g. AiQuotaError)
+  isRateLimited?: (error: unknown) => boolean;
+  minIntervalMs?: number;        // Minimum gap between job starts
+  rateLimitCooldownMs?: number;  // First back-off after a rate limit; doubles each time
+  maxRateLimitRetries?: number;  // Per job, before it is marked failed
+}
+
+export interface JobQueue {
+  add: (jobs: { id: string; label: string }[]) => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  retryFailed: () => void;
+  snapshot: () => QueueSnapshot;
+}
+
+export const createJobQueue = <T>({
+  concurrency,
+  run,
+  onResult,
+  onChange,
+  isRateLimited = () => false,
+  minIntervalMs = 0,
+  rateLimitCooldownMs = 15000,
+  maxRateLimitRetries = 3,
+}: JobQueueOptions<T>): JobQueue => {
+  const jobs = new Map<string, JobState>();
+  const pending: string[] = [];
+  const controllers = new Map<string, AbortController>();
+  const rateLimitHits = new Map<string, number>();
+
+  let isPaused = false;
+  let cooldownUntil: number | null = null;
+  let cooldownStreak = 0;
+  let lastStart = 0;
+  let limit = concurrency; // Drops to 1 after a rate limit, until a job succeeds
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const snapshot = (): QueueSnapshot => ({
+    jobs: [...jobs.values()].map(job => ({ ...job })),
+    isPaused,
+    isIdle: controllers.size === 0 && pending.length === 0,
+    cooldownUntil,
+  });
+
+  const update = (id: string, patch: Partial<JobState>) => {
+    const job = jobs.get(id);
+    if (job) jobs.set(id, { ...job, ...patch });
+  };
+
+  const emit = () => onChange(snapshot());
+
+  const schedule = (delay: number) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => { timer = null; pump(); }, delay);
+  };
+
+  const start = (id: string) => {
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    lastStart = Date.now();
+    update(id, { status: JobStatus.RUNNING, attempts: (jobs.get(id)?.attempts || 0) + 1, error: undefined });
+
+    // After cancel() + retryFailed() the same id can be running again under a
+    // new controller: a superseded run must not touch the job or the queue
+    const isCurrent = () => controllers.get(id) === controller;
+
+    run(id, controller.signal)
+      .then(result => {
+        if (controller.signal.aborted || !isCurrent()) return;
+        cooldownStreak = 0;
+        limit = concurrency; // Back to full speed once a job gets through
+        update(id, { status: JobStatus.DONE });
+        onResult(id, result);
+      })
+      .catch(error => {
+        if (controller.signal.aborted || !isCurrent()) return; // cancel() already marked it
+        const hits = (rateLimitHits.get(id) || 0) + 1;
+        if (isRateLimited(error) && hits <= maxRateLimitRetries) {
+          // Put it back at the front and slow the whole queue down
+          rateLimitHits.set(id, hits);
+          update(id, { status: JobStatus.QUEUED, error: "Rate limited, waiting to retry" });
+          pending.unshift(id);
+          limit = 1;
+          cooldownUntil = Date.now() + rateLimitCooldownMs * 2 ** cooldownStreak;
+          cooldownStreak++;
+        } else {
+          update(id, { status: JobStatus.FAILED, error: error?.message || String(error) });
+        }
+      })
+      .finally(() => {
+        if (!isCurrent()) return;
+        controllers.delete(id);
+        emit();
+        pump();
+      });
+  };
+
+  const pump = () => {
+    if (isPaused) return;
+
+    const now = Date.now();
+    if (cooldownUntil && now < cooldownUntil) {
+      schedule(cooldownUntil - now);
+      return;
+    }
+    if (cooldownUntil) {
+      cooldownUntil = null;
+      emit();
+    }
+
+    while (pending.length > 0 && controllers.size < limit) {
+      const wait = lastStart + minIntervalMs - Date.now();
+      if (wait > 0) {
+        schedule(wait);
+        break;
+      }
+      start(pending.shift()!);
+    }
+    emit();
+  };
+
+  return {
+    add: (newJobs) => {
+      for (const { id, label } of newJobs) {
+        if (jobs.get(id)?.status === JobStatus.RUNNING || pending.includes(id)) continue;
+        jobs.set(id, { id, label, status: JobStatus.QUEUED, attempts: 0 });
+        rateLimitHits.delete(id);
+        pending.push(id);
+      }
+      pump();
+    },
+    pause: () => {
+      isPaused = true;
+      emit();
+    },
+    resume: () => {
+      isPaused = false;
+      pump();
+    },
+    cancel: () => {
+      pending.splice(0).forEach(id => update(id, { status: JobStatus.CANCELLED }));
+      controllers.forEach((controller, id) => {
+        controller.abort();
+        update(id, { status: JobStatus.CANCELLED });
+      });
+      if (timer) clearTimeout(timer);
+      timer = null;
+      cooldownUntil = null;
+      cooldownStreak = 0;
+      limit = concurrency;
+      emit();
+    },
+    retryFailed: () => {
+      jobs.forEach(job => {
+        if (job.status === JobStatus.FAILED || job.status === JobStatus.CANCELLED) {
+          update(job.id, { status: JobStatus.QUEUED, error: undefined });
+          rateLimitHits.delete(job.id);
+          pending.push(job.id);
+        }
+      });
+      limit = concurrency;
+      pump();
+    },
+    snapshot,
+  };
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { computeImageStats, levelsToSettings, suggestSettings } from "./localAnalyzer";
+import { PixelBuffer } from "./filterService";
+import { defaultSettings } from "../constants";
+
+const buffer = (rgb: number[][]): PixelBuffer => {
+  const data = new Uint8ClampedArray(rgb.length * 4);
+  rgb.forEach(([r, g, b], i) => data.set([r, g, b, 255], i * 4));
+  return { data, width: rgb.length, height: 1 };
+};
+
+const greys = (from: number, to: number) =>
+  buffer(Array.from({ length: to - from + 1 }, (_, i) => [from + i, from + i, from + i]));
+
+const flat = (rgb: number[], count = 64) => buffer(Array.from({ length: count }, () => rgb));
+
+describe("computeImageStats", () => {
+  it("builds histograms, means and clipping for a full grey ramp", () => {
+    const stats = computeImageStats(greys(0, 255));
+    expect(stats.pixelCount).toBe(256);
+    expect(stats.luminance.every(count => count === 1)).toBe(true);
+    expect(stats.meanLuminance).toBeCloseTo(127.5, 5);
+    expect(stats.meanSaturation).toBe(0);
+    expect(stats.clippedShadows).toBeCloseTo(4 / 256 * 100, 5);
+    expect(stats.clippedHighlights).toBeCloseTo(4 / 256 * 100, 5);
+  });
+
+  it("measures channel means and HSV saturation", () => {
+    const stats = computeImageStats(flat([80, 120, 200]));
+    expect(stats.meanChannels).toEqual({ r: 80, g: 120, b: 200 });
+    expect(stats.meanSaturation).toBeCloseTo(0.6, 5);
+  });
+});
+
+describe("suggestSettings", () => {
+  it("only boosts saturation on a full-range grey image", () => {
+    const { suggestedSettings } = suggestSettings(computeImageStats(greys(0, 255)));
+    expect(suggestedSettings).toEqual({ ...defaultSettings, saturation: 125 });
+  });
+
+  it("stretches a low-contrast image", () => {
+    const result = suggestSettings(computeImageStats(greys(64, 191)));
+    expect(result.suggestedSettings).toMatchObject(levelsToSettings(64, 191));
+    expect(result.suggestedSettings.contrast).toBeGreaterThan(100);
+    expect(result.reasoning).toContain("Stretched tones 64-191");
+  });
+
+  it("neutralises a blue cast with warmth and tint", () => {
+    const { suggestedSettings } = suggestSettings(computeImageStats(flat([80, 120, 200])));
+    expect(suggestedSettings.warmth).toBe(40);
+    expect(suggestedSettings.tint).toBe(-12);
+  });
+
+  it("applies styles named in the prompt", () => {
+    const stats = computeImageStats(greys(0, 255));
+    expect(suggestSettings(stats, "make it black and white").suggestedSettings.grayscale).toBe(100);
+    expect(suggestSettings(stats, "Warm and vintage").suggestedSettings).toMatchObject({ warmth: 30, sepia: 30 });
+  });
+});
@@ -0,0 +1,167 @@
+import { AnalysisResult, FilterSettings } from "../types";
+import { defaultSettings } from "../constants";
+import { loadPixels, PixelBuffer } from "./filterService";
+
+// Rule-based "Cast a Spell" that runs entirely in the browser. Used by the Auto
+// button, by the offline provider, and as the fallback when every Gemini model
+// is out of quota. Returns the same AnalysisResult shape as the AI.
+//
+// Everything but analyzeLocally is pure and works on PixelBuffer fixtures in Node.
+
+export interface ImageStats {
+  luminance: number[];                         // 256-bin histogram
+  channels: { r: number[]; g: number[]; b: number[] };
+  pixelCount: number;
+  meanLuminance: number;                       // 0-255
+  meanChannels: { r: number; g: number; b: number };
+  meanSaturation: number;                      // 0-1 (HSV saturation)
+  clippedShadows: number;                      // % of pixels at or near black
+  clippedHighlights: number;                   // % of pixels at or near white
+}
+
+const CLIP_THRESHOLD = 3; // levels from either end counted as clipped
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const computeImageStats = (buffer: PixelBuffer): ImageStats => {
+  const luminance = new Array(256).fill(0);
+  const r = new Array(256).fill(0);
+  const g = new Array(256).fill(0);
+  const b = new Array(256).fill(0);
+  let saturationSum = 0;
+  let shadows = 0;
+  let highlights = 0;
+
+  const { data } = buffer;
+  for (let i = 0; i < data.length; i += 4) {
+    const red = data[i], green = data[i + 1], blue = data[i + 2];
+    const y = Math.round(0.2126 * red + 0.7152 * green + 0.0722 * blue);
+    luminance[y]++;
+    r[red]++;
+    g[green]++;
+    b[blue]++;
+
+    const max = Math.max(red, green, blue);
+    const min = Math.min(red, green, blue);
+    saturationSum += max === 0 ? 0 : (max - min) / max;
+
+    if (max <= CLIP_THRESHOLD) shadows++;
+    if (min >= 255 - CLIP_THRESHOLD) highlights++;
+  }
+
+  const pixelCount = Math.max(1, data.length / 4);
+  const mean = (histogram: number[]) => histogram.reduce((sum, count, v) => sum + count * v, 0) / pixelCount;
+
+  return {
+    luminance,
+    channels: { r, g, b },
+    pixelCount,
+    meanLuminance: mean(luminance),
+    meanChannels: { r: mean(r), g: mean(g), b: mean(b) },
+    meanSaturation: saturationSum / pixelCount,
+    clippedShadows: (shadows / pixelCount) * 100,
+    clippedHighlights: (highlights / pixelCount) * 100,
+  };
+};
+
+// Value below which `fraction` of the pixels fall
+export const percentile = (histogram: number[], total: number, fraction: number) => {
+  let seen = 0;
+  for (let v = 0; v < 256; v++) {
+    seen += histogram[v];
+    if (seen >= total * fraction) return v;
+  }
+  return 255;
+};
+
+// Brightness/contrast pair that stretches [low, high] to [0, 255] through the
+// filter pipeline (brightness multiplies, then contrast pivots around mid-grey).
+export const levelsToSettings = (low: number, high: number): Pick<FilterSettings, "brightness" | "contrast"> => {
+  const gain = 255 / Math.max(1, high - low); // contrast * brightness
+  const contrast = 1 + (gain * low) / 127.5;
+  const brightness = gain / contrast;
+  return {
+    brightness: clamp(round1(brightness * 100), 50, 150),
+    contrast: clamp(round1(contrast * 100), 50, 150),
+  };
+};
+
+// Keyword styles so prompts still do something recognisable without the AI
+const promptStyles: { match: RegExp; settings: Partial<FilterSettings>; note: string }[] = [
+  { match: /black and white|b&w|mono|grayscale|greyscale/i, settings: { grayscale: 100 }, note: "converted to black & white" },
+  { match: /vintage|retro|film/i, settings: { sepia: 30, contrast: 90 }, note: "added a vintage film tone" },
+  { match: /warm|golden|sunset/i, settings: { warmth: 30 }, note: "warmed the white balance" },
+  { match: /cool|cold|blue|winter/i, settings: { warmth: -30 }, note: "cooled the white balance" },
+  { match: /vivid|punchy|vibrant/i, settings: { saturation: 140 }, note: "boosted saturation" },
+  { match: /dream|soft|haze/i, settings: { blur: 1.5 }, note: "softened the image" },
+];
+
+// Turns image statistics (and an optional style prompt) into a suggestion
+export const suggestSettings = (stats: ImageStats, userPrompt = ""): AnalysisResult => {
+  const settings: FilterSettings = { ...defaultSettings };
+  const notes: string[] = [];
+
+  // Exposure & contrast: stretch the 0.5%-99.5% luminance range, but back off when
+  // the image is already clipping (stretching further would only lose detail).
+  const low = percentile(stats.luminance, stats.pixelCount, 0.005);
+  const high = Math.max(low + 1, percentile(stats.luminance, stats.pixelCount, 0.995));
+  const clipping = stats.clippedShadows + stats.clippedHighlights;
+  if (clipping < 2 && (low > 8 || high < 247)) {
+    Object.assign(settings, levelsToSettings(low, high));
+    notes.push(`stretched tones ${low}-${high} to the full range`);
+  } else if (clipping >= 5) {
+    settings.contrast = 90;
+    notes.push(`${round1(clipping)}% of pixels are clipped, so contrast was softened`);
+  }
+
+  if (stats.meanLuminance < 80) {
+    settings.brightness = clamp(round1(settings.brightness * 1.15), 0, 200);
+    notes.push("lifted a dark exposure");
+  } else if (stats.meanLuminance > 180) {
+    settings.brightness = clamp(round1(settings.brightness * 0.9), 0, 200);
+    notes.push("pulled back a bright exposure");
+  }
+
+  // Color cast: neutralise red/blue imbalance with warmth, green/magenta with tint
+  const { r, g, b } = stats.meanChannels;
+  const warmth = clamp(Math.round(((b - r) / 255) * 150), -40, 40);
+  const tint = clamp(Math.round(((g - (r + b) / 2) / 255) * 150), -40, 40);
+  if (Math.abs(warmth) >= 5) {
+    settings.warmth = warmth;
+    notes.push(warmth > 0 ? "warmed a cool cast" : "cooled a warm cast");
+  }
+  if (Math.abs(tint) >= 5) {
+    settings.tint = tint;
+    notes.push(tint > 0 ? "removed a green cast" : "removed a magenta cast");
+  }
+
+  if (stats.meanSaturation < 0.2) {
+    settings.saturation = 125;
+    notes.push("boosted muted colors");
+  } else if (stats.meanSaturation > 0.6) {
+    settings.saturation = 90;
+    notes.push("tamed oversaturated colors");
+  }
+
+  for (const style of promptStyles) {
+    if (style.match.test(userPrompt)) {
+      Object.assign(settings, style.settings);
+      notes.push(style.note);
+    }
+  }
+
+  const summary = notes.length > 0 ? notes.join(", ") : "the image is already well balanced, so only minor changes were needed";
+  return {
+    reasoning: `Local analysis: ${summary.charAt(0).toUpperCase()}${summary.slice(1)}.`,
+    suggestedSettings: settings,
+  };
+};
+
+// --- DECODING (browser only) ---
+
+// Same signature as the AI analyzers; accepts raw base64 (no data URL prefix)
+export const analyzeLocally = async (imageBase64: string, userPrompt = ""): Promise<AnalysisResult> => {
+  const pixels = await loadPixels(`data:image/*;base64,${imageBase64}`, 256);
+  return suggestSettings(computeImageStats(pixels), userPrompt);
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { suggestTags } from "./localTagger";
+import { computeImageStats } from "./localAnalyzer";
+import { SceneCategory } from "../types";
+
+const flat = (rgb: number[], width: number, height: number) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set([...rgb, 255], i);
+  return computeImageStats({ data, width, height });
+};
+
+describe("suggestTags", () => {
+  it("tags a wide blue image as sky and nature", () => {
+    expect(suggestTags(flat([60, 110, 200], 20, 10), 20, 10)).toEqual({
+      caption: "A cool nature photo.",
+      tags: ["cool", "blue", "sky", "colorful", "horizontal", "nature"],
+      scene: SceneCategory.NATURE,
+    });
+  });
+
+  it("tags a dark grey portrait-shaped image as black and white", () => {
+    expect(suggestTags(flat([40, 40, 40], 10, 20), 10, 20)).toEqual({
+      caption: "A dark, black and white urban photo.",
+      tags: ["black and white", "dark", "low key", "vertical", "urban"],
+      scene: SceneCategory.URBAN,
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { SceneCategory, TaggingResult } from "../types";
+import { loadPixels } from "./filterService";
+import { computeImageStats, ImageStats } from "./localAnalyzer";
+
+// Rule-based auto-tagger for the offline provider. It only sees colour and
+// brightness, so the tags are coarse ("warm", "green", "dark"), but the same
+// image always gets the same tags, which is what tests and demos need.
+
+const sceneNouns: Record<SceneCategory, string> = {
+  [SceneCategory.NATURE]: "nature photo",
+  [SceneCategory.URBAN]: "urban photo",
+  [SceneCategory.PORTRAIT]: "portrait",
+  [SceneCategory.OTHER]: "photo",
+};
+
+export const suggestTags = (stats: ImageStats, width: number, height: number): Omit<TaggingResult, "model"> => {
+  const { meanLuminance, meanSaturation } = stats;
+  const { r, g, b } = stats.meanChannels;
+  const tags: string[] = [];
+  const adjectives: string[] = [];
+
+  const isMonochrome = meanSaturation < 0.08;
+  const isWarm = r - b > 20;
+  const isCool = b - r > 20;
+  const isGreen = !isMonochrome && g > r + 5 && g > b + 5;
+  const isBlue = !isMonochrome && b > r + 10 && b >= g;
+  const isVertical = height > width * 1.1;
+
+  if (isMonochrome) tags.push("black and white");
+  if (meanLuminance < 70) {
+    tags.push("dark", "low key");
+    adjectives.push("dark");
+  } else if (meanLuminance > 180) {
+    tags.push("bright", "high key");
+    adjectives.push("bright");
+  }
+  if (!isMonochrome && isWarm) {
+    tags.push("warm");
+    adjectives.push("warm");
+    if (meanLuminance >= 60 && meanLuminance <= 170 && r > g && g > b) tags.push("golden hour");
+  } else if (!isMonochrome && isCool) {
+    tags.push("cool");
+    adjectives.push("cool");
+  }
+  if (isGreen) tags.push("green", "foliage");
+  if (isBlue) tags.push("blue", "sky");
+  if (!isMonochrome && meanSaturation > 0.45) tags.push("colorful");
+  tags.push(isVertical ? "vertical" : width > height * 1.1 ? "horizontal" : "square");
+
+  const scene = isGreen || (isBlue && !isVertical)
+    ? SceneCategory.NATURE
+    : isVertical && isWarm && !isMonochrome
+      ? SceneCategory.PORTRAIT
+      : meanSaturation < 0.2
+        ? SceneCategory.URBAN
+        : SceneCategory.OTHER;
+  if (scene !== SceneCategory.OTHER) tags.push(scene.toLowerCase());
+
+  const description = [...adjectives, isMonochrome ? "black and white" : ""].filter(Boolean).join(", ");
+  const noun = sceneNouns[scene];
+  const caption = description
+    ? `A ${description} ${noun}.`
+    : `A${/^[aeiou]/.test(noun) ? "n" : ""} ${noun}.`;
+
+  return { caption, tags: [...new Set(tags)], scene };
+};
+
+// --- DECODING (browser only) ---
+
+// Same signature as the AI tagger; accepts raw base64 (no data URL prefix)
+export const tagLocally = async (imageBase64: string, mimeType = "image/jpeg"): Promise<Omit<TaggingResult, "model">> => {
+  const pixels = await loadPixels(`data:${mimeType};base64,${imageBase64}`, 256);
+  return suggestTags(computeImageStats(pixels), pixels.width, pixels.height);
+};
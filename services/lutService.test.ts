@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { applyLut, createIdentityLut, parseCube, sampleLut, serializeCube } from "./lutService";
+import { ValidationError } from "./validationService";
+import { Lut3D } from "../types";
+
+// 2x2x2 cube, red varying fastest: out = 1 - in
+const INVERT_CUBE = `TITLE "Invert"
+LUT_3D_SIZE 2
+1 1 1
+0 1 1
+1 0 1
+0 0 1
+1 1 0
+0 1 0
+1 0 0
+0 0 0
+`;
+
+const expectTriple = (actual: number[], expected: number[]) =>
+  actual.forEach((v, c) => expect(v).toBeCloseTo(expected[c], 5));
+
+const pixels = (...rgb: number[][]) => {
+  const data = new Uint8ClampedArray(rgb.length * 4);
+  rgb.forEach(([r, g, b], i) => data.set([r, g, b, 255], i * 4));
+  return { data, width: rgb.length, height: 1 };
+};
+
+describe("parseCube", () => {
+  it("round-trips an identity LUT through serializeCube", () => {
+    const identity = createIdentityLut(5, "Neutral");
+    const parsed = parseCube(serializeCube(identity));
+    expect(parsed.title).toBe("Neutral");
+    expect(parsed.size).toBe(5);
+    expect(parsed.domainMin).toEqual([0, 0, 0]);
+    expect(parsed.domainMax).toEqual([1, 1, 1]);
+    parsed.data.forEach((v, i) => expect(v).toBeCloseTo(identity.data[i], 5));
+  });
+
+  it("skips comments and blank lines and ignores unknown keywords", () => {
+    const text = "# header comment\n\n" + INVERT_CUBE.replace("LUT_3D_SIZE 2", "LUT_IN_VIDEO_RANGE\n\n  # indented comment\nLUT_3D_SIZE 2\r\n");
+    const lut = parseCube(text);
+    expect(lut.title).toBe("Invert");
+    expect(lut.size).toBe(2);
+    expect(Array.from(lut.data.slice(0, 3))).toEqual([1, 1, 1]);
+  });
+
+  it("uses the fallback title when there is none", () => {
+    expect(parseCube(INVERT_CUBE.replace('TITLE "Invert"\n', ""), "my-look").title).toBe("my-look");
+  });
+
+  it("reads DOMAIN_MIN / DOMAIN_MAX and LUT_3D_INPUT_RANGE", () => {
+    const lut = parseCube(INVERT_CUBE.replace("LUT_3D_SIZE 2", "LUT_3D_SIZE 2\nDOMAIN_MIN 0 0 0\nDOMAIN_MAX 2 4 1"));
+    expect(lut.domainMax).toEqual([2, 4, 1]);
+    const resolve = parseCube(INVERT_CUBE.replace("LUT_3D_SIZE 2", "LUT_3D_SIZE 2\nLUT_3D_INPUT_RANGE -1 1"));
+    expect(resolve.domainMin).toEqual([-1, -1, -1]);
+    expect(resolve.domainMax).toEqual([1, 1, 1]);
+  });
+
+  it("rejects a missing or non-numeric LUT_3D_INPUT_RANGE", () => {
+    const withRange = (range: string) => INVERT_CUBE.replace("LUT_3D_SIZE 2", `LUT_3D_SIZE 2\nLUT_3D_INPUT_RANGE ${range}`);
+    expect(() => parseCube(withRange("0"))).toThrow("expected two numbers");
+    expect(() => parseCube(withRange("0 max"))).toThrow(ValidationError);
+    expect(() => parseCube(withRange("NaN 1"))).toThrow(ValidationError);
+  });
+
+  it("rejects too few or too many entries", () => {
+    const lines = INVERT_CUBE.trim().split("\n");
+    expect(() => parseCube(lines.slice(0, -1).join("\n"))).toThrow("Expected 8 entries, found 7.");
+    expect(() => parseCube([...lines, "0 0 0"].join("\n"))).toThrow(ValidationError);
+  });
+
+  it("rejects missing, unsupported or 1D sizes", () => {
+    expect(() => parseCube("0 0 0\n")).toThrow(ValidationError);
+    expect(() => parseCube('TITLE "x"\n')).toThrow("LUT_3D_SIZE is missing");
+    expect(() => parseCube("LUT_3D_SIZE 1\n")).toThrow("Unsupported LUT_3D_SIZE");
+    expect(() => parseCube("LUT_3D_SIZE 200\n")).toThrow("Unsupported LUT_3D_SIZE");
+    expect(() => parseCube("LUT_1D_SIZE 1024\n")).toThrow("1D LUTs are not supported");
+  });
+
+  it("rejects malformed entries and an inverted domain", () => {
+    expect(() => parseCube(INVERT_CUBE.replace("0 1 1", "0 one 1"))).toThrow(ValidationError);
+    expect(() => parseCube(INVERT_CUBE.replace("LUT_3D_SIZE 2", "LUT_3D_SIZE 2\nDOMAIN_MIN 1 0 0"))).toThrow("DOMAIN_MIN must be below DOMAIN_MAX");
+  });
+});
+
+describe("sampleLut", () => {
+  const invert = parseCube(INVERT_CUBE);
+
+  it("returns the table entries at the corners", () => {
+    expectTriple(sampleLut(invert, 0, 0, 0), [1, 1, 1]);
+    expectTriple(sampleLut(invert, 1, 1, 1), [0, 0, 0]);
+    expectTriple(sampleLut(invert, 1, 0, 0), [0, 1, 1]);
+    expectTriple(sampleLut(invert, 0, 1, 1), [1, 0, 0]);
+  });
+
+  it("interpolates trilinearly between entries", () => {
+    expectTriple(sampleLut(invert, 0.5, 0.5, 0.5), [0.5, 0.5, 0.5]);
+    expectTriple(sampleLut(invert, 0.25, 0.5, 0.75), [0.75, 0.5, 0.25]);
+    // A non-linear table: only the white corner is lit, so the centre gets 1/8 of it
+    const corner: Lut3D = { ...createIdentityLut(2), data: new Float32Array(24) };
+    corner.data.set([1, 1, 1], 21);
+    expectTriple(sampleLut(corner, 0.5, 0.5, 0.5), [0.125, 0.125, 0.125]);
+  });
+
+  it("keeps an identity LUT neutral between grid points", () => {
+    const identity = createIdentityLut(17);
+    expectTriple(sampleLut(identity, 0.1, 0.37, 0.93), [0.1, 0.37, 0.93]);
+  });
+
+  it("scales inputs by the domain and clamps outside it", () => {
+    const wide: Lut3D = { ...createIdentityLut(2), domainMin: [0, 0, 0], domainMax: [2, 2, 2] };
+    expectTriple(sampleLut(wide, 1, 2, 0), [0.5, 1, 0]);
+    expectTriple(sampleLut(wide, -1, 3, 0.5), [0, 1, 0.25]);
+  });
+});
+
+describe("applyLut", () => {
+  const invert = parseCube(INVERT_CUBE);
+
+  it("grades pixels and leaves alpha alone", () => {
+    const buffer = pixels([0, 128, 255]);
+    buffer.data[3] = 77;
+    applyLut(buffer, { lut: invert, intensity: 100 });
+    expect(Array.from(buffer.data)).toEqual([255, 127, 0, 77]);
+  });
+
+  it("blends with the input by intensity", () => {
+    const half = pixels([0, 255, 100]);
+    applyLut(half, { lut: invert, intensity: 50 });
+    expect(Array.from(half.data.slice(0, 3))).toEqual([128, 128, 128]);
+
+    const none = pixels([10, 20, 30]);
+    applyLut(none, { lut: invert, intensity: 0 });
+    expect(Array.from(none.data.slice(0, 3))).toEqual([10, 20, 30]);
+  });
+});
@@ -0,0 +1,157 @@
+import { Lut3D, LutStage } from "../types";
+import { PixelBuffer } from "./filterService";
+import { ValidationError } from "./validationService";
+
+// .cube 3D LUTs (Adobe / Resolve format). Pure functions with no DOM access,
+// like the pixel math in filterService.
+
+const MAX_LUT_SIZE = 129; // 129^3 is already ~8 MB of floats; larger cubes are not worth it in a browser
+
+// --- PARSING ---
+
+export const parseCube = (text: string, fallbackTitle = "LUT"): Lut3D => {
+  let title = fallbackTitle;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  let data: Float32Array | null = null;
+  let count = 0;
+
+  const triple = (parts: string[], line: number): [number, number, number] => {
+    const values = parts.slice(0, 3).map(Number);
+    if (values.length < 3 || values.some(v => !Number.isFinite(v))) {
+      throw new ValidationError(`Line ${line}: expected three numbers.`);
+    }
+    return values as [number, number, number];
+  };
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith("#")) continue;
+    const parts = line.split(/\s+/);
+    const keyword = parts[0].toUpperCase();
+
+    if (keyword === "TITLE") {
+      title = line.slice(5).trim().replace(/^"|"$/g, "") || title;
+    } else if (keyword === "LUT_1D_SIZE") {
+      throw new ValidationError("1D LUTs are not supported. Use a 3D .cube file.");
+    } else if (keyword === "LUT_3D_SIZE") {
+      size = parseInt(parts[1], 10);
+      if (!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+        throw new ValidationError(`Unsupported LUT_3D_SIZE ${parts[1]} (2-${MAX_LUT_SIZE}).`);
+      }
+      data = new Float32Array(size * size * size * 3);
+    } else if (keyword === "DOMAIN_MIN") {
+      domainMin = triple(parts.slice(1), i + 1);
+    } else if (keyword === "DOMAIN_MAX") {
+      domainMax = triple(parts.slice(1), i + 1);
+    } else if (keyword === "LUT_3D_INPUT_RANGE") {
+      // Resolve variant: one min/max pair for all channels
+      const [min, max] = parts.slice(1, 3).map(Number);
+      if (!Number.isFinite(min) || !Number.isFinite(max)) {
+        throw new ValidationError(`Line ${i + 1}: expected two numbers.`);
+      }
+      domainMin = [min, min, min];
+      domainMax = [max, max, max];
+    } else if (/^[-+.\d]/.test(keyword)) {
+      if (!data) throw new ValidationError(`Line ${i + 1}: data before LUT_3D_SIZE.`);
+      if (count >= size * size * size) throw new ValidationError("The file has more entries than LUT_3D_SIZE allows.");
+      data.set(triple(parts, i + 1), count * 3);
+      count++;
+    }
+    // Any other keyword (LUT_IN_VIDEO_RANGE, vendor extensions...) is ignored
+  }
+
+  if (!data) throw new ValidationError("Not a .cube file: LUT_3D_SIZE is missing.");
+  if (count !== size * size * size) {
+    throw new ValidationError(`Expected ${size * size * size} entries, found ${count}.`);
+  }
+  if (domainMin.some((min, c) => min >= domainMax[c])) {
+    throw new ValidationError("DOMAIN_MIN must be below DOMAIN_MAX.");
+  }
+  return { title, size, domainMin, domainMax, data };
+};
+
+// --- WRITING ---
+
+export const createIdentityLut = (size: number, title = "Identity"): Lut3D => {
+  const data = new Float32Array(size * size * size * 3);
+  let i = 0;
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        data[i++] = r / (size - 1);
+        data[i++] = g / (size - 1);
+        data[i++] = b / (size - 1);
+      }
+    }
+  }
+  return { title, size, domainMin: [0, 0, 0], domainMax: [1, 1, 1], data };
+};
+
+export const serializeCube = (lut: Lut3D): string => {
+  const lines = [
+    `TITLE "${lut.title.replace(/"/g, "'")}"`,
+    "# Created with BananaLens",
+    `LUT_3D_SIZE ${lut.size}`,
+    `DOMAIN_MIN ${lut.domainMin.join(" ")}`,
+    `DOMAIN_MAX ${lut.domainMax.join(" ")}`,
+  ];
+  for (let i = 0; i < lut.data.length; i += 3) {
+    lines.push(`${lut.data[i].toFixed(6)} ${lut.data[i + 1].toFixed(6)} ${lut.data[i + 2].toFixed(6)}`);
+  }
+  return lines.join("\n") + "\n";
+};
+
+// --- SAMPLING ---
+
+// Trilinear interpolation. Inputs are in the LUT's domain; output is 0-1 (or
+// whatever range the file's values use).
+export const sampleLut = (lut: Lut3D, r: number, g: number, b: number): [number, number, number] => {
+  const { size, data, domainMin, domainMax } = lut;
+  const n = size - 1;
+  const scale = (v: number, c: number) => {
+    const t = (v - domainMin[c]) / (domainMax[c] - domainMin[c]);
+    return (t < 0 ? 0 : t > 1 ? 1 : t) * n;
+  };
+
+  const x = scale(r, 0), y = scale(g, 1), z = scale(b, 2);
+  const x0 = Math.min(Math.floor(x), n - 1), y0 = Math.min(Math.floor(y), n - 1), z0 = Math.min(Math.floor(z), n - 1);
+  const fx = x - x0, fy = y - y0, fz = z - z0;
+
+  const index = (ri: number, gi: number, bi: number) => ((bi * size + gi) * size + ri) * 3;
+  const out: [number, number, number] = [0, 0, 0];
+  for (let c = 0; c < 3; c++) {
+    const c000 = data[index(x0, y0, z0) + c], c100 = data[index(x0 + 1, y0, z0) + c];
+    const c010 = data[index(x0, y0 + 1, z0) + c], c110 = data[index(x0 + 1, y0 + 1, z0) + c];
+    const c001 = data[index(x0, y0, z0 + 1) + c], c101 = data[index(x0 + 1, y0, z0 + 1) + c];
+    const c011 = data[index(x0, y0 + 1, z0 + 1) + c], c111 = data[index(x0 + 1, y0 + 1, z0 + 1) + c];
+
+    const c00 = c000 + (c100 - c000) * fx;
+    const c10 = c010 + (c110 - c010) * fx;
+    const c01 = c001 + (c101 - c001) * fx;
+    const c11 = c011 + (c111 - c011) * fx;
+    const c0 = c00 + (c10 - c00) * fy;
+    const c1 = c01 + (c11 - c01) * fy;
+    out[c] = c0 + (c1 - c0) * fz;
+  }
+  return out;
+};
+
+// Grades the buffer in place, blended with the input by stage.intensity.
+// Pixel values are mapped into the LUT's domain assuming 0-255 = 0-1.
+export const applyLut = (buffer: PixelBuffer, { lut, intensity }: LutStage) => {
+  const mix = Math.min(100, Math.max(0, intensity)) / 100;
+  if (mix === 0) return;
+
+  const data = buffer.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    const [lr, lg, lb] = sampleLut(lut, r / 255, g / 255, b / 255);
+    // Uint8ClampedArray rounds and clamps on write
+    data[i] = r + (lr * 255 - r) * mix;
+    data[i + 1] = g + (lg * 255 - g) * mix;
+    data[i + 2] = b + (lb * 255 - b) * mix;
+  }
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { alphaToMask, compositeMasked, featherMask, isMaskEmpty, maskToAlpha } from "./maskService";
+import { PixelBuffer } from "./filterService";
+
+const row = (...rgba: number[][]): PixelBuffer => {
+  const data = new Uint8ClampedArray(rgba.length * 4);
+  rgba.forEach((px, i) => data.set(px, i * 4));
+  return { data, width: rgba.length, height: 1 };
+};
+
+// Black/white mask with the given coverage per pixel
+const mask = (...coverage: number[]) => row(...coverage.map(c => [c, c, c, 255]));
+
+const pixel = (buffer: PixelBuffer, index: number) => Array.from(buffer.data.slice(index * 4, index * 4 + 4));
+
+describe("compositeMasked", () => {
+  const original = () => row([10, 20, 30, 255], [11, 21, 31, 200], [12, 22, 32, 255], [13, 23, 33, 128]);
+  const edited = () => row([200, 100, 0, 255], [201, 101, 1, 255], [202, 102, 2, 255], [203, 103, 3, 255]);
+
+  it("leaves unmasked pixels byte-identical and takes the edit where the mask is full", () => {
+    const out = original();
+    compositeMasked(out, edited(), mask(0, 255, 0, 255));
+    expect(pixel(out, 0)).toEqual([10, 20, 30, 255]);
+    expect(pixel(out, 2)).toEqual([12, 22, 32, 255]);
+    expect(pixel(out, 1)).toEqual([201, 101, 1, 200]);
+    expect(pixel(out, 3)).toEqual([203, 103, 3, 128]);
+  });
+
+  it("blends by partial coverage and never touches alpha", () => {
+    const out = original();
+    compositeMasked(out, edited(), mask(0, 51, 0, 0));
+    expect(pixel(out, 1)).toEqual([49, 37, 25, 200]);
+  });
+});
+
+describe("featherMask", () => {
+  const edge = () => mask(...Array.from({ length: 40 }, (_, i) => (i < 20 ? 255 : 0)));
+
+  it("softens the edge but keeps the far ends full and empty", () => {
+    const feathered = edge();
+    featherMask(feathered, 2);
+    const coverage = Array.from({ length: 40 }, (_, i) => feathered.data[i * 4]);
+    expect(coverage[0]).toBe(255);
+    expect(coverage[39]).toBe(0);
+    expect(coverage[19]).toBeGreaterThan(0);
+    expect(coverage[19]).toBeLessThan(255);
+    expect(coverage[20]).toBeGreaterThan(0);
+    for (let i = 1; i < 40; i++) expect(coverage[i]).toBeLessThanOrEqual(coverage[i - 1]);
+  });
+
+  it("blends the edit across the feathered edge only", () => {
+    const feathered = edge();
+    featherMask(feathered, 2);
+    const base = row(...Array.from({ length: 40 }, () => [0, 0, 0, 255]));
+    compositeMasked(base, row(...Array.from({ length: 40 }, () => [255, 255, 255, 255])), feathered);
+    expect(pixel(base, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixel(base, 39)).toEqual([0, 0, 0, 255]);
+    expect(base.data[20 * 4]).toBeGreaterThan(0);
+    expect(base.data[20 * 4]).toBeLessThan(255);
+  });
+});
+
+describe("mask conversion", () => {
+  it("round-trips painted alpha through the black/white form", () => {
+    const painted = row([245, 158, 11, 255], [245, 158, 11, 0], [245, 158, 11, 128]);
+    const bw = alphaToMask(painted);
+    expect(pixel(bw, 2)).toEqual([128, 128, 128, 255]);
+    expect(Array.from(maskToAlpha(bw, [245, 158, 11]).data)).toEqual(Array.from(painted.data));
+  });
+
+  it("treats a mask without coverage as empty", () => {
+    expect(isMaskEmpty(mask(0, 0, 0))).toBe(true);
+    expect(isMaskEmpty(mask(0, 1, 0))).toBe(false);
+  });
+});
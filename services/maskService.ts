@@ -0,0 +1,145 @@
+import { MaskSettings, MaskTool } from "../types";
+import { BLUR_REFERENCE_EDGE, PixelBuffer, applyGaussianBlur } from "./filterService";
+
+// Region-limited Magic Edit. The user paints a mask over the photo, the mask is
+// sent along with the edit request, and the generated image is blended back into
+// the original only where the mask is set. Pixels outside the (feathered) mask are
+// copied from the original untouched, so they stay bit-identical.
+//
+// Masks travel as opaque black/white PNG data URLs: the red channel is the
+// coverage (255 = replace with the edit, 0 = keep the original).
+
+export const defaultMaskSettings: MaskSettings = {
+  tool: MaskTool.BRUSH,
+  brushSize: 40,
+  feather: 8,
+};
+
+// Converts a size in reference pixels (see BLUR_REFERENCE_EDGE) to pixels of an image
+export const toImagePixels = (size: number, width: number, height: number) =>
+  size * Math.max(width, height) / BLUR_REFERENCE_EDGE;
+
+// --- PIXEL MATH (pure) ---
+
+// Softens the mask edge in place. Coverage only spreads by about 2 sigma, and
+// anything that rounds to 0 still means "keep the original".
+export const featherMask = (mask: PixelBuffer, sigma: number) => {
+  applyGaussianBlur(mask, sigma);
+};
+
+// Blends `edited` into `original` in place by the mask's red channel. All three
+// buffers must be the same size. Where coverage is 0 the original bytes are left
+// as they are, not recomputed, so there is no rounding drift outside the mask.
+export const compositeMasked = (original: PixelBuffer, edited: PixelBuffer, mask: PixelBuffer) => {
+  const out = original.data;
+  const src = edited.data;
+  const m = mask.data;
+  for (let i = 0; i < out.length; i += 4) {
+    const coverage = m[i];
+    if (coverage === 0) continue;
+    if (coverage === 255) {
+      out[i] = src[i];
+      out[i + 1] = src[i + 1];
+      out[i + 2] = src[i + 2];
+      continue;
+    }
+    const t = coverage / 255;
+    out[i] = out[i] + (src[i] - out[i]) * t;
+    out[i + 1] = out[i + 1] + (src[i + 1] - out[i + 1]) * t;
+    out[i + 2] = out[i + 2] + (src[i + 2] - out[i + 2]) * t;
+  }
+};
+
+// Turns painted strokes (any colour, coverage in alpha) into the black/white form
+export const alphaToMask = (painted: PixelBuffer): PixelBuffer => {
+  const data = new Uint8ClampedArray(painted.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const a = painted.data[i + 3];
+    data[i] = a;
+    data[i + 1] = a;
+    data[i + 2] = a;
+    data[i + 3] = 255;
+  }
+  return { data, width: painted.width, height: painted.height };
+};
+
+// The reverse of alphaToMask: coverage back into alpha, painted in `color`
+export const maskToAlpha = (mask: PixelBuffer, color: [number, number, number]): PixelBuffer => {
+  const data = new Uint8ClampedArray(mask.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = color[0];
+    data[i + 1] = color[1];
+    data[i + 2] = color[2];
+    data[i + 3] = mask.data[i];
+  }
+  return { data, width: mask.width, height: mask.height };
+};
+
+export const isMaskEmpty = (mask: PixelBuffer) => {
+  for (let i = 0; i < mask.data.length; i += 4) {
+    if (mask.data[i] !== 0) return false;
+  }
+  return true;
+};
+
+// --- CANVAS HELPERS (browser only) ---
+
+// PNG data URL of the painted canvas in black/white form, or null if nothing is painted
+export const exportMask = (painted: HTMLCanvasElement): string | null => {
+  const ctx = painted.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  const mask = alphaToMask(ctx.getImageData(0, 0, painted.width, painted.height));
+  if (isMaskEmpty(mask)) return null;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = painted.width;
+  canvas.height = painted.height;
+  const out = canvas.getContext("2d");
+  if (!out) throw new Error("Canvas 2D context unavailable");
+  const imageData = out.createImageData(mask.width, mask.height);
+  imageData.data.set(mask.data);
+  out.putImageData(imageData, 0, 0);
+  return canvas.toDataURL("image/png");
+};
+
+const readPixels = (source: CanvasImageSource, width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(source, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+// Repaints a saved black/white mask onto an empty paint canvas, so new strokes
+// add to it instead of replacing it
+export const restoreMask = (painted: HTMLCanvasElement, maskImage: HTMLImageElement, color: [number, number, number]) => {
+  const ctx = painted.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  const mask = maskToAlpha(readPixels(maskImage, painted.width, painted.height), color);
+  const imageData = ctx.createImageData(mask.width, mask.height);
+  imageData.data.set(mask.data);
+  ctx.putImageData(imageData, 0, 0);
+};
+
+// Blends `edited` into `base` in place through the mask. The model may answer
+// at a different resolution; the edit and mask are scaled to match `base`.
+// Callers should encode the result losslessly (PNG), or the pixels outside the
+// mask would change after all.
+export const compositeOntoCanvas = (
+  base: HTMLCanvasElement,
+  edited: HTMLImageElement,
+  maskImage: HTMLImageElement,
+  feather: number
+) => {
+  const { width, height } = base;
+  const ctx = base.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  const pixels = ctx.getImageData(0, 0, width, height);
+  const mask = readPixels(maskImage, width, height);
+  featherMask(mask, toImagePixels(feather, width, height));
+  compositeMasked(pixels, readPixels(edited, width, height), mask);
+  ctx.putImageData(pixels, 0, 0);
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { applyExportMetadata, readMetadata } from "./metadataService";
+import { defaultSettings } from "../constants";
+import { ExportFormat, MetadataMode, PhotoMetadata } from "../types";
+
+// Smallest PNG the embedder accepts: signature, IHDR, IEND (CRCs aren't checked)
+const png = () => {
+  const bytes = new Uint8Array(8 + 25 + 12);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  bytes.set([0, 0, 0, 13, ..."IHDR"].map(c => typeof c === "string" ? c.charCodeAt(0) : c), 8);
+  bytes.set([0, 0, 0, 0, ..."IEND"].map(c => typeof c === "string" ? c.charCodeAt(0) : c), 33);
+  return new Blob([bytes], { type: "image/png" });
+};
+
+// SOI, a JFIF APP0 segment and EOI: enough for the JPEG embedder and reader
+const jpeg = () => new Blob([new Uint8Array([
+  0xff, 0xd8,
+  0xff, 0xe0, 0x00, 0x10, ..."JFIF".split("").map(c => c.charCodeAt(0)), 0, 1, 1, 0, 0, 1, 0, 1, 0, 0,
+  0xff, 0xd9,
+])], { type: "image/jpeg" });
+
+// Reads the EXIF UserComment (0x9286) text back out of a JPEG by walking
+// APP1 -> IFD0 -> Exif IFD, skipping its 8-byte character code
+const readUserComment = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const app1 = bytes.findIndex((b, i) => b === 0xff && bytes[i + 1] === 0xe1);
+  const tiff = app1 + 10; // Marker, length, "Exif\0\0"
+  const entry = (ifd: number, tag: number) => {
+    const count = view.getUint16(tiff + ifd, true);
+    for (let i = 0; i < count; i++) {
+      const at = tiff + ifd + 2 + i * 12;
+      if (view.getUint16(at, true) === tag) return { count: view.getUint32(at + 4, true), value: view.getUint32(at + 8, true) };
+    }
+    return undefined;
+  };
+  const exifIfd = entry(view.getUint32(tiff + 4, true), 0x8769)!.value;
+  const comment = entry(exifIfd, 0x9286);
+  if (!comment) return undefined;
+  const data = bytes.subarray(tiff + comment.value, tiff + comment.value + comment.count);
+  return { code: new TextDecoder().decode(data.subarray(0, 8)), text: new TextDecoder().decode(data.subarray(8)) };
+};
+
+const metadata: PhotoMetadata = {
+  make: "Canon",
+  description: "Harbour at dusk",
+  keywords: ["boats", "harbour", "café"],
+  gps: { latitude: 59.9, longitude: 10.75 },
+};
+
+const edit = { settings: { ...defaultSettings, brightness: 120 }, prompt: "warmer" };
+
+const exportWith = (mode: MetadataMode) =>
+  applyExportMetadata(png(), ExportFormat.PNG, { width: 1, height: 1 }, mode, metadata, edit);
+
+describe("applyExportMetadata", () => {
+  it("writes keywords, camera info and location when keeping everything", async () => {
+    const read = await readMetadata(await exportWith(MetadataMode.KEEP));
+    expect(read?.keywords).toEqual(["boats", "harbour", "café"]);
+    expect(read?.make).toBe("Canon");
+    expect(read?.description).toBe("Harbour at dusk");
+    expect(read?.gps?.latitude).toBeCloseTo(59.9, 4);
+    expect(read?.software).toBe("BananaLens");
+  });
+
+  it("keeps keywords but drops GPS when removing the location", async () => {
+    const read = await readMetadata(await exportWith(MetadataMode.REMOVE_LOCATION));
+    expect(read?.keywords).toEqual(["boats", "harbour", "café"]);
+    expect(read?.gps).toBeUndefined();
+  });
+
+  it("writes nothing, not even the edit record, when stripping", async () => {
+    const source = png();
+    const exported = await applyExportMetadata(source, ExportFormat.PNG, { width: 1, height: 1 }, MetadataMode.STRIP, metadata, edit);
+    expect(exported).toBe(source);
+    expect(await readMetadata(exported)).toBeUndefined();
+  });
+});
+
+describe("JPEG export", () => {
+  it("round-trips the edit record through the EXIF UserComment", async () => {
+    const exported = await applyExportMetadata(jpeg(), ExportFormat.JPEG, { width: 1, height: 1 }, MetadataMode.REMOVE_LOCATION, metadata, edit);
+    const comment = await readUserComment(exported);
+    expect(comment?.code).toBe("ASCII\0\0\0");
+    expect(JSON.parse(comment!.text)).toEqual({ editor: "BananaLens", prompt: "warmer", settings: { brightness: 120 } });
+
+    const read = await readMetadata(exported);
+    expect(read?.description).toBe("Harbour at dusk");
+    expect(read?.gps).toBeUndefined();
+  });
+
+  it("keeps the JFIF segment first", async () => {
+    const bytes = new Uint8Array(await (await applyExportMetadata(jpeg(), ExportFormat.JPEG, { width: 1, height: 1 }, MetadataMode.KEEP, metadata, edit)).arrayBuffer());
+    expect([bytes[2], bytes[3]]).toEqual([0xff, 0xe0]);
+    expect([bytes[20], bytes[21]]).toEqual([0xff, 0xe1]);
+  });
+});
@@ -0,0 +1,541 @@
+import { ExportFormat, FilterSettings, GpsLocation, MetadataMode, PhotoMetadata } from "../types";
+import { defaultSettings } from "../constants";
+import { crc32 } from "./zipService";
+
+// EXIF / IPTC support. Reading handles JPEG (APP1 EXIF + APP13 IPTC), PNG (eXIf)
+// and WebP (EXIF chunk). Writing produces a fresh EXIF block; IPTC fields are
+// folded into their EXIF equivalents (caption -> ImageDescription, keywords ->
+// XPKeywords, etc.).
+//
+// Imported files are stored as they are, Orientation tag included: every decode
+// applies it (<img> and canvas by default, createImageBitmap with
+// imageOrientation "from-image"), so the editor, thumbnails and AI uploads all
+// see the photo upright. Canvas output never carries metadata and its pixels
+// are already upright, so exports always write Orientation as 1.
+
+const SOFTWARE = "BananaLens";
+
+// --- TIFF TAGS ---
+
+const TAG = {
+  // IFD0
+  ImageDescription: 0x010e,
+  Make: 0x010f,
+  Model: 0x0110,
+  Orientation: 0x0112,
+  Software: 0x0131,
+  DateTime: 0x0132,
+  Artist: 0x013b,
+  Copyright: 0x8298,
+  ExifIfd: 0x8769,
+  XpKeywords: 0x9c9e, // Windows "Tags": UTF-16LE, separated by semicolons
+  GpsIfd: 0x8825,
+  // Exif IFD
+  ExposureTime: 0x829a,
+  FNumber: 0x829d,
+  Iso: 0x8827,
+  ExifVersion: 0x9000,
+  DateTimeOriginal: 0x9003,
+  UserComment: 0x9286,
+  FocalLength: 0x920a,
+  LensModel: 0xa434,
+  // GPS IFD
+  GpsVersion: 0x0000,
+  GpsLatitudeRef: 0x0001,
+  GpsLatitude: 0x0002,
+  GpsLongitudeRef: 0x0003,
+  GpsLongitude: 0x0004,
+  GpsAltitudeRef: 0x0005,
+  GpsAltitude: 0x0006,
+};
+
+const TYPE = { BYTE: 1, ASCII: 2, SHORT: 3, LONG: 4, RATIONAL: 5, UNDEFINED: 7, SLONG: 9, SRATIONAL: 10 };
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type TagValue = string | number[] | Uint8Array;
+
+// --- READING ---
+
+const ascii = (bytes: Uint8Array) => new TextDecoder().decode(bytes).replace(/\0+$/, "").trim();
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) =>
+  [...text].every((ch, i) => bytes[offset + i] === ch.charCodeAt(0));
+
+// Reads one IFD into a tag -> value map. Offsets are relative to the TIFF header.
+const readIfd = (view: DataView, tiff: number, offset: number, little: boolean): Map<number, TagValue> => {
+  const tags = new Map<number, TagValue>();
+  const count = view.getUint16(tiff + offset, little);
+
+  for (let i = 0; i < count; i++) {
+    const entry = tiff + offset + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const n = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] || 0) * n;
+    if (size === 0) continue;
+    const at = size <= 4 ? entry + 8 : tiff + view.getUint32(entry + 8, little);
+    if (at + size > view.byteLength) continue;
+
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + at, size);
+    const values: number[] = [];
+    switch (type) {
+      case TYPE.ASCII:
+        tags.set(tag, ascii(bytes));
+        continue;
+      case TYPE.UNDEFINED:
+        tags.set(tag, bytes.slice());
+        continue;
+      case TYPE.BYTE:
+        values.push(...bytes);
+        break;
+      case TYPE.SHORT:
+        for (let j = 0; j < n; j++) values.push(view.getUint16(at + j * 2, little));
+        break;
+      case TYPE.LONG:
+        for (let j = 0; j < n; j++) values.push(view.getUint32(at + j * 4, little));
+        break;
+      case TYPE.SLONG:
+        for (let j = 0; j < n; j++) values.push(view.getInt32(at + j * 4, little));
+        break;
+      case TYPE.RATIONAL:
+      case TYPE.SRATIONAL:
+        for (let j = 0; j < n; j++) {
+          const signed = type === TYPE.SRATIONAL;
+          const num = signed ? view.getInt32(at + j * 8, little) : view.getUint32(at + j * 8, little);
+          const den = signed ? view.getInt32(at + j * 8 + 4, little) : view.getUint32(at + j * 8 + 4, little);
+          values.push(den === 0 ? 0 : num / den);
+        }
+        break;
+    }
+    tags.set(tag, values);
+  }
+  return tags;
+};
+
+const text = (tags: Map<number, TagValue>, tag: number) => {
+  const value = tags.get(tag);
+  return typeof value === "string" && value ? value : undefined;
+};
+
+const keywordList = (tags: Map<number, TagValue>, tag: number) => {
+  const value = tags.get(tag);
+  if (!Array.isArray(value)) return undefined;
+  const keywords = new TextDecoder("utf-16le").decode(new Uint8Array(value)).replace(/\0+$/, "")
+    .split(";").map(keyword => keyword.trim()).filter(Boolean);
+  return keywords.length > 0 ? keywords : undefined;
+};
+
+const num = (tags: Map<number, TagValue>, tag: number) => {
+  const value = tags.get(tag);
+  return Array.isArray(value) && value.length > 0 && Number.isFinite(value[0]) ? value[0] : undefined;
+};
+
+const dmsToDegrees = (value: TagValue | undefined, ref: string | undefined) => {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === "S" || ref === "W" ? -degrees : degrees;
+};
+
+const readGps = (tags: Map<number, TagValue>): GpsLocation | undefined => {
+  const latitude = dmsToDegrees(tags.get(TAG.GpsLatitude), text(tags, TAG.GpsLatitudeRef));
+  const longitude = dmsToDegrees(tags.get(TAG.GpsLongitude), text(tags, TAG.GpsLongitudeRef));
+  if (latitude === undefined || longitude === undefined) return undefined;
+  const altitude = num(tags, TAG.GpsAltitude);
+  const below = num(tags, TAG.GpsAltitudeRef) === 1;
+  return { latitude, longitude, altitude: altitude === undefined ? undefined : below ? -altitude : altitude };
+};
+
+// "YYYY:MM:DD HH:MM:SS" -> "YYYY-MM-DDTHH:MM:SS"
+const exifDateToIso = (value?: string) => {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}` : undefined;
+};
+
+const parseTiff = (view: DataView, tiff: number): PhotoMetadata => {
+  const little = view.getUint16(tiff) === 0x4949; // "II" = Intel byte order
+  const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+  const exifOffset = num(ifd0, TAG.ExifIfd);
+  const gpsOffset = num(ifd0, TAG.GpsIfd);
+  const exif = exifOffset ? readIfd(view, tiff, exifOffset, little) : new Map<number, TagValue>();
+  const gps = gpsOffset ? readIfd(view, tiff, gpsOffset, little) : new Map<number, TagValue>();
+
+  return {
+    make: text(ifd0, TAG.Make),
+    model: text(ifd0, TAG.Model),
+    lens: text(exif, TAG.LensModel),
+    dateTaken: exifDateToIso(text(exif, TAG.DateTimeOriginal) || text(ifd0, TAG.DateTime)),
+    orientation: num(ifd0, TAG.Orientation),
+    exposureTime: num(exif, TAG.ExposureTime),
+    fNumber: num(exif, TAG.FNumber),
+    iso: num(exif, TAG.Iso),
+    focalLength: num(exif, TAG.FocalLength),
+    gps: readGps(gps),
+    description: text(ifd0, TAG.ImageDescription),
+    artist: text(ifd0, TAG.Artist),
+    copyright: text(ifd0, TAG.Copyright),
+    software: text(ifd0, TAG.Software),
+    keywords: keywordList(ifd0, TAG.XpKeywords),
+  };
+};
+
+// IPTC-IIM inside a Photoshop APP13 segment (resource 0x0404)
+const parseIptc = (bytes: Uint8Array, start: number, end: number): PhotoMetadata => {
+  const result: PhotoMetadata = {};
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  let p = start;
+
+  while (p + 12 <= end && startsWith(bytes, p, "8BIM")) {
+    const id = view.getUint16(p + 4);
+    const nameLength = bytes[p + 6];
+    const nameSize = (nameLength + 1) % 2 === 0 ? nameLength + 1 : nameLength + 2; // padded to even
+    const sizeAt = p + 6 + nameSize;
+    const size = view.getUint32(sizeAt);
+    const data = sizeAt + 4;
+
+    if (id === 0x0404) {
+      let q = data;
+      while (q + 5 <= data + size && bytes[q] === 0x1c) {
+        const record = bytes[q + 1];
+        const dataset = bytes[q + 2];
+        const length = view.getUint16(q + 3);
+        if (length & 0x8000) break; // Extended datasets are not used for text fields
+        const value = ascii(bytes.subarray(q + 5, q + 5 + length));
+        if (record === 2) {
+          if (dataset === 25) result.keywords = [...(result.keywords || []), value];
+          if (dataset === 80) result.artist = value;
+          if (dataset === 116) result.copyright = value;
+          if (dataset === 120) result.description = value;
+        }
+        q += 5 + length;
+      }
+    }
+    p = data + size + (size % 2);
+  }
+  return result;
+};
+
+// Drops undefined fields so spreads don't overwrite real values
+const compact = (metadata: PhotoMetadata): PhotoMetadata =>
+  Object.fromEntries(Object.entries(metadata).filter(([, v]) => v !== undefined && v !== "")) as PhotoMetadata;
+
+const parseJpeg = (bytes: Uint8Array): PhotoMetadata | undefined => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let exif: PhotoMetadata = {};
+  let iptc: PhotoMetadata = {};
+  let found = false;
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break; // Start of scan: no more metadata
+    const size = view.getUint16(offset + 2);
+    const start = offset + 4;
+
+    if (marker === 0xe1 && startsWith(bytes, start, "Exif\0\0")) {
+      exif = parseTiff(view, start + 6);
+      found = true;
+    } else if (marker === 0xed && startsWith(bytes, start, "Photoshop 3.0\0")) {
+      iptc = parseIptc(bytes, start + 14, offset + 2 + size);
+      found = true;
+    }
+    offset += 2 + size;
+  }
+  // EXIF wins where both are present; IPTC fills the gaps (and adds keywords)
+  return found ? { ...compact(iptc), ...compact(exif) } : undefined;
+};
+
+const parsePng = (bytes: Uint8Array): PhotoMetadata | undefined => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let offset = 8; offset + 8 <= bytes.length; ) {
+    const length = view.getUint32(offset);
+    if (startsWith(bytes, offset + 4, "eXIf")) return compact(parseTiff(view, offset + 8));
+    if (startsWith(bytes, offset + 4, "IDAT")) break;
+    offset += 12 + length;
+  }
+  return undefined;
+};
+
+const parseWebp = (bytes: Uint8Array): PhotoMetadata | undefined => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const size = view.getUint32(offset + 4, true);
+    if (startsWith(bytes, offset, "EXIF")) {
+      const start = startsWith(bytes, offset + 8, "Exif\0\0") ? offset + 14 : offset + 8;
+      return compact(parseTiff(view, start));
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return undefined;
+};
+
+// Reads EXIF/IPTC from an image file. Returns undefined when there is none or
+// the format is not supported; malformed metadata is ignored, never thrown.
+export const readMetadata = async (blob: Blob): Promise<PhotoMetadata | undefined> => {
+  try {
+    // Metadata always sits near the start of the file
+    const bytes = new Uint8Array(await blob.slice(0, 256 * 1024).arrayBuffer());
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return parseJpeg(bytes);
+    if (startsWith(bytes, 0, "\x89PNG")) return parsePng(bytes);
+    if (startsWith(bytes, 0, "RIFF") && startsWith(bytes, 8, "WEBP")) return parseWebp(bytes);
+  } catch (error) {
+    console.warn("Could not read photo metadata", error);
+  }
+  return undefined;
+};
+
+// --- WRITING ---
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  data: Uint8Array;
+}
+
+const le = (size: number, write: (view: DataView) => void) => {
+  const data = new Uint8Array(size);
+  write(new DataView(data.buffer));
+  return data;
+};
+
+const asciiEntry = (tag: number, value: string): IfdEntry => {
+  const data = new Uint8Array([...new TextEncoder().encode(value), 0]);
+  return { tag, type: TYPE.ASCII, count: data.length, data };
+};
+
+const shortEntry = (tag: number, value: number): IfdEntry =>
+  ({ tag, type: TYPE.SHORT, count: 1, data: le(2, v => v.setUint16(0, value, true)) });
+
+const longEntry = (tag: number, value: number): IfdEntry =>
+  ({ tag, type: TYPE.LONG, count: 1, data: le(4, v => v.setUint32(0, value, true)) });
+
+const byteEntry = (tag: number, values: number[]): IfdEntry =>
+  ({ tag, type: TYPE.BYTE, count: values.length, data: new Uint8Array(values) });
+
+// Null-terminated UTF-16LE, as the Windows XP* tags expect
+const utf16Entry = (tag: number, value: string): IfdEntry => {
+  const data = le((value.length + 1) * 2, v => {
+    for (let i = 0; i < value.length; i++) v.setUint16(i * 2, value.charCodeAt(i), true);
+  });
+  return { tag, type: TYPE.BYTE, count: data.length, data };
+};
+
+const undefinedEntry = (tag: number, data: Uint8Array): IfdEntry =>
+  ({ tag, type: TYPE.UNDEFINED, count: data.length, data });
+
+// Unsigned rationals with a fixed denominator; plenty of precision for EXIF values
+const rationalEntry = (tag: number, values: number[]): IfdEntry => ({
+  tag,
+  type: TYPE.RATIONAL,
+  count: values.length,
+  data: le(values.length * 8, v => values.forEach((value, i) => {
+    const den = value < 4000 ? 1000000 : 1;
+    v.setUint32(i * 8, Math.round(Math.abs(value) * den), true);
+    v.setUint32(i * 8 + 4, den, true);
+  })),
+});
+
+const degreesToDms = (degrees: number) => {
+  const abs = Math.abs(degrees);
+  const d = Math.floor(abs);
+  const m = Math.floor((abs - d) * 60);
+  return [d, m, (abs - d - m / 60) * 3600];
+};
+
+const toExifDate = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+const ifdLength = (entries: IfdEntry[]) =>
+  6 + entries.length * 12 + entries.reduce((sum, e) => sum + (e.data.length > 4 ? e.data.length + (e.data.length % 2) : 0), 0);
+
+const writeIfd = (out: Uint8Array, offset: number, entries: IfdEntry[]) => {
+  const view = new DataView(out.buffer, out.byteOffset);
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  view.setUint16(offset, sorted.length, true);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+
+  sorted.forEach((entry, i) => {
+    const p = offset + 2 + i * 12;
+    view.setUint16(p, entry.tag, true);
+    view.setUint16(p + 2, entry.type, true);
+    view.setUint32(p + 4, entry.count, true);
+    if (entry.data.length <= 4) {
+      out.set(entry.data, p + 8);
+    } else {
+      view.setUint32(p + 8, dataOffset, true);
+      out.set(entry.data, dataOffset);
+      dataOffset += entry.data.length + (entry.data.length % 2);
+    }
+  });
+  view.setUint32(offset + 2 + sorted.length * 12, 0, true); // No next IFD
+};
+
+export interface EditRecord {
+  settings: FilterSettings;
+  prompt?: string;
+}
+
+// Only the sliders that differ from the defaults, to keep the comment short
+const describeEdit = ({ settings, prompt }: EditRecord) => {
+  const changed = Object.fromEntries(
+    (Object.keys(settings) as (keyof FilterSettings)[])
+      .filter(key => settings[key] !== defaultSettings[key])
+      .map(key => [key, settings[key]])
+  );
+  return JSON.stringify({ editor: SOFTWARE, prompt: prompt || undefined, settings: changed });
+};
+
+// Builds a little-endian TIFF block (what goes after "Exif\0\0")
+export const buildExif = (metadata: PhotoMetadata, edit?: EditRecord): Uint8Array => {
+  const ifd0: IfdEntry[] = [
+    shortEntry(TAG.Orientation, 1),
+    asciiEntry(TAG.Software, SOFTWARE),
+    asciiEntry(TAG.DateTime, toExifDate(new Date())),
+  ];
+  if (metadata.description) ifd0.push(asciiEntry(TAG.ImageDescription, metadata.description));
+  if (metadata.make) ifd0.push(asciiEntry(TAG.Make, metadata.make));
+  if (metadata.model) ifd0.push(asciiEntry(TAG.Model, metadata.model));
+  if (metadata.artist) ifd0.push(asciiEntry(TAG.Artist, metadata.artist));
+  if (metadata.copyright) ifd0.push(asciiEntry(TAG.Copyright, metadata.copyright));
+  if (metadata.keywords?.length) ifd0.push(utf16Entry(TAG.XpKeywords, metadata.keywords.join(";")));
+
+  const exif: IfdEntry[] = [undefinedEntry(TAG.ExifVersion, new TextEncoder().encode("0232"))];
+  if (metadata.dateTaken) exif.push(asciiEntry(TAG.DateTimeOriginal, metadata.dateTaken.replace(/-/g, ":").replace("T", " ")));
+  if (metadata.exposureTime) exif.push(rationalEntry(TAG.ExposureTime, [metadata.exposureTime]));
+  if (metadata.fNumber) exif.push(rationalEntry(TAG.FNumber, [metadata.fNumber]));
+  if (metadata.iso) exif.push(shortEntry(TAG.Iso, Math.min(65535, Math.round(metadata.iso))));
+  if (metadata.focalLength) exif.push(rationalEntry(TAG.FocalLength, [metadata.focalLength]));
+  if (metadata.lens) exif.push(asciiEntry(TAG.LensModel, metadata.lens));
+  if (edit) {
+    // UserComment starts with an 8-byte character code
+    const comment = new TextEncoder().encode(describeEdit(edit));
+    exif.push(undefinedEntry(TAG.UserComment, new Uint8Array([..."ASCII\0\0\0"].map(c => c.charCodeAt(0)).concat([...comment]))));
+  }
+
+  const gps: IfdEntry[] = [];
+  if (metadata.gps) {
+    const { latitude, longitude, altitude } = metadata.gps;
+    gps.push(
+      byteEntry(TAG.GpsVersion, [2, 3, 0, 0]),
+      asciiEntry(TAG.GpsLatitudeRef, latitude < 0 ? "S" : "N"),
+      rationalEntry(TAG.GpsLatitude, degreesToDms(latitude)),
+      asciiEntry(TAG.GpsLongitudeRef, longitude < 0 ? "W" : "E"),
+      rationalEntry(TAG.GpsLongitude, degreesToDms(longitude)),
+    );
+    if (altitude !== undefined) {
+      gps.push(byteEntry(TAG.GpsAltitudeRef, [altitude < 0 ? 1 : 0]), rationalEntry(TAG.GpsAltitude, [altitude]));
+    }
+  }
+
+  // Pointer values are inline LONGs, so sizes are known before the offsets are
+  const exifPointer = longEntry(TAG.ExifIfd, 0);
+  const gpsPointer = longEntry(TAG.GpsIfd, 0);
+  ifd0.push(exifPointer);
+  if (gps.length > 0) ifd0.push(gpsPointer);
+
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdLength(ifd0);
+  const gpsOffset = exifOffset + ifdLength(exif);
+  exifPointer.data = longEntry(0, exifOffset).data;
+  gpsPointer.data = longEntry(0, gpsOffset).data;
+
+  const out = new Uint8Array(gpsOffset + (gps.length > 0 ? ifdLength(gps) : 0));
+  out.set([0x49, 0x49, 0x2a, 0x00, ifd0Offset, 0, 0, 0]); // "II*\0" + offset of IFD0
+  writeIfd(out, ifd0Offset, ifd0);
+  writeIfd(out, exifOffset, exif);
+  if (gps.length > 0) writeIfd(out, gpsOffset, gps);
+  return out;
+};
+
+// --- EMBEDDING ---
+
+const EXIF_HEADER = new Uint8Array([0x45, 0x78, 0x69, 0x66, 0, 0]); // "Exif\0\0"
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const embedJpeg = (bytes: Uint8Array, tiff: Uint8Array) => {
+  const length = 2 + EXIF_HEADER.length + tiff.length;
+  if (length > 0xffff) throw new Error("Metadata too large for a JPEG APP1 segment.");
+  const segment = concat(new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff]), EXIF_HEADER, tiff);
+  // Keep a JFIF APP0 segment first, as the JFIF spec requires
+  const insertAt = bytes[2] === 0xff && bytes[3] === 0xe0 ? 4 + ((bytes[4] << 8) | bytes[5]) : 2;
+  return concat(bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt));
+};
+
+const embedPng = (bytes: Uint8Array, tiff: Uint8Array) => {
+  const type = new TextEncoder().encode("eXIf");
+  const chunk = new Uint8Array(12 + tiff.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, tiff.length);
+  chunk.set(type, 4);
+  chunk.set(tiff, 8);
+  view.setUint32(8 + tiff.length, crc32(chunk.subarray(4, 8 + tiff.length)));
+  const afterIhdr = 8 + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8);
+  return concat(bytes.subarray(0, afterIhdr), chunk, bytes.subarray(afterIhdr));
+};
+
+// Simple WebP files (a lone VP8/VP8L chunk) have to be upgraded to the extended
+// VP8X layout before they can carry an EXIF chunk.
+const embedWebp = (bytes: Uint8Array, tiff: Uint8Array, width: number, height: number) => {
+  const exifChunk = new Uint8Array(8 + tiff.length + (tiff.length % 2));
+  exifChunk.set(new TextEncoder().encode("EXIF"));
+  new DataView(exifChunk.buffer).setUint32(4, tiff.length, true);
+  exifChunk.set(tiff, 8);
+
+  let body = bytes.slice(12);
+  if (startsWith(body, 0, "VP8X")) {
+    body[8] |= 0x08; // EXIF flag
+  } else {
+    const vp8x = new Uint8Array(18);
+    const view = new DataView(vp8x.buffer);
+    vp8x.set(new TextEncoder().encode("VP8X"));
+    view.setUint32(4, 10, true);
+    vp8x[8] = 0x08 | (startsWith(body, 0, "VP8L") ? 0x10 : 0); // EXIF, plus alpha for lossless
+    view.setUint16(12, (width - 1) & 0xffff, true);
+    vp8x[14] = ((width - 1) >> 16) & 0xff;
+    view.setUint16(15, (height - 1) & 0xffff, true);
+    vp8x[17] = ((height - 1) >> 16) & 0xff;
+    body = concat(vp8x, body);
+  }
+
+  const out = concat(bytes.subarray(0, 12), body, exifChunk);
+  new DataView(out.buffer).setUint32(4, out.length - 8, true); // RIFF size
+  return out;
+};
+
+// Returns a copy of `blob` carrying the photo's metadata as the export mode allows.
+// STRIP writes nothing at all, the edit record (settings and AI prompt) included.
+export const applyExportMetadata = async (
+  blob: Blob,
+  format: ExportFormat,
+  size: { width: number; height: number },
+  mode: MetadataMode,
+  metadata: PhotoMetadata | undefined,
+  edit: EditRecord
+): Promise<Blob> => {
+  if (mode === MetadataMode.STRIP) return blob;
+  const kept = mode === MetadataMode.REMOVE_LOCATION ? { ...metadata, gps: undefined } : { ...metadata };
+  const tiff = buildExif(kept, edit);
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+
+  try {
+    const embedded =
+      format === ExportFormat.JPEG ? embedJpeg(bytes, tiff)
+      : format === ExportFormat.PNG ? embedPng(bytes, tiff)
+      : embedWebp(bytes, tiff, size.width, size.height);
+    return new Blob([embedded], { type: format });
+  } catch (error) {
+    console.warn("Could not write metadata, exporting without it", error);
+    return blob;
+  }
+};
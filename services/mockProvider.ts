@@ -0,0 +1,129 @@
+import { AnalysisResult, AspectRatio, EditingProvider, GenerativeEditResult, ProviderId, ProviderRequestOptions, ReferenceImage, TaggingResult } from "../types";
+import { loadImage } from "./filterService";
+import { analyzeLocally } from "./localAnalyzer";
+import { tagLocally } from "./localTagger";
+import { AiCancelledError } from "./aiErrors";
+
+// Offline, deterministic stand-in for Gemini. Same input always gives the same
+// output, so it is safe for demos and end-to-end tests with no network or key.
+//
+// Browser only: every method decodes or draws on a canvas. The analysis and
+// tagging rules themselves are pure (computeImageStats / suggestSettings in
+// localAnalyzer, suggestTags in localTagger) and are what unit tests exercise.
+
+// Cast a Spell uses the local rule-based analyzer (histogram auto-levels, cast removal)
+const analyze = async (
+  imageBase64: string,
+  userPrompt = "",
+  _referenceImageBase64?: string,
+  options: ProviderRequestOptions = {}
+): Promise<AnalysisResult> => {
+  const result = await analyzeLocally(imageBase64, userPrompt);
+  if (options.signal?.aborted) throw new AiCancelledError();
+  return { ...result, reasoning: `[Offline] ${result.reasoning}` };
+};
+
+// Auto-tag uses the local colour/brightness tagger
+const tagImage = async (
+  imageBase64: string,
+  mimeType = "image/jpeg",
+  options: ProviderRequestOptions = {}
+): Promise<TaggingResult> => {
+  const result = await tagLocally(imageBase64, mimeType);
+  if (options.signal?.aborted) throw new AiCancelledError();
+  return { ...result, model: "offline-tagger" };
+};
+
+// --- GENERATIVE EDIT: canned transform ---
+// Mirrors the image and adds a vignette, so it's obvious an edit happened.
+// Each variation index gets a different vignette, so variations can be told apart.
+// options.mask is ignored; the caller composites the result through it anyway.
+const generativeEdit = async (
+  imageBase64: string,
+  _prompt: string,
+  mimeType = "image/jpeg",
+  options: ProviderRequestOptions = {}
+): Promise<GenerativeEditResult> => {
+  const img = await loadImage(`data:${mimeType};base64,${imageBase64}`);
+  if (options.signal?.aborted) throw new AiCancelledError();
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  ctx.translate(canvas.width, 0);
+  ctx.scale(-1, 1);
+  ctx.drawImage(img, 0, 0);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  const radius = Math.hypot(canvas.width, canvas.height) / 2;
+  const vignette = ctx.createRadialGradient(canvas.width / 2, canvas.height / 2, radius * 0.5, canvas.width / 2, canvas.height / 2, radius);
+  vignette.addColorStop(0, "rgba(0,0,0,0)");
+  const strength = 0.6 - ((options.variation || 0) % 4) * 0.15;
+  vignette.addColorStop(1, `rgba(0,0,0,${strength})`);
+  ctx.fillStyle = vignette;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  return { images: [canvas.toDataURL(mimeType).split(",")[1]], model: "offline-mirror" };
+};
+
+// --- CREATE: prompt-seeded gradient ---
+// A two-colour gradient picked from a hash of the prompt, with the prompt
+// written on it. The first reference image, if any, is blended in underneath.
+const CREATE_LONG_EDGE = 1024;
+
+const hashPrompt = (prompt: string) => {
+  let hash = 0;
+  for (let i = 0; i < prompt.length; i++) hash = (hash * 31 + prompt.charCodeAt(i)) | 0;
+  return Math.abs(hash);
+};
+
+const generateImage = async (
+  prompt: string,
+  aspectRatio: AspectRatio,
+  referenceImages: ReferenceImage[] = [],
+  options: ProviderRequestOptions = {}
+): Promise<GenerativeEditResult> => {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  const canvas = document.createElement("canvas");
+  canvas.width = w >= h ? CREATE_LONG_EDGE : Math.round((CREATE_LONG_EDGE * w) / h);
+  canvas.height = h >= w ? CREATE_LONG_EDGE : Math.round((CREATE_LONG_EDGE * h) / w);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  const hue = (hashPrompt(prompt) + (options.variation || 0) * 60) % 360;
+  const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+  gradient.addColorStop(0, `hsl(${hue}, 70%, 55%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 60%, 25%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  if (referenceImages[0]) {
+    const ref = await loadImage(`data:${referenceImages[0].mimeType};base64,${referenceImages[0].data}`);
+    const scale = Math.max(canvas.width / ref.naturalWidth, canvas.height / ref.naturalHeight);
+    ctx.globalAlpha = 0.5;
+    ctx.drawImage(ref, (canvas.width - ref.naturalWidth * scale) / 2, (canvas.height - ref.naturalHeight * scale) / 2, ref.naturalWidth * scale, ref.naturalHeight * scale);
+    ctx.globalAlpha = 1;
+  }
+  if (options.signal?.aborted) throw new AiCancelledError();
+
+  ctx.fillStyle = "rgba(255,255,255,0.85)";
+  ctx.font = `bold ${Math.round(canvas.width / 24)}px sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(prompt.length > 40 ? `${prompt.slice(0, 39)}…` : prompt, canvas.width / 2, canvas.height / 2, canvas.width * 0.9);
+
+  return { images: [canvas.toDataURL("image/png").split(",")[1]], model: "offline-gradient", mimeType: "image/png" };
+};
+
+export const mockProvider: EditingProvider = {
+  id: ProviderId.MOCK,
+  name: "Offline (Mock)",
+  description: "Runs locally with no network or API key. Rule-based auto-enhance for Cast a Spell, a canned transform for Magic Edit, a gradient placeholder for Create, colour-based auto-tags.",
+  isAvailable: () => true,
+  analyze,
+  generativeEdit,
+  generateImage,
+  tagImage,
+};
@@ -0,0 +1,131 @@
+import { FilterSettings, Preset } from "../types";
+import { defaultSettings } from "../constants";
+import { loadImage, renderFiltered } from "./filterService";
+import { isPlainObject, validateFilterSettings, ValidationError } from "./validationService";
+
+const STORAGE_KEY = "bananalens.presets";
+const FILE_FORMAT = "bananalens-presets";
+const FILE_VERSION = 1;
+const THUMBNAIL_EDGE = 96;
+
+const builtIn = (id: string, name: string, settings: Partial<FilterSettings>): Preset => ({
+  id: `builtin-${id}`,
+  name,
+  settings: { ...defaultSettings, ...settings },
+  builtIn: true,
+  createdAt: 0,
+});
+
+export const builtInPresets: Preset[] = [
+  builtIn("warm-film", "Warm Film", { contrast: 110, saturation: 90, sepia: 15, warmth: 35 }),
+  builtIn("cool-morning", "Cool Morning", { brightness: 105, saturation: 95, warmth: -30, tint: 5 }),
+  builtIn("vivid", "Vivid Pop", { contrast: 120, saturation: 140 }),
+  builtIn("faded", "Faded Matte", { brightness: 110, contrast: 80, saturation: 80, warmth: 10 }),
+  builtIn("noir", "Noir", { contrast: 135, grayscale: 100 }),
+  builtIn("sepia", "Old Photo", { contrast: 90, sepia: 80, warmth: 20 }),
+  builtIn("teal-magenta", "Teal & Magenta", { contrast: 110, warmth: -20, tint: 30 }),
+  builtIn("dreamy", "Dreamy", { brightness: 112, contrast: 85, saturation: 110, blur: 0.8, tint: 10 }),
+];
+
+// --- USER PRESETS (localStorage) ---
+
+export const loadUserPresets = (): Preset[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(saved) ? parsePresets(saved).presets : [];
+  } catch (error) {
+    console.warn("Ignoring unreadable presets", error);
+    return [];
+  }
+};
+
+export const saveUserPresets = (presets: Preset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.filter(p => !p.builtIn)));
+};
+
+const newId = () => Date.now().toString() + Math.random().toString().slice(2, 6);
+
+// Renders `imageUrl` with the preset's settings at thumbnail size
+const renderThumbnail = async (imageUrl: string, settings: FilterSettings) => {
+  const img = await loadImage(imageUrl);
+  const canvas = renderFiltered(document.createElement("canvas"), img, settings, THUMBNAIL_EDGE);
+  return canvas.toDataURL("image/jpeg", 0.7);
+};
+
+export const createPreset = async (
+  name: string,
+  settings: FilterSettings,
+  imageUrl?: string,
+  prompt?: string
+): Promise<Preset> => {
+  let thumbnail: string | undefined;
+  if (imageUrl) {
+    try {
+      thumbnail = await renderThumbnail(imageUrl, settings);
+    } catch (error) {
+      console.warn("Could not render preset thumbnail", error);
+    }
+  }
+  return { id: newId(), name: name.trim() || "Untitled", settings: { ...settings }, prompt, thumbnail, createdAt: Date.now() };
+};
+
+// --- IMPORT / EXPORT ---
+
+export const presetsToJson = (presets: Preset[]) =>
+  JSON.stringify(
+    {
+      format: FILE_FORMAT,
+      version: FILE_VERSION,
+      presets: presets.map(({ name, settings, prompt, thumbnail, createdAt }) => ({ name, settings, prompt, thumbnail, createdAt })),
+    },
+    null,
+    2
+  );
+
+// Validates presets from an untrusted source. Settings are clamped like AI
+// results; entries without a usable name or settings object are skipped.
+const parsePresets = (input: unknown[]): { presets: Preset[]; corrections: string[] } => {
+  const presets: Preset[] = [];
+  const corrections: string[] = [];
+
+  input.forEach((raw, i) => {
+    if (!isPlainObject(raw) || !isPlainObject(raw.settings)) {
+      corrections.push(`preset ${i + 1} skipped: no settings`);
+      return;
+    }
+    const name = typeof raw.name === "string" && raw.name.trim() ? raw.name.trim() : `Preset ${i + 1}`;
+    const settings = validateFilterSettings(raw.settings);
+    corrections.push(...settings.corrections.map(c => `${name}: ${c}`));
+    presets.push({
+      id: typeof raw.id === "string" ? raw.id : newId() + i,
+      name,
+      settings: settings.value,
+      prompt: typeof raw.prompt === "string" ? raw.prompt : undefined,
+      thumbnail: typeof raw.thumbnail === "string" && raw.thumbnail.startsWith("data:image/") ? raw.thumbnail : undefined,
+      createdAt: typeof raw.createdAt === "number" ? raw.createdAt : Date.now(),
+    });
+  });
+  return { presets, corrections };
+};
+
+// Accepts a preset file, a bare array of presets, or a single preset object.
+// Imported presets always get fresh ids so they never replace existing ones.
+export const parsePresetFile = (text: string): { presets: Preset[]; corrections: string[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ValidationError("This file is not valid JSON.");
+  }
+
+  const file = isPlainObject(data) ? data : {};
+  const list = Array.isArray(data) ? data : Array.isArray(file.presets) ? file.presets : file.settings ? [data] : null;
+  if (!list) throw new ValidationError("No presets found in this file.");
+  if (file.format === FILE_FORMAT && typeof file.version === "number" && file.version > FILE_VERSION) {
+    throw new ValidationError("These presets were made by a newer version of BananaLens.");
+  }
+
+  const result = parsePresets(list);
+  result.presets = result.presets.map((preset, i) => ({ ...preset, id: newId() + i }));
+  return result;
+};
@@ -0,0 +1,48 @@
+import { EditingProvider, PayloadSize, ProviderId, ProviderRequestOptions } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+import { addPayloads } from "./imagePayloadService";
+
+const STORAGE_KEY = "bananalens.provider";
+
+export const providers: EditingProvider[] = [geminiProvider, mockProvider];
+
+export const getProvider = (id: ProviderId): EditingProvider =>
+  providers.find(p => p.id === id) || mockProvider;
+
+// The user's saved choice if it is usable, otherwise Gemini when a key is
+// configured, otherwise the offline mock.
+export const getInitialProviderId = (): ProviderId => {
+  const saved = localStorage.getItem(STORAGE_KEY) as ProviderId | null;
+  if (saved && getProvider(saved).id === saved && getProvider(saved).isAvailable()) return saved;
+  return geminiProvider.isAvailable() ? ProviderId.GEMINI : ProviderId.MOCK;
+};
+
+export const saveProviderId = (id: ProviderId) => {
+  localStorage.setItem(STORAGE_KEY, id);
+};
+
+// Runs a Magic Edit `count` times in parallel and collects up to `count` images.
+// Calls that fail are dropped as long as at least one succeeds; otherwise the
+// first error is rethrown (so cancellation still surfaces as AiCancelledError).
+// `payload` adds up what every call uploaded.
+export const generateVariations = async (
+  provider: EditingProvider,
+  imageBase64: string,
+  prompt: string,
+  mimeType: string,
+  count: number,
+  options: ProviderRequestOptions = {}
+): Promise<{ variations: { image: string; model: string; mimeType?: string }[]; payload?: PayloadSize }> => {
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, (_, variation) => provider.generativeEdit(imageBase64, prompt, mimeType, { ...options, variation }))
+  );
+  const fulfilled = results.flatMap(r => r.status === "fulfilled" ? [r.value] : []);
+  const variations = fulfilled
+    .flatMap(result => result.images.map(image => ({ image, model: result.model, mimeType: result.mimeType })))
+    .slice(0, count);
+  if (variations.length === 0) {
+    throw (results.find(r => r.status === "rejected") as PromiseRejectedResult).reason;
+  }
+  return { variations, payload: addPayloads(fulfilled.map(result => result.payload)) };
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { canMoveOperation, createStack, isOperationLocked, pushOperation } from "./stackService";
+import { defaultSettings } from "../constants";
+import { EditOperation, EditStack, OperationType, ProviderId } from "../types";
+
+const adjust = (id: string): EditOperation =>
+  ({ id, type: OperationType.ADJUST, label: id, enabled: true, timestamp: 0, settings: defaultSettings });
+
+const generative = (id: string, enabled = true): EditOperation =>
+  ({ id, type: OperationType.GENERATIVE, label: id, enabled, timestamp: 0, prompt: "", provider: ProviderId.MOCK, model: "mock", result: "data:," });
+
+const stackOf = (...operations: EditOperation[]): EditStack =>
+  operations.reduce(pushOperation, createStack("data:,"));
+
+describe("edit stack locking", () => {
+  it("locks every step below a Magic Edit, even a hidden one", () => {
+    const stack = stackOf(adjust("a"), generative("g", false), adjust("b"));
+    expect(isOperationLocked(stack, "a")).toBe(true);
+    expect(isOperationLocked(stack, "g")).toBe(false);
+    expect(isOperationLocked(stack, "b")).toBe(false);
+  });
+
+  it("only moves unlocked steps past each other", () => {
+    const stack = stackOf(adjust("a"), generative("g"), adjust("b"), adjust("c"));
+    expect(canMoveOperation(stack, "c", -1)).toBe(true);
+    expect(canMoveOperation(stack, "b", 1)).toBe(true);
+    expect(canMoveOperation(stack, "b", -1)).toBe(false); // Past the Magic Edit
+    expect(canMoveOperation(stack, "g", 1)).toBe(false);
+    expect(canMoveOperation(stack, "a", 1)).toBe(false);
+    expect(canMoveOperation(stack, "c", 1)).toBe(false); // Already at the top
+  });
+});
@@ -0,0 +1,131 @@
+import { EditOperation, EditStack, GenerativeOperation, OperationType } from "../types";
+import { applyFilters, loadImage } from "./filterService";
+import { compositeOntoCanvas } from "./maskService";
+import { renderGeometry } from "./geometryService";
+
+// Non-destructive edit stack: the original source plus an ordered list of
+// operations. The working image is always re-rendered from the source, so any
+// step can be switched off, moved or removed later without losing the original.
+
+export const newOperationId = () => Date.now().toString() + Math.random().toString().slice(2, 6);
+
+export const createStack = (source: string): EditStack => ({ source, operations: [] });
+
+// --- STACK EDITS (pure) ---
+
+export const pushOperation = (stack: EditStack, operation: EditOperation): EditStack => ({
+  ...stack,
+  operations: [...stack.operations, operation],
+});
+
+export const toggleOperation = (stack: EditStack, id: string): EditStack => ({
+  ...stack,
+  operations: stack.operations.map(op => op.id === id ? { ...op, enabled: !op.enabled } : op),
+});
+
+export const removeOperation = (stack: EditStack, id: string): EditStack => ({
+  ...stack,
+  operations: stack.operations.filter(op => op.id !== id),
+});
+
+// Moves a step up (-1) or down (+1) the stack
+export const moveOperation = (stack: EditStack, id: string, offset: number): EditStack => {
+  const operations = [...stack.operations];
+  const from = operations.findIndex(op => op.id === id);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= operations.length) return stack;
+  const [op] = operations.splice(from, 1);
+  operations.splice(to, 0, op);
+  return { ...stack, operations };
+};
+
+// A Magic Edit result (and its mask) was made from the image the steps below
+// it rendered at the time, so those steps are locked while it is in the stack:
+// hiding, moving or removing them would leave the result misaligned. Remove the
+// Magic Edit first to change them.
+export const isOperationLocked = (stack: EditStack, id: string) => {
+  const index = stack.operations.findIndex(op => op.id === id);
+  return index !== -1 && stack.operations.slice(index + 1).some(op => op.type === OperationType.GENERATIVE);
+};
+
+// A move swaps two neighbouring steps. Neither may be locked, and a Magic Edit
+// can't move either, since that changes the steps underneath it.
+export const canMoveOperation = (stack: EditStack, id: string, offset: number) => {
+  const from = stack.operations.findIndex(op => op.id === id);
+  const pair = [stack.operations[from], stack.operations[from + offset]];
+  return from !== -1 && pair.every(op => op && op.type !== OperationType.GENERATIVE && !isOperationLocked(stack, op.id));
+};
+
+export const hasActiveOperations = (stack?: EditStack | null) =>
+  !!stack && stack.operations.some(op => op.enabled);
+
+// Every image URL the stack refers to (source, generated results, masks)
+export const getStackUrls = (stack: EditStack): string[] => [
+  stack.source,
+  ...stack.operations.flatMap(op => op.type === OperationType.GENERATIVE ? [op.result, ...(op.mask ? [op.mask] : [])] : []),
+];
+
+// An EditStack whose image URLs have been swapped for another kind of reference
+export interface MappedStack<T> {
+  source: T;
+  operations: (Exclude<EditOperation, GenerativeOperation> | (Omit<GenerativeOperation, "result" | "mask"> & { result: T; mask?: T }))[];
+}
+
+// Rewrites every image reference in the stack, e.g. URLs to storage indexes and back
+export const mapStackUrls = <A, B>(stack: MappedStack<A>, map: (ref: A) => B): MappedStack<B> => ({
+  source: map(stack.source),
+  operations: stack.operations.map(op => op.type === OperationType.GENERATIVE
+    ? { ...op, result: map(op.result), mask: op.mask !== undefined ? map(op.mask) : undefined }
+    : op),
+});
+
+// --- RENDERING (browser only) ---
+
+const imageToCanvas = (img: HTMLImageElement) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(img, 0, 0);
+  return canvas;
+};
+
+const applyOperation = async (canvas: HTMLCanvasElement, op: EditOperation): Promise<HTMLCanvasElement> => {
+  switch (op.type) {
+    case OperationType.GENERATIVE: {
+      const result = await loadImage(op.result);
+      // Unmasked edits replace the whole image; masked ones only the painted area
+      if (!op.mask) return imageToCanvas(result);
+      compositeOntoCanvas(canvas, result, await loadImage(op.mask), op.feather || 0);
+      return canvas;
+    }
+    case OperationType.ADJUST: {
+      const ctx = canvas.getContext("2d", { willReadFrequently: true });
+      if (!ctx) throw new Error("Canvas 2D context unavailable");
+      const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      applyFilters(pixels, op.settings);
+      ctx.putImageData(pixels, 0, 0);
+      return canvas;
+    }
+    case OperationType.GEOMETRY:
+      return renderGeometry(document.createElement("canvas"), canvas, op.geometry);
+  }
+};
+
+// Renders the enabled operations over the source and returns the working image
+// as a PNG Blob URL (lossless, so masked edits keep the rest bit-identical).
+// With nothing enabled the source itself is returned.
+export const renderStack = async (stack: EditStack): Promise<string> => {
+  const active = stack.operations.filter(op => op.enabled);
+  if (active.length === 0) return stack.source;
+
+  let canvas = imageToCanvas(await loadImage(stack.source));
+  for (const op of active) {
+    canvas = await applyOperation(canvas, op);
+  }
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/png"));
+  if (!blob) throw new Error("Failed to encode the rendered image");
+  return URL.createObjectURL(blob);
+};
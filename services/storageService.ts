@@ -0,0 +1,330 @@
+import { PhotoItem, EditHistory, EditStack, HistoryEntry } from "../types";
+import { defaultSettings } from "../constants";
+import { MappedStack, getStackUrls, mapStackUrls } from "./stackService";
+import { createThumbnail } from "./thumbnailService";
+
+// --- DATABASE LAYOUT ---
+// DB_VERSION bumps when object stores / indexes change (handled in onupgradeneeded).
+// SCHEMA_VERSION bumps when the shape of PhotoItem / FilterSettings changes
+// (handled per record in migrateRecord, so old photos are upgraded lazily on load).
+const DB_NAME = "bananalens";
+const DB_VERSION = 1;
+const PHOTO_STORE = "photos";
+export const SCHEMA_VERSION = 4;
+
+// Every other image a photo refers to (history steps, edit stack sources,
+// generated results, masks) is stored once in StoredPhoto.assets; records point
+// at them by index. Index -1 means "same as the photo's main blob".
+type StoredStack = MappedStack<number>;
+
+interface StoredHistory {
+  entries: (Omit<HistoryEntry, "image" | "stack"> & { imageIndex: number; stack?: StoredStack })[];
+  index: number;
+}
+
+// What actually lives in IndexedDB: the image bytes as a Blob instead of a
+// base64 data URL, plus everything else from PhotoItem. Photos saved before
+// thumbnails existed have none until addMissingThumbnails runs.
+interface StoredPhoto extends Omit<PhotoItem, "originalUrl" | "previewUrl" | "thumbnailUrl" | "history" | "stack"> {
+  schemaVersion: number;
+  blob: Blob;
+  thumbnail?: Blob;
+  assets: Blob[];
+  history?: StoredHistory;
+  stack?: StoredStack;
+}
+
+export class StorageQuotaError extends Error {
+  constructor(message = "Browser storage is full. Delete some photos from your collection and try again.") {
+    super(message);
+    this.name = "StorageQuotaError";
+  }
+}
+
+export class StorageUnavailableError extends Error {
+  constructor(message = "Browser storage (IndexedDB) is not available. Your collection will not be saved.") {
+    super(message);
+    this.name = "StorageUnavailableError";
+  }
+}
+
+const isQuotaError = (error: any): boolean =>
+  error?.name === "QuotaExceededError" || error?.name === "NS_ERROR_DOM_QUOTA_REACHED";
+
+const toStorageError = (error: any): Error =>
+  isQuotaError(error) ? new StorageQuotaError() : error;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new StorageUnavailableError());
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const oldVersion = event.oldVersion;
+
+      // Each block upgrades from the previous DB_VERSION, so users skipping
+      // versions still run every step in order.
+      if (oldVersion < 1) {
+        const store = db.createObjectStore(PHOTO_STORE, { keyPath: "id" });
+        store.createIndex("timestamp", "timestamp");
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("Database upgrade blocked. Close other BananaLens tabs and reload."));
+  });
+
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// Wraps a single transaction. Resolves once the transaction has committed,
+// so quota errors raised at commit time are caught as well.
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise<T | undefined>((resolve, reject) => {
+    let tx: IDBTransaction;
+    try {
+      tx = db.transaction(PHOTO_STORE, mode);
+    } catch (error) {
+      reject(toStorageError(error));
+      return;
+    }
+
+    let result: T | undefined;
+    const request = work(tx.objectStore(PHOTO_STORE));
+    if (request) {
+      request.onsuccess = () => { result = request.result; };
+    }
+
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(toStorageError(tx.error));
+    tx.onabort = () => reject(toStorageError(tx.error));
+  });
+};
+
+// --- SCHEMA MIGRATION ---
+// Brings a record written by an older build up to SCHEMA_VERSION.
+// Add a new `if (version < N)` step whenever PhotoItem / FilterSettings change
+// (FilterSettings changes must also be applied to history.entries[].settings).
+const migrateRecord = (record: any): StoredPhoto => {
+  const version: number = record.schemaVersion ?? 0;
+  const migrated = { ...record };
+
+  if (version < 1) {
+    // v0 -> v1: settings may be missing fields added after the record was written
+    migrated.settings = { ...defaultSettings, ...(record.settings || {}) };
+    migrated.name = record.name || "Untitled";
+    migrated.timestamp = record.timestamp || Date.now();
+  }
+
+  if (version < 2) {
+    // v1 -> v2: FilterSettings gained `tint`
+    migrated.settings = { ...migrated.settings, tint: migrated.settings.tint ?? 0 };
+  }
+
+  if (version < 3) {
+    // v2 -> v3: history images moved to the shared `assets` list (same indexes)
+    migrated.assets = record.history?.images || [];
+    if (record.history) {
+      const { images, ...history } = record.history;
+      migrated.history = history;
+    }
+  }
+
+  if (version < 4 && migrated.history) {
+    // v3 -> v4: history steps carry the LUT. Older steps get the one the photo was saved with.
+    migrated.history = {
+      ...migrated.history,
+      entries: migrated.history.entries.map((entry: any) => ({ ...entry, lut: record.lut })),
+    };
+  }
+
+  migrated.schemaVersion = SCHEMA_VERSION;
+  return migrated as StoredPhoto;
+};
+
+const urlToBlob = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  return response.blob();
+};
+
+// Collects the URLs to store as assets, handing out an index for each
+const createAssetPool = (mainUrl: string) => {
+  const urls: string[] = [];
+  const add = (url: string) => {
+    if (url === mainUrl) return -1;
+    const index = urls.indexOf(url);
+    return index === -1 ? urls.push(url) - 1 : index;
+  };
+  return { urls, add };
+};
+
+// Steps share their LutStage objects; IndexedDB's structured clone keeps shared
+// objects shared, so a LUT is stored once per photo, not once per step.
+const serializeHistory = (history: EditHistory, add: (url: string) => number): StoredHistory => ({
+  index: history.index,
+  entries: history.entries.map(({ image, stack, ...entry }) => ({
+    ...entry,
+    imageIndex: add(image),
+    stack: stack ? mapStackUrls(stack, add) : undefined,
+  })),
+});
+
+const deserializeHistory = (stored: StoredHistory, urlAt: (index: number) => string): EditHistory => ({
+  index: stored.index,
+  entries: stored.entries.map(({ imageIndex, stack, ...entry }) => ({
+    ...entry,
+    image: urlAt(imageIndex),
+    stack: stack ? mapStackUrls(stack, urlAt) as EditStack : undefined,
+  })),
+});
+
+// Blob URLs don't read anything yet: full-resolution bytes stay on disk until
+// an image is opened or exported, the grids only touch the thumbnail.
+const toPhotoItem = (record: StoredPhoto): PhotoItem => {
+  const { blob, thumbnail, schemaVersion, assets, history, stack, ...rest } = record;
+  const originalUrl = URL.createObjectURL(blob);
+  const assetUrls = assets.map(asset => URL.createObjectURL(asset));
+  const urlAt = (index: number) => index === -1 ? originalUrl : assetUrls[index];
+  return {
+    ...rest,
+    originalUrl,
+    thumbnailUrl: thumbnail ? URL.createObjectURL(thumbnail) : undefined,
+    history: history ? deserializeHistory(history, urlAt) : undefined,
+    stack: stack ? mapStackUrls(stack, urlAt) as EditStack : undefined,
+  };
+};
+
+// --- PUBLIC API ---
+
+// Loads every saved photo, newest first. Records from older schema versions
+// are migrated and written back.
+export const loadCollection = async (): Promise<PhotoItem[]> => {
+  const records = (await runTransaction<any[]>("readonly", (store) => store.getAll())) || [];
+
+  const stale = records.filter(r => (r.schemaVersion ?? 0) < SCHEMA_VERSION);
+  const migrated = records.map(migrateRecord);
+
+  if (stale.length > 0) {
+    const staleIds = new Set(stale.map(r => r.id));
+    try {
+      await runTransaction("readwrite", (store) => {
+        migrated.filter(r => staleIds.has(r.id)).forEach(r => store.put(r));
+      });
+    } catch (error) {
+      // Migration write-back is best effort; the in-memory copy is already upgraded
+      console.warn("Failed to persist migrated photos", error);
+    }
+  }
+
+  return migrated
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .map(toPhotoItem);
+};
+
+// A thumbnail that fails to decode is not worth failing the save over
+const tryCreateThumbnail = (blob: Blob) =>
+  createThumbnail(blob).catch((error) => {
+    console.warn("Failed to create thumbnail", error);
+    return undefined;
+  });
+
+// Saves (or overwrites) photos. Pass the source Blob/File (and thumbnail) when
+// you have them to avoid re-reading them from the item's URLs. Items without a
+// thumbnailUrl get a new thumbnail; returns the items with it filled in.
+export const savePhotos = async (items: { item: PhotoItem; blob?: Blob; thumbnail?: Blob }[]): Promise<PhotoItem[]> => {
+  // Resolve all blobs first: IndexedDB transactions auto-commit when we await
+  const records: StoredPhoto[] = await Promise.all(items.map(async ({ item, blob, thumbnail }) => {
+    const { originalUrl, previewUrl, thumbnailUrl, history, stack, ...rest } = item;
+    const pool = createAssetPool(originalUrl);
+    const storedHistory = history ? serializeHistory(history, pool.add) : undefined;
+    const storedStack = stack ? mapStackUrls(stack, pool.add) : undefined;
+    const mainBlob = blob || await urlToBlob(originalUrl);
+    return {
+      ...rest,
+      schemaVersion: SCHEMA_VERSION,
+      blob: mainBlob,
+      thumbnail: thumbnail || (thumbnailUrl ? await urlToBlob(thumbnailUrl) : await tryCreateThumbnail(mainBlob)),
+      assets: await Promise.all(pool.urls.map(urlToBlob)),
+      history: storedHistory,
+      stack: storedStack,
+    };
+  }));
+
+  await runTransaction("readwrite", (store) => {
+    records.forEach(record => store.put(record));
+  });
+
+  return items.map(({ item }, i) => item.thumbnailUrl || !records[i].thumbnail
+    ? item
+    : { ...item, thumbnailUrl: URL.createObjectURL(records[i].thumbnail!) });
+};
+
+export const savePhoto = async (item: PhotoItem, blob?: Blob): Promise<PhotoItem> =>
+  (await savePhotos([{ item, blob }]))[0];
+
+// Writes the fields of `item` that aren't images (name, rating, tags, settings,
+// metadata...) over its stored record, leaving every blob as it is. Only for
+// changes that don't touch originalUrl, history or stack; use savePhoto for those.
+export const updatePhotoFields = async (item: PhotoItem): Promise<void> => {
+  const { originalUrl, previewUrl, thumbnailUrl, history, stack, ...fields } = item;
+  await runTransaction("readwrite", (store) => {
+    const request = store.get(item.id);
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, ...fields });
+    };
+  });
+};
+
+// Creates and stores thumbnails for photos saved before there were any, one at
+// a time in the background. Calls onThumbnail as each one is ready.
+export const addMissingThumbnails = async (items: PhotoItem[], onThumbnail: (id: string, thumbnailUrl: string) => void): Promise<void> => {
+  for (const item of items.filter(i => !i.thumbnailUrl)) {
+    try {
+      const thumbnail = await createThumbnail(await urlToBlob(item.originalUrl));
+      await runTransaction("readwrite", (store) => {
+        const request = store.get(item.id);
+        request.onsuccess = () => {
+          if (request.result) store.put({ ...request.result, thumbnail });
+        };
+      });
+      onThumbnail(item.id, URL.createObjectURL(thumbnail));
+    } catch (error) {
+      console.warn("Failed to create thumbnail for", item.name, error);
+    }
+  }
+};
+
+export const deletePhotos = async (ids: string[]): Promise<void> => {
+  await runTransaction("readwrite", (store) => {
+    ids.forEach(id => store.delete(id));
+  });
+};
+
+// Frees the object URLs created by loadCollection / import for a removed item
+export const releasePhotoUrl = (item: PhotoItem) => {
+  const urls = new Set([
+    item.originalUrl,
+    ...(item.thumbnailUrl ? [item.thumbnailUrl] : []),
+    ...(item.stack ? getStackUrls(item.stack) : []),
+    ...(item.history?.entries.flatMap(e => [e.image, ...(e.stack ? getStackUrls(e.stack) : [])]) || []),
+  ]);
+  urls.forEach(url => {
+    if (url.startsWith("blob:")) URL.revokeObjectURL(url);
+  });
+};
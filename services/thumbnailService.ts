@@ -0,0 +1,116 @@
+import { FilterSettings, LutStage } from "../types";
+import {
+  ThumbnailResponse, ThumbnailTaskArgs, ThumbnailTaskName, ThumbnailTaskResult, UploadProfile, runThumbnailTask,
+} from "./thumbnailTasks";
+
+// Import decoding, stored thumbnails and filtered grid previews, run in a Web
+// Worker so that importing or scrolling a large library never blocks the UI.
+// Falls back to the main thread when Workers / OffscreenCanvas are unavailable.
+//
+// Only a few tasks are handed to the worker at a time. The rest wait here, so a
+// task whose signal aborts before its turn (a grid tile scrolled out of view)
+// is dropped without ever being decoded.
+
+const MAX_IN_FLIGHT = 4;
+
+interface PendingTask {
+  id: number;
+  name: ThumbnailTaskName;
+  args: unknown[];
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null | undefined; // undefined = not started yet, null = unavailable
+let nextId = 0;
+const waiting: PendingTask[] = [];
+const inFlight = new Map<number, PendingTask>();
+
+const runHere = (task: PendingTask) => runThumbnailTask(task.name, task.args).then(task.resolve, task.reject);
+
+const pump = () => {
+  while (worker && inFlight.size < MAX_IN_FLIGHT && waiting.length > 0) {
+    const task = waiting.shift()!;
+    inFlight.set(task.id, task);
+    worker.postMessage({ id: task.id, name: task.name, args: task.args });
+  }
+};
+
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  worker = null;
+  if (typeof Worker === "undefined" || typeof OffscreenCanvas === "undefined") return worker;
+
+  try {
+    worker = new Worker(new URL("./thumbnailWorker.ts", import.meta.url), { type: "module" });
+  } catch (error) {
+    console.warn("Thumbnail worker unavailable, using the main thread", error);
+    return worker;
+  }
+
+  worker.onmessage = ({ data }: MessageEvent<ThumbnailResponse>) => {
+    const task = inFlight.get(data.id);
+    inFlight.delete(data.id);
+    if (task) {
+      if (data.type === "result") task.resolve(data.result);
+      else task.reject(new Error(data.error));
+    }
+    pump();
+  };
+
+  // The worker itself broke (e.g. failed to load): finish its tasks here instead
+  worker.onerror = (event) => {
+    console.warn("Thumbnail worker failed, using the main thread", event.message);
+    worker?.terminate();
+    worker = null;
+    [...inFlight.values(), ...waiting].forEach(runHere);
+    inFlight.clear();
+    waiting.length = 0;
+  };
+  return worker;
+};
+
+const cancelled = () => new DOMException("Thumbnail task cancelled", "AbortError");
+
+// Rejects with an AbortError once `signal` aborts. A task the worker has
+// already started still runs to the end; its result is dropped (and closed).
+const runTask = <N extends ThumbnailTaskName>(name: N, args: ThumbnailTaskArgs<N>, signal?: AbortSignal) =>
+  new Promise<ThumbnailTaskResult<N>>((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelled());
+    const settle = (result: unknown) => {
+      if (signal?.aborted && result instanceof ImageBitmap) result.close();
+      else resolve(result as ThumbnailTaskResult<N>);
+    };
+    const task: PendingTask = { id: nextId++, name, args, resolve: settle, reject };
+    signal?.addEventListener("abort", () => {
+      const index = waiting.indexOf(task);
+      if (index !== -1) waiting.splice(index, 1);
+      reject(cancelled());
+    }, { once: true });
+
+    if (!getWorker()) {
+      runHere(task);
+      return;
+    }
+    waiting.push(task);
+    pump();
+  });
+
+// --- PUBLIC API ---
+
+// Reads metadata and makes the stored thumbnail; the file is stored unchanged
+export const prepareImportFile = (file: Blob) =>
+  runTask("prepareImport", [file]);
+
+// Small (512px) copy of an image, stored with the photo for the grids
+export const createThumbnail = (blob: Blob) =>
+  runTask("createThumbnail", [blob]);
+
+// Downscaled / re-encoded copy of a base64 image for an AI request (see imagePayloadService)
+export const prepareUploadImage = (data: string, mimeType: string, profile: UploadProfile) =>
+  runTask("prepareUpload", [data, mimeType, profile]);
+
+// Filtered preview (long edge at most maxEdge) ready to draw onto a canvas.
+// Abort `signal` when the preview is no longer needed.
+export const renderThumbnail = (url: string, settings: FilterSettings, lut: LutStage | null | undefined, maxEdge: number, signal?: AbortSignal) =>
+  runTask("renderFiltered", [url, settings, lut, maxEdge], signal);
@@ -0,0 +1,153 @@
+import { FilterSettings, LutStage, PhotoMetadata } from "../types";
+import { applyFilters } from "./filterService";
+import { readMetadata } from "./metadataService";
+
+// The image work behind thumbnailService (and the AI uploads prepared by
+// imagePayloadService). No DOM access beyond a canvas fallback, so it runs in
+// thumbnailWorker.ts or, without Workers, on the main thread.
+
+export const THUMBNAIL_EDGE = 512;
+const THUMBNAIL_TYPE = "image/webp"; // Browsers that can't encode WebP fall back to PNG
+const THUMBNAIL_QUALITY = 0.85;
+
+type Canvas = OffscreenCanvas | HTMLCanvasElement;
+
+const createCanvas = (width: number, height: number): Canvas =>
+  typeof OffscreenCanvas !== "undefined"
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement("canvas"), { width, height });
+
+const canvasToBlob = (canvas: Canvas, type: string, quality: number): Promise<Blob> =>
+  "convertToBlob" in canvas
+    ? canvas.convertToBlob({ type, quality })
+    : new Promise((resolve, reject) =>
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode image")), type, quality));
+
+// Draws a decoded image so its long edge is at most maxEdge (never upscaled),
+// over `background` if given (JPEG has no transparency)
+const drawScaled = (image: ImageBitmap, maxEdge = Infinity, background?: string) => {
+  const scale = Math.min(1, maxEdge / Math.max(image.width, image.height));
+  const canvas = createCanvas(Math.max(1, Math.round(image.width * scale)), Math.max(1, Math.round(image.height * scale)));
+  const ctx = canvas.getContext("2d", { willReadFrequently: true }) as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return { canvas, ctx };
+};
+
+// Decoding applies the EXIF orientation, so everything comes out upright
+const decode = (blob: Blob) => createImageBitmap(blob, { imageOrientation: "from-image" });
+
+const fetchBlob = async (url: string) => (await fetch(url)).blob();
+
+const base64ToBytes = (data: string) => Uint8Array.from(atob(data), c => c.charCodeAt(0));
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// How an image is encoded for upload; `type: null` keeps PNG as PNG and makes everything else JPEG
+export interface UploadProfile {
+  maxEdge: number;
+  type: "image/jpeg" | "image/png" | null;
+  quality: number;
+}
+
+export interface UploadImage {
+  data: string; // Raw base64
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+const encodeThumbnail = (image: ImageBitmap) =>
+  canvasToBlob(drawScaled(image, THUMBNAIL_EDGE).canvas, THUMBNAIL_TYPE, THUMBNAIL_QUALITY);
+
+export const thumbnailTasks = {
+  // Metadata plus the thumbnail, from a single decode. The file itself is
+  // stored as it is, orientation included (see metadataService).
+  prepareImport: async (file: Blob): Promise<{ metadata?: PhotoMetadata; thumbnail: Blob }> => {
+    const metadata = await readMetadata(file);
+    const image = await decode(file);
+    try {
+      return { metadata, thumbnail: await encodeThumbnail(image) };
+    } finally {
+      image.close();
+    }
+  },
+
+  createThumbnail: async (blob: Blob): Promise<Blob> => {
+    const image = await decode(blob);
+    try {
+      return await encodeThumbnail(image);
+    } finally {
+      image.close();
+    }
+  },
+
+  // Base64 image -> base64 image as `profile` asks. Sent unchanged when it
+  // already fits; null when it can't be decoded here (e.g. HEIC outside Safari).
+  // Rotated photos are always re-encoded upright: the models ignore the
+  // Orientation tag, so a sideways phone photo would come back sideways.
+  prepareUpload: async (data: string, mimeType: string, profile: UploadProfile): Promise<UploadImage | null> => {
+    const source = new Blob([base64ToBytes(data)], { type: mimeType });
+    let image: ImageBitmap;
+    try {
+      image = await decode(source);
+    } catch {
+      return null;
+    }
+    try {
+      const type = profile.type || (mimeType === "image/png" ? "image/png" : "image/jpeg");
+      const orientation = (await readMetadata(source))?.orientation || 1;
+      if (type === mimeType && orientation === 1 && Math.max(image.width, image.height) <= profile.maxEdge) {
+        return { data, mimeType, width: image.width, height: image.height };
+      }
+      const { canvas } = drawScaled(image, profile.maxEdge, type === "image/jpeg" ? "#ffffff" : undefined);
+      const blob = await canvasToBlob(canvas, type, profile.quality);
+      return { data: bytesToBase64(new Uint8Array(await blob.arrayBuffer())), mimeType: blob.type || type, width: canvas.width, height: canvas.height };
+    } finally {
+      image.close();
+    }
+  },
+
+  // Decodes `url` at grid size and runs the filter pipeline on it
+  renderFiltered: async (url: string, settings: FilterSettings, lut: LutStage | null | undefined, maxEdge: number): Promise<ImageBitmap> => {
+    const image = await decode(await fetchBlob(url));
+    try {
+      const { canvas, ctx } = drawScaled(image, maxEdge);
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      applyFilters(imageData, settings, lut);
+      ctx.putImageData(imageData, 0, 0);
+      return await createImageBitmap(canvas);
+    } finally {
+      image.close();
+    }
+  },
+};
+
+type ThumbnailTasks = typeof thumbnailTasks;
+export type ThumbnailTaskName = keyof ThumbnailTasks;
+export type ThumbnailTaskArgs<N extends ThumbnailTaskName> = Parameters<ThumbnailTasks[N]>;
+export type ThumbnailTaskResult<N extends ThumbnailTaskName> = Awaited<ReturnType<ThumbnailTasks[N]>>;
+
+export interface ThumbnailRequest {
+  id: number;
+  name: ThumbnailTaskName;
+  args: unknown[];
+}
+
+export type ThumbnailResponse =
+  | { id: number; type: "result"; result: unknown }
+  | { id: number; type: "error"; error: string };
+
+// `args` come from a message in the worker, so they are only as typed as the sender
+export const runThumbnailTask = <N extends ThumbnailTaskName>(name: N, args: ThumbnailTaskArgs<N> | unknown[]) =>
+  (thumbnailTasks[name] as (...args: unknown[]) => Promise<ThumbnailTaskResult<N>>)(...args);
@@ -0,0 +1,19 @@
+import { ThumbnailRequest, ThumbnailResponse, runThumbnailTask } from "./thumbnailTasks";
+
+// Worker entry for thumbnailService: runs one task per message and posts the
+// result back, handing over bitmaps instead of copying them.
+
+// DedicatedWorkerGlobalScope is not in the DOM lib this project compiles against
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ThumbnailRequest>) => void) | null;
+  postMessage: (message: ThumbnailResponse, transfer?: Transferable[]) => void;
+};
+
+scope.onmessage = async ({ data: { id, name, args } }) => {
+  try {
+    const result = await runThumbnailTask(name, args);
+    scope.postMessage({ id, type: "result", result }, result instanceof ImageBitmap ? [result] : []);
+  } catch (error: unknown) {
+    scope.postMessage({ id, type: "error", error: error instanceof Error ? error.message : String(error) });
+  }
+};
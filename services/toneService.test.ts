@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { applyTone, buildChannelTable, interpolateCurve, isIdentityTone } from "./toneService";
+import { PixelBuffer } from "./filterService";
+import { defaultChannelTone, defaultTone } from "../constants";
+import { ChannelTone, ToneSettings } from "../types";
+
+const ramp = (): PixelBuffer => {
+  const data = new Uint8ClampedArray(256 * 4);
+  for (let x = 0; x < 256; x++) data.set([x, x, x, 255], x * 4);
+  return { data, width: 256, height: 1 };
+};
+
+const channel = (changes: Partial<ChannelTone>): ChannelTone => ({ ...defaultChannelTone, ...changes });
+
+const isNonDecreasing = (values: ArrayLike<number>) =>
+  Array.from(values).every((v, i, all) => i === 0 || v >= all[i - 1]);
+
+describe("interpolateCurve", () => {
+  it("is the identity for the default curve and for no points", () => {
+    const identity = Array.from({ length: 256 }, (_, x) => x);
+    expect(Array.from(interpolateCurve(defaultChannelTone.curve))).toEqual(identity);
+    expect(Array.from(interpolateCurve([]))).toEqual(identity);
+  });
+
+  it("passes through every point and stays monotonic between them", () => {
+    const points = [{ x: 0, y: 0 }, { x: 64, y: 40 }, { x: 128, y: 200 }, { x: 192, y: 210 }, { x: 255, y: 255 }];
+    const curve = interpolateCurve(points);
+    points.forEach(p => expect(curve[p.x]).toBeCloseTo(p.y));
+    expect(isNonDecreasing(curve)).toBe(true);
+    expect(Math.max(...curve)).toBeLessThanOrEqual(255);
+  });
+
+  it("holds the end values outside the first and last point", () => {
+    const curve = interpolateCurve([{ x: 50, y: 30 }, { x: 200, y: 220 }]);
+    expect(curve[0]).toBe(30);
+    expect(curve[255]).toBe(220);
+  });
+
+  it("keeps the last of several points with the same x", () => {
+    const curve = interpolateCurve([{ x: 0, y: 0 }, { x: 128, y: 20 }, { x: 128, y: 100 }, { x: 255, y: 255 }]);
+    expect(curve.every(v => Number.isFinite(v))).toBe(true);
+    expect(curve[128]).toBeCloseTo(100);
+    expect(isNonDecreasing(curve)).toBe(true);
+  });
+});
+
+describe("buildChannelTable", () => {
+  it("stretches the range between the black and white points", () => {
+    const table = buildChannelTable(channel({ levels: { black: 50, white: 200, gamma: 1 } }));
+    expect(table[0]).toBe(0);
+    expect(table[50]).toBe(0);
+    expect(table[125]).toBe(128);
+    expect(table[200]).toBe(255);
+    expect(table[255]).toBe(255);
+  });
+
+  it("brightens midtones with a gamma above 1 and keeps the ends", () => {
+    const table = buildChannelTable(channel({ levels: { black: 0, white: 255, gamma: 2 } }));
+    expect(table[128]).toBeGreaterThan(128);
+    expect([table[0], table[255]]).toEqual([0, 255]);
+    expect(isNonDecreasing(table)).toBe(true);
+  });
+
+  it("applies the curve after the levels", () => {
+    const table = buildChannelTable(channel({ levels: { black: 0, white: 127, gamma: 1 }, curve: [{ x: 0, y: 255 }, { x: 255, y: 0 }] }));
+    expect(table[0]).toBe(255);
+    expect(table[127]).toBe(0);
+    expect(table[200]).toBe(0);
+  });
+});
+
+describe("applyTone", () => {
+  it("leaves pixels alone for the default or a missing tone", () => {
+    expect(isIdentityTone(defaultTone)).toBe(true);
+    const buffer = ramp();
+    const before = Array.from(buffer.data);
+    applyTone(buffer, defaultTone);
+    applyTone(buffer, undefined);
+    expect(Array.from(buffer.data)).toEqual(before);
+  });
+
+  it("applies the channel curve before the composite one and never touches alpha", () => {
+    const tone: ToneSettings = {
+      ...defaultTone,
+      red: channel({ levels: { black: 0, white: 127, gamma: 1 } }),
+      rgb: channel({ curve: [{ x: 0, y: 255 }, { x: 255, y: 0 }] }),
+    };
+    expect(isIdentityTone(tone)).toBe(false);
+    const buffer = ramp();
+    applyTone(buffer, tone);
+    const px = (x: number) => Array.from(buffer.data.slice(x * 4, x * 4 + 4));
+    expect(px(0)).toEqual([255, 255, 255, 255]);
+    expect(px(127)).toEqual([0, 128, 128, 255]);
+    expect(px(255)).toEqual([0, 0, 0, 255]);
+  });
+});
@@ -0,0 +1,160 @@
+import { ChannelTone, CurvePoint, ToneSettings } from "../types";
+import { defaultChannelTone } from "../constants";
+import { PixelBuffer } from "./filterService";
+
+// Levels and tone curves. Pure functions with no DOM access, like the pixel
+// math in filterService. Every channel is reduced to a 256-entry lookup table,
+// so applying tone costs the same no matter how many curve points there are.
+//
+// Order per pixel: the red/green/blue channel's levels + curve first, then the
+// composite RGB levels + curve on top (the same order as Photoshop's Curves).
+
+const clampByte = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : v);
+
+// --- CURVE INTERPOLATION ---
+// Monotone cubic (Fritsch-Carlson): smooth like a spline, but never overshoots
+// between points, so a curve can't invert or clip where the user didn't ask it to.
+// Points sharing an x keep the last one, as validateToneSettings does, so no
+// segment is ever zero wide.
+export const interpolateCurve = (points: CurvePoint[]): Float32Array => {
+  const out = new Float32Array(256);
+  const byX = new Map(points.map(p => [p.x, p.y]));
+  const pts = [...byX].map(([x, y]) => ({ x, y })).sort((a, b) => a.x - b.x);
+  const n = pts.length;
+
+  if (n === 0) {
+    for (let x = 0; x < 256; x++) out[x] = x;
+    return out;
+  }
+  if (n === 1) {
+    out.fill(pts[0].y);
+    return out;
+  }
+
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    const dx = pts[i + 1].x - pts[i].x;
+    slopes.push((pts[i + 1].y - pts[i].y) / dx);
+  }
+
+  const tangents: number[] = [slopes[0]];
+  for (let i = 1; i < n - 1; i++) {
+    tangents.push(slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2);
+  }
+  tangents.push(slopes[n - 2]);
+
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const h = a * a + b * b;
+    if (h > 9) {
+      const t = 3 / Math.sqrt(h);
+      tangents[i] = t * a * slopes[i];
+      tangents[i + 1] = t * b * slopes[i];
+    }
+  }
+
+  let seg = 0;
+  for (let x = 0; x < 256; x++) {
+    if (x <= pts[0].x) {
+      out[x] = pts[0].y;
+      continue;
+    }
+    if (x >= pts[n - 1].x) {
+      out[x] = pts[n - 1].y;
+      continue;
+    }
+    while (seg < n - 2 && x > pts[seg + 1].x) seg++;
+    const p0 = pts[seg];
+    const p1 = pts[seg + 1];
+    const h = p1.x - p0.x;
+    const t = (x - p0.x) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    out[x] =
+      (2 * t3 - 3 * t2 + 1) * p0.y +
+      (t3 - 2 * t2 + t) * h * tangents[seg] +
+      (-2 * t3 + 3 * t2) * p1.y +
+      (t3 - t2) * h * tangents[seg + 1];
+  }
+  return out;
+};
+
+// --- TABLES ---
+
+// Levels then curve for one channel, as a 0-255 -> 0-255 table
+export const buildChannelTable = ({ levels, curve }: ChannelTone): Uint8ClampedArray => {
+  const table = new Uint8ClampedArray(256);
+  const curveTable = interpolateCurve(curve);
+  const range = Math.max(1, levels.white - levels.black);
+  const invGamma = 1 / (levels.gamma > 0 ? levels.gamma : 1);
+
+  for (let x = 0; x < 256; x++) {
+    const normalized = Math.min(1, Math.max(0, (x - levels.black) / range));
+    const leveled = Math.round(Math.pow(normalized, invGamma) * 255);
+    table[x] = clampByte(curveTable[leveled]);
+  }
+  return table;
+};
+
+const isIdentityChannel = ({ levels, curve }: ChannelTone) =>
+  levels.black === 0 && levels.white === 255 && levels.gamma === 1 &&
+  curve.every(p => p.x === p.y) && curve.some(p => p.x === 0) && curve.some(p => p.x === 255);
+
+export const isIdentityTone = (tone?: ToneSettings) =>
+  !tone || (["rgb", "red", "green", "blue"] as const).every(c => isIdentityChannel(tone[c] || defaultChannelTone));
+
+// One combined table per output channel (channel curve, then composite)
+export const buildToneTables = (tone: ToneSettings): [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray] => {
+  const composite = buildChannelTable(tone.rgb);
+  return (["red", "green", "blue"] as const).map(channel => {
+    const own = buildChannelTable(tone[channel]);
+    const table = new Uint8ClampedArray(256);
+    for (let x = 0; x < 256; x++) table[x] = composite[own[x]];
+    return table;
+  }) as [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray];
+};
+
+export const applyTone = (buffer: PixelBuffer, tone?: ToneSettings) => {
+  if (isIdentityTone(tone)) return;
+  const [red, green, blue] = buildToneTables(tone!);
+  const data = buffer.data;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = red[data[i]];
+    data[i + 1] = green[data[i + 1]];
+    data[i + 2] = blue[data[i + 2]];
+  }
+};
+
+// --- HISTOGRAM ---
+
+export interface Histogram {
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+  luma: Uint32Array;
+}
+
+export const computeHistogram = (buffer: PixelBuffer): Histogram => {
+  const histogram: Histogram = {
+    red: new Uint32Array(256),
+    green: new Uint32Array(256),
+    blue: new Uint32Array(256),
+    luma: new Uint32Array(256),
+  };
+  const data = buffer.data;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue; // Transparent pixels don't count
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    histogram.red[r]++;
+    histogram.green[g]++;
+    histogram.blue[b]++;
+    histogram.luma[Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)]++;
+  }
+  return histogram;
+};
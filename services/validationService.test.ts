@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { ValidationError, validateAnalysisResult, validateFilterSettings, validateToneSettings } from "./validationService";
+import { defaultSettings } from "../constants";
+
+describe("validateFilterSettings", () => {
+  it("accepts in-range settings without corrections", () => {
+    const { value, corrections } = validateFilterSettings({ brightness: 120, contrast: 90, warmth: -20 });
+    expect(value).toEqual({ ...defaultSettings, brightness: 120, contrast: 90, warmth: -20 });
+    expect(corrections).toEqual([]);
+  });
+
+  it("clamps out-of-range numbers", () => {
+    const { value, corrections } = validateFilterSettings({ brightness: 500, blur: -3, tint: -250 });
+    expect(value.brightness).toBe(200);
+    expect(value.blur).toBe(0);
+    expect(value.tint).toBe(-100);
+    expect(corrections).toContain("brightness 500 clamped to 200");
+    expect(corrections).toHaveLength(3);
+  });
+
+  it("parses numeric strings, including percentages", () => {
+    const { value, corrections } = validateFilterSettings({ contrast: "130", saturation: " 80% " });
+    expect(value.contrast).toBe(130);
+    expect(value.saturation).toBe(80);
+    expect(corrections).toHaveLength(2);
+  });
+
+  it("keeps the fallback for null, NaN and non-numeric values", () => {
+    const { value, corrections } = validateFilterSettings({ brightness: null, contrast: NaN, saturation: "vivid", sepia: Infinity });
+    expect(value.brightness).toBe(defaultSettings.brightness);
+    expect(value.contrast).toBe(defaultSettings.contrast);
+    expect(value.saturation).toBe(defaultSettings.saturation);
+    expect(value.sepia).toBe(defaultSettings.sepia);
+    // null counts as missing; the others are reported
+    expect(corrections).toHaveLength(3);
+  });
+
+  it("drops unknown keys", () => {
+    const { value, corrections } = validateFilterSettings({ brightness: 110, vibrance: 40 });
+    expect(value).not.toHaveProperty("vibrance");
+    expect(corrections).toEqual(['unknown setting "vibrance" ignored']);
+  });
+
+  it("falls back to defaults for a non-object payload", () => {
+    for (const input of ["bright", 42, null, [1, 2]]) {
+      const { value, corrections } = validateFilterSettings(input);
+      expect(value).toEqual(defaultSettings);
+      expect(corrections).toEqual(["settings were not an object, used defaults"]);
+    }
+  });
+
+  it("wraps hue around instead of clamping", () => {
+    expect(validateFilterSettings({ hueRotate: 400 }).value.hueRotate).toBe(40);
+    expect(validateFilterSettings({ hueRotate: -30 }).value.hueRotate).toBe(330);
+    expect(validateFilterSettings({ hueRotate: 360 }).value.hueRotate).toBe(0);
+    expect(validateFilterSettings({ hueRotate: 180 }).corrections).toEqual([]);
+  });
+});
+
+describe("validateAnalysisResult", () => {
+  it("throws for a non-object payload", () => {
+    expect(() => validateAnalysisResult("not json")).toThrow(ValidationError);
+    expect(() => validateAnalysisResult(null)).toThrow(ValidationError);
+    expect(() => validateAnalysisResult([])).toThrow(ValidationError);
+  });
+
+  it("uses an empty reasoning when it is missing", () => {
+    const { value, corrections } = validateAnalysisResult({ suggestedSettings: { brightness: 105 } });
+    expect(value.reasoning).toBe("");
+    expect(value.suggestedSettings.brightness).toBe(105);
+    expect(corrections).toEqual([]);
+  });
+
+  it("reports a reasoning that is not text", () => {
+    const { value, corrections } = validateAnalysisResult({ reasoning: 7, suggestedSettings: {} });
+    expect(value.reasoning).toBe("");
+    expect(corrections).toContain("reasoning was not text");
+  });
+
+  it("validates the suggested settings and always sets tone", () => {
+    const { value, corrections } = validateAnalysisResult({ reasoning: " Too dark. ", suggestedSettings: { brightness: "250", hueRotate: -90 } });
+    expect(value.reasoning).toBe("Too dark.");
+    expect(value.suggestedSettings.brightness).toBe(200);
+    expect(value.suggestedSettings.hueRotate).toBe(270);
+    expect("tone" in value.suggestedSettings).toBe(true);
+    expect(corrections.length).toBeGreaterThanOrEqual(3);
+  });
+
+  it("returns only the sliders the model set", () => {
+    const { value } = validateAnalysisResult({ suggestedSettings: { brightness: 120, contrast: "x", blur: null } });
+    expect(value.suggestedSettings).toEqual({ brightness: 120, tone: undefined });
+    const current = { ...defaultSettings, saturation: 160, warmth: 20 };
+    expect({ ...current, ...value.suggestedSettings }).toEqual({ ...current, brightness: 120, tone: undefined });
+  });
+
+  it("changes nothing when suggestedSettings is missing", () => {
+    const { value, corrections } = validateAnalysisResult({ reasoning: "ok" });
+    expect(value.suggestedSettings).toEqual({ tone: undefined });
+    expect(corrections).toEqual(["suggestedSettings was not an object, nothing changed"]);
+  });
+});
+
+describe("validateToneSettings", () => {
+  it("rounds levels without reporting it", () => {
+    const { value, corrections } = validateToneSettings({ rgb: { levels: { black: 10.4, white: 240.6, gamma: 1.2 } } });
+    expect(value.rgb.levels).toEqual({ black: 10, white: 241, gamma: 1.2 });
+    expect(corrections).toEqual([]);
+  });
+
+  it("reports levels outside their range", () => {
+    const { value, corrections } = validateToneSettings({ red: { levels: { black: -5, white: 300, gamma: 20 } } });
+    expect(value.red.levels).toEqual({ black: 0, white: 255, gamma: 9.99 });
+    expect(corrections).toEqual(["red levels clamped"]);
+  });
+
+  it("moves a white point below the black point without also calling it clamped", () => {
+    const { value, corrections } = validateToneSettings({ blue: { levels: { black: 200, white: 100 } } });
+    expect(value.blue.levels).toMatchObject({ black: 200, white: 201 });
+    expect(corrections).toEqual(["blue white point 100 moved above black point 200"]);
+  });
+});
@@ -0,0 +1,238 @@
+import { AnalysisResult, ChannelTone, CurvePoint, FilterSettings, SceneCategory, SliderKey, TaggingResult, ToneChannel, ToneSettings } from "../types";
+import { defaultChannelTone, defaultSettings, defaultTone, filterRanges } from "../constants";
+import { normalizeTag } from "./collectionService";
+
+// Runtime checks for settings that come from outside the app (AI responses,
+// imported files). Never trust the shape: clamp to the ranges in `filterRanges`,
+// drop unknown keys, fill missing ones from the defaults, and report every fix.
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
+
+export interface Validated<T> {
+  value: T;
+  corrections: string[]; // Human-readable, e.g. "blur 50 clamped to 20"
+}
+
+export const isPlainObject = (input: unknown): input is Record<string, unknown> =>
+  typeof input === "object" && input !== null && !Array.isArray(input);
+
+const toNumber = (raw: unknown): number | null => {
+  if (typeof raw === "number") return Number.isFinite(raw) ? raw : null;
+  if (typeof raw === "string" && raw.trim() !== "") {
+    const parsed = Number(raw.trim().replace(/%$/, ""));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+export const validateFilterSettings = (
+  input: unknown,
+  fallback: FilterSettings = defaultSettings
+): Validated<FilterSettings> => {
+  const corrections: string[] = [];
+  const source = isPlainObject(input) ? input : {};
+  if (!isPlainObject(input)) corrections.push("settings were not an object, used defaults");
+
+  const value = { ...fallback };
+  const keys = Object.keys(filterRanges) as SliderKey[];
+
+  for (const key of keys) {
+    if (!(key in source) || source[key] === null || source[key] === undefined) {
+      continue; // Missing: keep the fallback silently, the schema only requires a few fields
+    }
+
+    const raw = source[key];
+    const parsed = toNumber(raw);
+    if (parsed === null) {
+      corrections.push(`${key} ${JSON.stringify(raw)} is not a number, used ${fallback[key]}`);
+      continue;
+    }
+    if (typeof raw === "string") corrections.push(`${key} "${raw}" parsed as ${parsed}`);
+
+    const { min, max } = filterRanges[key];
+    let next = parsed;
+    if (key === "hueRotate") {
+      // Hue is an angle: wrap instead of clamping
+      next = ((parsed % 360) + 360) % 360;
+      if (next !== parsed) corrections.push(`hueRotate ${parsed} wrapped to ${next}`);
+    } else if (parsed < min || parsed > max) {
+      next = Math.min(max, Math.max(min, parsed));
+      corrections.push(`${key} ${parsed} clamped to ${next}`);
+    }
+    value[key] = next;
+  }
+
+  if (source.tone !== undefined && source.tone !== null) {
+    const tone = validateToneSettings(source.tone);
+    corrections.push(...tone.corrections);
+    value.tone = tone.value;
+  }
+
+  for (const key of Object.keys(source)) {
+    if (!(key in filterRanges) && key !== "tone") corrections.push(`unknown setting "${key}" ignored`);
+  }
+
+  return { value, corrections };
+};
+
+// --- TONE (levels + curves) ---
+
+const MAX_CURVE_POINTS = 16;
+const clampTo = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+const validateCurve = (input: unknown, channel: ToneChannel, corrections: string[]): CurvePoint[] => {
+  if (!Array.isArray(input)) {
+    corrections.push(`${channel} curve was not a list, used a straight line`);
+    return defaultChannelTone.curve;
+  }
+
+  const byX = new Map<number, number>(); // Duplicate x: the last point wins
+  for (const raw of input) {
+    const x = isPlainObject(raw) ? toNumber(raw.x) : null;
+    const y = isPlainObject(raw) ? toNumber(raw.y) : null;
+    if (x === null || y === null) {
+      corrections.push(`${channel} curve point ${JSON.stringify(raw)} ignored`);
+      continue;
+    }
+    if (x < 0 || x > 255 || y < 0 || y > 255) corrections.push(`${channel} curve point (${x}, ${y}) clamped`);
+    byX.set(Math.round(clampTo(x, 0, 255)), Math.round(clampTo(y, 0, 255)));
+  }
+
+  // Curves are defined over the whole input range
+  if (!byX.has(0)) byX.set(0, 0);
+  if (!byX.has(255)) byX.set(255, 255);
+
+  let points = [...byX.entries()].map(([x, y]) => ({ x, y })).sort((a, b) => a.x - b.x);
+  if (points.length > MAX_CURVE_POINTS) {
+    corrections.push(`${channel} curve had ${points.length} points, kept ${MAX_CURVE_POINTS}`);
+    const step = (points.length - 1) / (MAX_CURVE_POINTS - 1);
+    points = Array.from({ length: MAX_CURVE_POINTS }, (_, i) => points[Math.round(i * step)]);
+  }
+  return points;
+};
+
+const validateChannel = (input: unknown, channel: ToneChannel, corrections: string[]): ChannelTone => {
+  if (!isPlainObject(input)) {
+    corrections.push(`${channel} tone was not an object, left unchanged`);
+    return defaultChannelTone;
+  }
+
+  const levels = { ...defaultChannelTone.levels };
+  if (isPlainObject(input.levels)) {
+    const black = toNumber(input.levels.black);
+    const white = toNumber(input.levels.white);
+    const gamma = toNumber(input.levels.gamma);
+    // Rounding to whole input values is not worth reporting; leaving the range is
+    const outOfRange = (value: number | null, min: number, max: number) => value !== null && (value < min || value > max);
+    if (outOfRange(black, 0, 254) || outOfRange(white, 1, 255) || outOfRange(gamma, 0.1, 9.99)) {
+      corrections.push(`${channel} levels clamped`);
+    }
+    if (black !== null) levels.black = Math.round(clampTo(black, 0, 254));
+    if (white !== null) levels.white = Math.round(clampTo(white, 1, 255));
+    if (gamma !== null) levels.gamma = clampTo(gamma, 0.1, 9.99);
+    if (levels.white <= levels.black) {
+      corrections.push(`${channel} white point ${levels.white} moved above black point ${levels.black}`);
+      levels.white = Math.min(255, levels.black + 1);
+    }
+  }
+
+  const curve = input.curve === undefined ? defaultChannelTone.curve : validateCurve(input.curve, channel, corrections);
+  return { levels, curve };
+};
+
+// Channels that are missing stay neutral
+export const validateToneSettings = (input: unknown): Validated<ToneSettings> => {
+  const corrections: string[] = [];
+  if (!isPlainObject(input)) {
+    return { value: defaultTone, corrections: ["tone was not an object, ignored"] };
+  }
+
+  const value = { ...defaultTone };
+  for (const channel of Object.keys(defaultTone) as ToneChannel[]) {
+    if (input[channel] !== undefined && input[channel] !== null) {
+      value[channel] = validateChannel(input[channel], channel, corrections);
+    }
+  }
+  for (const key of Object.keys(input)) {
+    if (!(key in defaultTone)) corrections.push(`unknown tone channel "${key}" ignored`);
+  }
+  return { value, corrections };
+};
+
+// Throws ValidationError when the response is unusable (not an object);
+// everything else is repaired and reported.
+export const validateAnalysisResult = (input: unknown): Validated<AnalysisResult> => {
+  if (!isPlainObject(input)) {
+    throw new ValidationError("Analysis result is not an object.");
+  }
+
+  const corrections: string[] = [];
+  let reasoning = "";
+  if (typeof input.reasoning === "string") {
+    reasoning = input.reasoning.trim();
+  } else if (input.reasoning !== undefined) {
+    corrections.push("reasoning was not text");
+  }
+
+  // Only the sliders the model set are returned, so applying the result leaves
+  // the others where the user put them. `tone` is always present (even if
+  // undefined) so a new look replaces the previous curves instead of stacking on them.
+  const suggestedSettings: Partial<FilterSettings> = { tone: undefined };
+  if (isPlainObject(input.suggestedSettings)) {
+    const source = input.suggestedSettings;
+    const settings = validateFilterSettings(source);
+    corrections.push(...settings.corrections);
+    for (const key of Object.keys(filterRanges) as SliderKey[]) {
+      if (toNumber(source[key]) !== null) suggestedSettings[key] = settings.value[key];
+    }
+    suggestedSettings.tone = settings.value.tone;
+  } else {
+    corrections.push("suggestedSettings was not an object, nothing changed");
+  }
+
+  return { value: { reasoning, suggestedSettings }, corrections };
+};
+
+const MAX_TAGS = 20;
+
+// Same contract as validateAnalysisResult. `model` is filled in by the caller.
+export const validateTaggingResult = (input: unknown): Validated<Omit<TaggingResult, "model">> => {
+  if (!isPlainObject(input)) {
+    throw new ValidationError("Tagging result is not an object.");
+  }
+
+  const corrections: string[] = [];
+  let caption = "";
+  if (typeof input.caption === "string") {
+    caption = input.caption.trim();
+  } else if (input.caption !== undefined) {
+    corrections.push("caption was not text");
+  }
+
+  let tags: string[] = [];
+  if (Array.isArray(input.tags)) {
+    const strings = input.tags.filter((tag): tag is string => typeof tag === "string");
+    if (strings.length < input.tags.length) corrections.push(`${input.tags.length - strings.length} tags were not text`);
+    tags = [...new Set(strings.map(normalizeTag).filter(Boolean))];
+    if (tags.length > MAX_TAGS) {
+      corrections.push(`${tags.length} tags trimmed to ${MAX_TAGS}`);
+      tags = tags.slice(0, MAX_TAGS);
+    }
+  } else if (input.tags !== undefined) {
+    corrections.push("tags was not a list");
+  }
+
+  const sceneInput = typeof input.scene === "string" ? input.scene.trim().toUpperCase() : "";
+  const scene = (Object.values(SceneCategory) as string[]).includes(sceneInput) ? sceneInput as SceneCategory : SceneCategory.OTHER;
+  if (scene !== sceneInput) corrections.push(`scene ${JSON.stringify(input.scene)} replaced with ${scene}`);
+
+  if (!caption && tags.length === 0) {
+    throw new ValidationError("Tagging result has neither a caption nor tags.");
+  }
+  return { value: { caption, tags, scene }, corrections };
+};
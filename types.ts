@@ -6,9 +6,34 @@ export interface FilterSettings {
   grayscale: number;  // 0-100, default 0
   hueRotate: number;  // 0-360, default 0
   blur: number;       // 0-20, default 0
-  warmth: number;     // Simulated via sepia/hue mix logic in UI, but simplified here
+  warmth: number;     // -100-100, default 0 (color temperature: negative cools, positive warms)
+  tint: number;       // -100-100, default 0 (negative greens, positive magentas)
+  tone?: ToneSettings; // Levels + curves after the sliders; absent = no change
 }
 
+// The numeric slider fields (everything except the tone object)
+export type SliderKey = Exclude<keyof FilterSettings, 'tone'>;
+
+export interface CurvePoint {
+  x: number; // Input 0-255
+  y: number; // Output 0-255
+}
+
+export interface Levels {
+  black: number; // Input black point 0-254
+  white: number; // Input white point 1-255
+  gamma: number; // Midtone gamma 0.1-9.99, 1 = linear, >1 brightens
+}
+
+export interface ChannelTone {
+  levels: Levels;
+  curve: CurvePoint[]; // Sorted by x, always includes x = 0 and x = 255
+}
+
+export type ToneChannel = 'rgb' | 'red' | 'green' | 'blue';
+
+export type ToneSettings = Record<ToneChannel, ChannelTone>;
+
 export interface PhotoItem {
   id: string;
   originalUrl: string; // Base64 or Blob URL
@@ -16,6 +41,91 @@ export interface PhotoItem {
   timestamp: number;
   settings: FilterSettings;
   previewUrl?: string; // Optional processed preview
+  thumbnailUrl?: string; // Small copy of originalUrl for the grids; regenerated on save when absent
+  history?: EditHistory; // Undo/redo stack from the editor, kept with the item
+  metadata?: PhotoMetadata; // EXIF/IPTC read on import, editable in the info panel
+  prompt?: string;          // Last AI prompt applied, recorded in exported metadata
+  lut?: LutStage;           // Optional 3D LUT grade applied after the sliders
+  stack?: EditStack;        // True original + non-destructive steps; originalUrl is then their rendered result
+  album?: string;           // At most one album per photo
+  tags?: string[];          // Free-form, lowercase, no duplicates
+  rating?: number;          // 1-5 stars; absent = unrated
+  autoTags?: AutoTags;      // Set by the auto-tag job, used by search
+}
+
+// The kinds of photo Cast a Spell already tells apart
+export enum SceneCategory {
+  NATURE = 'NATURE',
+  URBAN = 'URBAN',
+  PORTRAIT = 'PORTRAIT',
+  OTHER = 'OTHER',
+}
+
+export interface TaggingResult {
+  caption: string;      // One sentence, e.g. "Two people walking on a beach at sunset"
+  tags: string[];       // Lowercase, no duplicates
+  scene: SceneCategory;
+  model: string;
+  corrections?: string[]; // Fixes applied by validateTaggingResult
+  payload?: PayloadSize;
+}
+
+export interface AutoTags extends Omit<TaggingResult, 'corrections' | 'payload'> {
+  indexedAt: number;
+}
+
+// A parsed .cube 3D LUT. `data` holds size^3 RGB triples (0-1 output values),
+// red varying fastest, then green, then blue, as in the file.
+export interface Lut3D {
+  title: string;
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  data: Float32Array;
+}
+
+export interface LutStage {
+  lut: Lut3D;
+  intensity: number; // 0-100, blend between the ungraded and fully graded colour
+}
+
+export interface GpsLocation {
+  latitude: number;  // Decimal degrees, negative = south
+  longitude: number; // Decimal degrees, negative = west
+  altitude?: number; // Metres, negative = below sea level
+}
+
+export interface PhotoMetadata {
+  make?: string;
+  model?: string;
+  lens?: string;
+  dateTaken?: string;    // "YYYY-MM-DDTHH:MM:SS", camera local time
+  orientation?: number;  // EXIF 1-8, as in the stored file; applied whenever it is decoded
+  exposureTime?: number; // Seconds
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number;  // mm
+  gps?: GpsLocation;
+  description?: string;
+  artist?: string;
+  copyright?: string;
+  keywords?: string[];   // IPTC or XPKeywords; exported as XPKeywords
+  software?: string;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;           // e.g. "Cast a Spell: 'warm vintage'"
+  image: string;           // Working image at this step (data or Blob URL)
+  settings: FilterSettings;
+  stack?: EditStack;       // Edit stack that rendered `image`; absent = `image` is the original
+  lut?: LutStage;          // LUT grade on top of `settings`; absent = none
+  timestamp: number;
+}
+
+export interface EditHistory {
+  entries: HistoryEntry[];
+  index: number;           // Entry currently shown; entries after it are the redo stack
 }
 
 export enum ViewMode {
@@ -23,14 +133,256 @@ export enum ViewMode {
   COLLECTION = 'COLLECTION',
   IMPORT = 'IMPORT',
   EXPORT = 'EXPORT',
+  SETTINGS = 'SETTINGS',
+}
+
+// --- COLLECTION ---
+
+export enum CollectionSort {
+  NEWEST = 'NEWEST',
+  OLDEST = 'OLDEST',
+  NAME = 'NAME',
+  RATING = 'RATING',
+}
+
+export enum CollectionGroup {
+  NONE = 'NONE',
+  ALBUM = 'ALBUM',
+  TAG = 'TAG',     // A photo with several tags shows under each of them
+  MONTH = 'MONTH',
+  RATING = 'RATING',
+  SCENE = 'SCENE', // From auto-tagging
+}
+
+// What the collection and export grids show
+export interface CollectionQuery {
+  search: string;        // Plain language; ranked against names, tags, albums, prompts and auto-tags
+  sort: CollectionSort;
+  group: CollectionGroup;
+  album: string | null;  // Only this album; null = all
+  tag: string | null;    // Only photos with this tag; null = all
+  minRating: number;     // 0 = include unrated
+}
+
+export interface CollectionGroupResult {
+  key: string;
+  label: string;
+  items: PhotoItem[];
+}
+
+// Changes from the organize dialog, applied to one or many photos
+export interface CollectionEdit {
+  name?: string;
+  album?: string | null; // null removes the album
+  addTags?: string[];
+  removeTags?: string[];
+  rating?: number;       // 0 clears the rating
 }
 
 export enum EditMode {
   COLOR = 'COLOR',
   MAGIC = 'MAGIC',
+  CROP = 'CROP',
+  CREATE = 'CREATE', // Text-to-image: start a new project from a prompt
+}
+
+// --- EDIT STACK ---
+// Non-destructive pixel edits. The working image (PhotoItem.originalUrl, the
+// editor's currentImage) is re-rendered from `source` by running the enabled
+// operations in order; FilterSettings and the LUT are then applied on top as before.
+
+export enum OperationType {
+  GENERATIVE = 'GENERATIVE', // Magic Edit result
+  ADJUST = 'ADJUST',         // FilterSettings baked in at this point of the stack
+  GEOMETRY = 'GEOMETRY'      // Crop, rotate, straighten, flip
+}
+
+export interface CropRect {
+  x: number;      // Fractions 0-1 of the frame being cropped
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Applied in this order: flip, rotate by 90° steps, straighten (auto-cropped
+// so no empty corners show), then crop.
+export interface Geometry {
+  flipH: boolean;
+  flipV: boolean;
+  rotation: number;      // 0, 90, 180 or 270, clockwise
+  straighten: number;    // -45-45 degrees, clockwise
+  crop: CropRect;        // Within the rotated, straightened frame
+  aspect: number | null; // Locked crop ratio (width / height), null = free
+}
+
+interface BaseOperation {
+  id: string;
+  label: string;    // Shown in the stack panel, e.g. "Magic Edit: 'remove the sign'"
+  enabled: boolean; // Disabled steps are kept but skipped when rendering
+  timestamp: number;
+}
+
+export interface GenerativeOperation extends BaseOperation {
+  type: OperationType.GENERATIVE;
+  prompt: string;
+  provider: ProviderId;
+  model: string;
+  result: string;   // Image the model returned (data or Blob URL)
+  mask?: string;    // Black/white PNG; the result is composited back only inside it
+  feather?: number; // Mask feather, see MaskSettings
+}
+
+export interface AdjustOperation extends BaseOperation {
+  type: OperationType.ADJUST;
+  settings: FilterSettings;
+}
+
+export interface GeometryOperation extends BaseOperation {
+  type: OperationType.GEOMETRY;
+  geometry: Geometry;
+}
+
+export type EditOperation = GenerativeOperation | AdjustOperation | GeometryOperation;
+
+export interface EditStack {
+  source: string; // The untouched original (data or Blob URL)
+  operations: EditOperation[];
+}
+
+export interface GenerativeEditResult {
+  images: string[]; // Raw base64 (no data URL prefix), at least one
+  model: string;    // Model that produced them, after any fallback
+  mimeType?: string; // Of the images, when the provider reports it
+  payload?: PayloadSize;
+}
+
+// Output shapes supported by the image models
+export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export interface ReferenceImage {
+  data: string;     // Raw base64 (no data URL prefix)
+  mimeType: string;
+}
+
+// What an image sent to the AI is used for; decides how far it is downscaled
+// and how it is encoded (see imagePayloadService)
+export enum AiImagePurpose {
+  ANALYSIS = 'ANALYSIS',   // Cast a Spell: small JPEG
+  TAGGING = 'TAGGING',     // Auto-tag: small JPEG
+  REFERENCE = 'REFERENCE', // Style / Create references: medium JPEG
+  EDIT = 'EDIT',           // Magic Edit source: up to what the image models use, format kept when possible
+  MASK = 'MASK',           // Magic Edit mask: PNG, scaled like the source
+}
+
+// Bytes uploaded for one request, next to the size of the images it was made from
+export interface PayloadSize {
+  bytes: number;
+  originalBytes: number;
 }
 
 export interface AnalysisResult {
   reasoning: string;
-  suggestedSettings: FilterSettings;
-}
\ No newline at end of file
+  suggestedSettings: Partial<FilterSettings>; // Only what should change; merge over the current settings
+  corrections?: string[]; // Fixes applied by validateAnalysisResult (out-of-range values etc.)
+  payload?: PayloadSize;   // Set by providers that upload the image
+}
+
+export enum ProviderId {
+  GEMINI = 'GEMINI',
+  MOCK = 'MOCK',
+}
+
+export interface ProviderRequestOptions {
+  signal?: AbortSignal; // Aborting rejects with AiCancelledError
+  allowLocalFallback?: boolean; // analyze(): answer locally when out of quota (default true)
+  mask?: string; // generativeEdit(): base64 PNG, white = area to change, black = keep
+  variation?: number; // generativeEdit(): index when several variations are requested (0 = first)
+}
+
+// Backend for the AI features. Images are raw base64 (no data URL prefix).
+// Failures are thrown as AiError subclasses (see services/aiErrors.ts).
+export interface EditingProvider {
+  id: ProviderId;
+  name: string;
+  description: string;
+  isAvailable: () => boolean; // e.g. false for Gemini without an API key
+  analyze: (imageBase64: string, userPrompt?: string, referenceImageBase64?: string, options?: ProviderRequestOptions) => Promise<AnalysisResult>;
+  generativeEdit: (imageBase64: string, prompt: string, mimeType?: string, options?: ProviderRequestOptions) => Promise<GenerativeEditResult>;
+  generateImage: (prompt: string, aspectRatio: AspectRatio, referenceImages?: ReferenceImage[], options?: ProviderRequestOptions) => Promise<GenerativeEditResult>;
+  tagImage: (imageBase64: string, mimeType?: string, options?: ProviderRequestOptions) => Promise<TaggingResult>;
+}
+
+export enum JobStatus {
+  QUEUED = 'QUEUED',
+  RUNNING = 'RUNNING',
+  DONE = 'DONE',
+  FAILED = 'FAILED',
+  CANCELLED = 'CANCELLED',
+}
+
+export interface JobState {
+  id: string;
+  label: string;
+  status: JobStatus;
+  attempts: number;
+  error?: string;
+}
+
+export interface QueueSnapshot {
+  jobs: JobState[];
+  isPaused: boolean;
+  isIdle: boolean;             // Nothing running or waiting to run
+  cooldownUntil: number | null; // Set while backing off after a rate limit
+}
+
+export enum ExportFormat {
+  JPEG = 'image/jpeg',
+  PNG = 'image/png',
+  WEBP = 'image/webp'
+}
+
+export enum ResizeMode {
+  ORIGINAL = 'ORIGINAL',
+  LONG_EDGE = 'LONG_EDGE',
+  PERCENT = 'PERCENT'
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  quality: number;          // 1-100, ignored for PNG
+  resizeMode: ResizeMode;
+  longEdge: number;         // px, for LONG_EDGE
+  percent: number;          // 1-100, for PERCENT
+  filenameTemplate: string; // e.g. "{name}-{date}"
+  metadata: MetadataMode;
+}
+
+export enum MetadataMode {
+  KEEP = 'KEEP',                       // Everything, plus the edit record
+  REMOVE_LOCATION = 'REMOVE_LOCATION', // Everything except GPS
+  STRIP = 'STRIP'                      // No metadata at all, not even the edit record
+}
+
+export interface Preset {
+  id: string;
+  name: string;
+  settings: FilterSettings;
+  prompt?: string;     // The Cast a Spell prompt that produced the look
+  thumbnail?: string;  // Small JPEG data URL rendered when the preset was saved
+  builtIn?: boolean;   // Shipped with the app; cannot be deleted
+  createdAt: number;
+}
+
+export enum MaskTool {
+  BRUSH = 'BRUSH',
+  ERASER = 'ERASER',
+  LASSO = 'LASSO'
+}
+
+// Sizes are in pixels of a 1000px-long-edge image (like blur), so they feel the
+// same on any photo
+export interface MaskSettings {
+  tool: MaskTool;
+  brushSize: number; // 5-200
+  feather: number;   // 0-50, soft edge when compositing the edit back
+}